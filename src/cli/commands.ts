@@ -11,9 +11,10 @@ import { mkdir, readFile } from 'fs/promises';
 import {
   FullConfigInstaller,
   parseConfig,
-  parseConfigFromGitHub,
+  fetchConfigFromGitHub,
   ConfigValidationError,
 } from '../full-config/index.js';
+import { ConfigManager } from '../config';
 import { ConfigCapturer } from '../full-config/capturer.js';
 import {
   encrypt,
@@ -170,6 +171,9 @@ export function createProgram(): Command {
       '-t, --thinking-model <model>',
       'Use specific thinking model (for Claude thinking mode)'
     )
+    .option('--profile <name>', 'Launch with a named configuration profile')
+    .option('--account <name>', 'Use the credentials of a named account')
+    .option('--no-validate', 'Launch without checking the models against the cached model list')
     .option('-v, --verbose', 'Enable verbose logging')
     .option('-q, --quiet', 'Suppress non-error output')
     .allowUnknownOption(true)
@@ -184,6 +188,9 @@ export function createProgram(): Command {
     const knownFlags = new Set([
       '--model',
       '--thinking-model',
+      '--profile',
+      '--account',
+      '--no-validate',
       '--verbose',
       '--quiet',
       '--help',
@@ -260,29 +267,165 @@ export function createProgram(): Command {
       'Interactive tier-based model selection (default, opus, sonnet, haiku, subagent, thinking)'
     )
     .alias('tier')
-    .action(async () => {
+    .option('--profile <name>', 'Save the tier models into a profile instead of the base config')
+    .option('--account <name>', 'Fetch models with the credentials of a named account')
+    .option('--auto', 'Start from a recommended model for every tier')
+    .option('--budget <budget>', 'How much price matters with --auto: low, balanced or max')
+    .option('--provider <name>', 'Only recommend models from this provider')
+    .option('--min-context <tokens>', 'Only recommend models with at least this context, e.g. 128k')
+    .action(async options => {
       const app = new SyntheticClaudeApp();
-      await app.interactiveTierSelection();
+      if (options.account && !app.selectAccount(options.account)) {
+        process.exit(1);
+      }
+      await app.interactiveTierSelection(options.profile, {
+        auto: options.auto,
+        budget: options.budget,
+        provider: options.provider,
+        minContext: options.minContext,
+      });
     });
 
   // List models command
-  program
+  const modelsCmd = program
     .command('models')
     .description('List available models')
     .option('--refresh', 'Force refresh model cache')
+    .option('--filter <expression>', 'Only list models matching a filter, e.g. "ctx>=128k"')
+    .option(
+      '--sort <key>',
+      'Sort by id, name, provider, context, price or created (default: relevance, then id)'
+    )
+    .option('--reverse', 'Reverse the sort order')
+    .option('--columns <list>', 'Comma-separated columns, e.g. id,context,price,features')
+    .option('--format <format>', 'Output format: table, json, csv or ids', 'table')
+    .option('--favorites', 'Only list pinned models')
     .action(async options => {
       const app = new SyntheticClaudeApp();
       await app.listModels(options);
     });
 
+  const favoritesCmd = modelsCmd
+    .command('favorites')
+    .description('List pinned and recently used models, which the selectors show first')
+    .action(async () => {
+      const app = new SyntheticClaudeApp();
+      await app.listFavoriteModels();
+    });
+
+  favoritesCmd
+    .command('add <model...>')
+    .description('Pin a model, found by ID, alias or fuzzy match')
+    .action(async (model: string[]) => {
+      const app = new SyntheticClaudeApp();
+      if (!(await app.addFavoriteModel(model.join(' ')))) {
+        process.exit(1);
+      }
+    });
+
+  favoritesCmd
+    .command('remove <model>')
+    .alias('rm')
+    .description('Unpin a model')
+    .action(async model => {
+      const app = new SyntheticClaudeApp();
+      if (!(await app.removeFavoriteModel(model))) {
+        process.exit(1);
+      }
+    });
+
+  modelsCmd
+    .command('show <model...>')
+    .description('Show all details of a model, found by ID, alias or fuzzy match')
+    .option('--json', 'Print the details as JSON')
+    .option('--refresh', 'Force refresh model cache')
+    .action(async (model: string[], options) => {
+      const app = new SyntheticClaudeApp();
+      if (!(await app.showModel(model.join(' '), options))) {
+        process.exit(1);
+      }
+    });
+
+  modelsCmd
+    .command('changes')
+    .description('List models added and removed when the model list was refreshed')
+    .option('--since <date>', 'Only list changes since this date, e.g. 2025-01-31')
+    .action(async options => {
+      const app = new SyntheticClaudeApp();
+      if (!(await app.showModelChanges(options))) {
+        process.exit(1);
+      }
+    });
+
+  modelsCmd
+    .command('compare <models...>')
+    .description('Compare models side by side, found by ID, alias or fuzzy match')
+    .option('--json', 'Print the comparison as JSON')
+    .option('--refresh', 'Force refresh model cache')
+    .action(async (models: string[], options) => {
+      const app = new SyntheticClaudeApp();
+      if (!(await app.compareModels(models, options))) {
+        process.exit(1);
+      }
+    });
+
+  modelsCmd
+    .command('probe [models...]')
+    .description(
+      'Send test requests to check that models respond, stream and use tools (default: tier models)'
+    )
+    .option('--tiers', 'Probe the configured tier models (the default without models)')
+    .option('--filter <expression>', 'Probe the models matching a filter, e.g. "provider:qwen"')
+    .option('--json', 'Print the results as JSON')
+    .option('--refresh', 'Force refresh model cache')
+    .action(async (models: string[], _options, command: Command) => {
+      const app = new SyntheticClaudeApp();
+      // "models" has --filter and --refresh too, and takes them when given after "probe"
+      if (!(await app.probeModels(models, command.optsWithGlobals()))) {
+        process.exit(1);
+      }
+    });
+
   // Search models command
   program
-    .command('search <query>')
-    .description('Search models by name or provider')
+    .command('search <query...>')
+    .description(
+      'Search models by name or provider, or with filters like ctx>=128k feature:tools always_on'
+    )
     .option('--refresh', 'Force refresh model cache')
-    .action(async (query, options) => {
+    .option(
+      '--sort <key>',
+      'Sort by id, name, provider, context, price or created (default: relevance, then id)'
+    )
+    .option('--reverse', 'Reverse the sort order')
+    .option('--columns <list>', 'Comma-separated columns, e.g. id,context,price,features')
+    .option('--format <format>', 'Output format: table, json, csv or ids', 'table')
+    .action(async (query: string[], options) => {
       const app = new SyntheticClaudeApp();
-      await app.searchModels(query, options);
+      await app.searchModels(query.join(' '), options);
+    });
+
+  // Cost estimate command
+  program
+    .command('cost [models...]')
+    .description(
+      'Estimate the cost of a workload on models, the tier models or the cheapest models'
+    )
+    .option('--input <tokens>', 'Uncached input tokens, e.g. 200k')
+    .option('--output <tokens>', 'Output tokens, e.g. 20k')
+    .option('--cached <tokens>', 'Input tokens read from the prompt cache')
+    .option('--cache-write <tokens>', 'Input tokens written to the prompt cache')
+    .option('--requests <count>', 'Number of requests, for per-request fees', '1')
+    .option('--tiers', 'Estimate the configured tier models (the default without models)')
+    .option('--cheapest <n>', 'Estimate the n cheapest models with complete pricing')
+    .option('--filter <expression>', 'Only consider models matching a filter for --cheapest')
+    .option('--json', 'Print the estimates as JSON')
+    .option('--refresh', 'Force refresh model cache')
+    .action(async (models: string[], options) => {
+      const app = new SyntheticClaudeApp();
+      if (!(await app.estimateCosts(models, options))) {
+        process.exit(1);
+      }
     });
 
   // Configuration commands
@@ -291,21 +434,84 @@ export function createProgram(): Command {
   configCmd
     .command('show')
     .description('Show current configuration')
-    .action(async () => {
+    .option(
+      '--sources',
+      'Show where each value comes from (default, global, project, env, profile)'
+    )
+    .action(async options => {
+      const app = new SyntheticClaudeApp();
+      await app.showConfig(options);
+    });
+
+  configCmd
+    .command('init')
+    .description('Write the global config file, or create a project overlay with --project')
+    .option('--project', 'Create a .synpick.json overlay in the current directory')
+    .option('-f, --force', 'Overwrite an existing project overlay')
+    .action(async options => {
+      const app = new SyntheticClaudeApp();
+      await app.initConfig(options);
+    });
+
+  configCmd
+    .command('get <key>')
+    .description('Show the effective value of a configuration key (e.g. models.sonnet)')
+    .option('--reveal', 'Print API keys in full')
+    .action(async (key, options) => {
       const app = new SyntheticClaudeApp();
-      await app.showConfig();
+      await app.getConfigValue(key, options);
     });
 
   configCmd
     .command('set <key> <value>')
-    .description(
-      'Set configuration value (keys: apiKey, baseUrl, modelsApiUrl, cacheDurationHours, selectedModel, selectedThinkingModel, autoUpdateClaudeCode, claudeCodeUpdateCheckInterval, maxTokenSize, systemPrompt)'
-    )
+    .description('Set a configuration value (run "synpick config keys" for the list of keys)')
     .action(async (key, value) => {
       const app = new SyntheticClaudeApp();
       await app.setConfig(key, value);
     });
 
+  configCmd
+    .command('unset <key>')
+    .description('Restore a configuration key to its default value')
+    .action(async key => {
+      const app = new SyntheticClaudeApp();
+      await app.unsetConfig(key);
+    });
+
+  configCmd
+    .command('keys')
+    .description('List every configuration key with its type and description')
+    .action(async () => {
+      const app = new SyntheticClaudeApp();
+      await app.listConfigKeys();
+    });
+
+  configCmd
+    .command('migrate')
+    .description('Upgrade the config file to the current version and drop invalid values')
+    .option('--dry-run', 'Show what would change without writing the file')
+    .action(async options => {
+      const app = new SyntheticClaudeApp();
+      await app.migrateConfig(options);
+    });
+
+  configCmd
+    .command('history')
+    .description('List config revisions and what each one changed')
+    .action(async () => {
+      const app = new SyntheticClaudeApp();
+      await app.showConfigHistory();
+    });
+
+  configCmd
+    .command('rollback [id]')
+    .description('Restore an earlier config revision')
+    .option('--steps <n>', 'Go back this many revisions instead of naming one')
+    .action(async (id, options) => {
+      const app = new SyntheticClaudeApp();
+      await app.rollbackConfig(id, options);
+    });
+
   configCmd
     .command('reset')
     .description('Reset configuration to defaults')
@@ -361,9 +567,20 @@ export function createProgram(): Command {
     .option('-v, --verbose', 'Enable verbose logging')
     .option('-q, --quiet', 'Suppress non-error output')
     .option('-f, --force', 'Force model selection even if last used provider is available')
+    .option('--profile <name>', 'Launch with a named configuration profile')
+    .option('--account <name>', 'Use the credentials of a named account')
     .action(async options => {
       const app = new SyntheticClaudeApp();
-      const config = app.getConfig();
+      if (options.account && !app.selectAccount(options.account)) {
+        process.exit(1);
+      }
+      let config;
+      try {
+        config = app.getEffectiveConfig(options.profile);
+      } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
 
       // Check if we have saved models and user didn't force selection
       if (!options.force && (config.selectedModel || config.selectedThinkingModel)) {
@@ -371,6 +588,8 @@ export function createProgram(): Command {
         await app.run({
           verbose: options.verbose,
           quiet: options.quiet,
+          profile: options.profile,
+          account: options.account,
           model: '', // Will use saved models from config
           additionalArgs: ['--dangerously-skip-permissions'],
         });
@@ -384,6 +603,8 @@ export function createProgram(): Command {
           await app.run({
             verbose: options.verbose,
             quiet: options.quiet,
+            profile: options.profile,
+            account: options.account,
             model: '', // Will use saved models from config
             additionalArgs: ['--dangerously-skip-permissions'],
           });
@@ -391,6 +612,176 @@ export function createProgram(): Command {
       }
     });
 
+  // Profile management
+  const profileCmd = program.command('profile').description('Manage named configuration profiles');
+
+  profileCmd
+    .command('list')
+    .alias('ls')
+    .description('List configured profiles')
+    .action(async () => {
+      const app = new SyntheticClaudeApp();
+      await app.listProfiles();
+    });
+
+  profileCmd
+    .command('create <name>')
+    .description('Create a profile from the current tiers, thinking model and system prompt')
+    .option('--empty', 'Start from an empty profile instead of the current settings')
+    .option('--description <text>', 'Profile description')
+    .option('--api-key <key>', 'Use a different Synthetic API key for this profile')
+    .option('--base-url <url>', 'Use a different Synthetic API base URL')
+    .option('--anthropic-base-url <url>', 'Use a different Anthropic-compatible endpoint')
+    .option('--models-api-url <url>', 'Use a different models endpoint')
+    .option('--account <name>', 'Use the credentials of a named account')
+    .action(async (name, options) => {
+      const app = new SyntheticClaudeApp();
+      await app.createProfile(name, options);
+    });
+
+  profileCmd
+    .command('use [name]')
+    .description('Use a profile for future launches')
+    .option('--clear', 'Stop using a profile and fall back to the base configuration')
+    .action(async (name, options) => {
+      if (!name && !options.clear) {
+        console.error('Specify a profile name, or --clear to stop using a profile');
+        process.exit(1);
+      }
+      const app = new SyntheticClaudeApp();
+      await app.useProfile(options.clear ? undefined : name);
+    });
+
+  profileCmd
+    .command('delete <name>')
+    .alias('rm')
+    .description('Delete a profile')
+    .action(async name => {
+      const app = new SyntheticClaudeApp();
+      await app.deleteProfile(name);
+    });
+
+  profileCmd
+    .command('copy <source> <target>')
+    .alias('cp')
+    .description('Copy a profile under a new name')
+    .action(async (source, target) => {
+      const app = new SyntheticClaudeApp();
+      await app.copyProfile(source, target);
+    });
+
+  // Account management
+  const accountCmd = program
+    .command('account')
+    .description('Manage named Synthetic accounts and their credentials');
+
+  accountCmd
+    .command('list')
+    .alias('ls')
+    .description('List configured accounts')
+    .action(async () => {
+      const app = new SyntheticClaudeApp();
+      await app.listAccounts();
+    });
+
+  accountCmd
+    .command('add <name>')
+    .description('Add an account (prompts for the API key unless one is given)')
+    .option('--description <text>', 'Account description')
+    .option('--api-key <key>', 'Synthetic API key for this account')
+    .option('--api-key-command <command>', 'Command that prints the API key')
+    .option('--encrypt', 'Store the API key encrypted with a passphrase')
+    .option('--passphrase-file <path>', 'Key file holding the passphrase (with --encrypt)')
+    .option('--base-url <url>', 'Synthetic API base URL for this account')
+    .option('--anthropic-base-url <url>', 'Anthropic-compatible endpoint for this account')
+    .option('--models-api-url <url>', 'Models endpoint for this account')
+    .option('--default', 'Make this the default account')
+    .action(async (name, options) => {
+      const app = new SyntheticClaudeApp();
+      await app.addAccount(name, options);
+    });
+
+  accountCmd
+    .command('remove <name>')
+    .alias('rm')
+    .description('Remove an account')
+    .action(async name => {
+      const app = new SyntheticClaudeApp();
+      await app.removeAccount(name);
+    });
+
+  accountCmd
+    .command('default [name]')
+    .description('Show or set the account used when no project, profile or flag selects one')
+    .option('--clear', 'Use the base credentials by default')
+    .action(async (name, options) => {
+      const app = new SyntheticClaudeApp();
+      await app.defaultAccount(name, options);
+    });
+
+  // Model aliases
+  const aliasCmd = program
+    .command('alias')
+    .description('Manage short names for model IDs, usable wherever a model ID is accepted');
+
+  aliasCmd
+    .command('list')
+    .alias('ls')
+    .description('List model aliases, flagging those whose model is gone')
+    .action(async () => {
+      const app = new SyntheticClaudeApp();
+      await app.listModelAliases();
+    });
+
+  aliasCmd
+    .command('add <name> <model>')
+    .description('Add an alias for a model ID')
+    .option('-f, --force', 'Replace an existing alias of the same name')
+    .action(async (name, model, options) => {
+      const app = new SyntheticClaudeApp();
+      await app.addModelAlias(name, model, options);
+    });
+
+  aliasCmd
+    .command('remove <name>')
+    .alias('rm')
+    .description('Remove an alias (settings made through it keep the model ID)')
+    .action(async name => {
+      const app = new SyntheticClaudeApp();
+      await app.removeModelAlias(name);
+    });
+
+  // Workspace trust
+  const trustCmd = program
+    .command('trust')
+    .description('Manage trusted project settings and full-install configs');
+
+  trustCmd
+    .command('list')
+    .alias('ls')
+    .description('List trusted files')
+    .action(async () => {
+      const app = new SyntheticClaudeApp();
+      await app.listTrust();
+    });
+
+  trustCmd
+    .command('add [path]')
+    .description('Trust a file or directory with its current content (default: the project config)')
+    .action(async path => {
+      const app = new SyntheticClaudeApp();
+      await app.addTrust(path);
+    });
+
+  trustCmd
+    .command('revoke [path]')
+    .alias('rm')
+    .description('Revoke trust for a file, or for everything under a directory')
+    .action(async path => {
+      const app = new SyntheticClaudeApp();
+      await app.revokeTrust(path);
+    });
+
   // Cache management
   const cacheCmd = program.command('cache').description('Manage model cache');
 
@@ -514,10 +905,14 @@ export function createProgram(): Command {
     .option('--path <path>', 'Path to config file in repo (default: synpick-config.yaml)')
     .option('-y, --yes', 'Auto-accept all confirmations')
     .option('--dry-run', 'Show what would be done without making changes')
+    .option('--trust', 'Trust this configuration source before installing')
     .action(async (source, options) => {
       try {
         let config;
         let configRoot = '';
+        // Identifies the source in the trust store, together with its content
+        let trustKey = '';
+        let trustContent = '';
 
         // Determine config source
         if (options.github) {
@@ -527,7 +922,11 @@ export function createProgram(): Command {
             process.exit(1);
           }
           console.log(`Fetching configuration from GitHub: ${options.github}`);
-          config = await parseConfigFromGitHub(owner, repo, options.branch, options.path);
+          const branch = options.branch || 'main';
+          const path = options.path || 'synpick-config.yaml';
+          trustContent = await fetchConfigFromGitHub(owner, repo, branch, path);
+          trustKey = `github:${owner}/${repo}/${branch}/${path}`;
+          config = parseConfig(trustContent);
           configRoot = `https://github.com/${options.github}/blob/${options.branch || 'main'}/`;
         } else if (source) {
           // Local file
@@ -535,6 +934,8 @@ export function createProgram(): Command {
           console.log(`Reading configuration from: ${filePath}`);
           config = await readConfigFile(filePath);
           configRoot = dirname(filePath);
+          trustKey = filePath;
+          trustContent = readFileSync(filePath, 'utf-8');
         } else {
           // Look for default config in current directory
           const defaultPaths = [
@@ -549,6 +950,8 @@ export function createProgram(): Command {
               await readFile(path, 'utf-8');
               config = await readConfigFile(path);
               configRoot = dirname(path);
+              trustKey = path;
+              trustContent = readFileSync(path, 'utf-8');
               console.log(`Using configuration from: ${path}`);
               break;
             } catch {
@@ -568,9 +971,15 @@ export function createProgram(): Command {
         }
 
         // Create and run installer
+        const trustStore = new ConfigManager().getTrustStore();
+        if (options.trust) {
+          await trustStore.trust(trustKey, trustContent);
+        }
+
         const installer = new FullConfigInstaller(config, configRoot);
         installer.setAutoConfirm(options.yes);
         installer.setDryRun(!!options.dryRun);
+        installer.setTrusted(trustStore.getStatus(trustKey, trustContent) === 'trusted');
         await installer.install();
       } catch (error) {
         if (error instanceof ConfigValidationError) {
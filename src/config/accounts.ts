@@ -0,0 +1,59 @@
+import { Account, AppConfig } from './types';
+
+/**
+ * Gets the model cache file name for an account
+ *
+ * Accounts can see different model lists, so each one caches separately.
+ *
+ * @param account - The account name, or undefined for the base credentials
+ * @returns e.g. models_cache.json or models_cache.client.json
+ */
+export function modelCacheFileName(account?: string): string {
+  return account ? `models_cache.${account}.json` : 'models_cache.json';
+}
+
+/**
+ * Gets the model change log file name for an account
+ *
+ * @param account - The account name, or undefined for the base credentials
+ * @returns e.g. model_changes.json or model_changes.client.json
+ */
+export function modelChangeLogFileName(account?: string): string {
+  return account ? `model_changes.${account}.json` : 'model_changes.json';
+}
+
+/**
+ * Gets the model probe cache file name for an account
+ *
+ * @param account - The account name, or undefined for the base credentials
+ * @returns e.g. model_probes.json or model_probes.client.json
+ */
+export function modelProbeCacheFileName(account?: string): string {
+  return account ? `model_probes.${account}.json` : 'model_probes.json';
+}
+
+/**
+ * Switches a configuration to an account's credentials
+ *
+ * The account's key settings replace the configuration's as a whole, so a
+ * plain key from the base config can never be sent with another account.
+ * Endpoints fall back to the configuration when the account leaves them unset.
+ *
+ * @param config - The configuration (after any profile was applied)
+ * @param name - The account name
+ * @param account - The account to apply
+ * @returns A new configuration object using the account
+ */
+export function applyAccount(config: AppConfig, name: string, account: Account): AppConfig {
+  return {
+    ...config,
+    account: name,
+    apiKey: account.apiKey || '',
+    apiKeyCommand: account.apiKeyCommand,
+    encryptedApiKey: account.encryptedApiKey,
+    apiKeyPassphraseFile: account.apiKeyPassphraseFile,
+    baseUrl: account.baseUrl || config.baseUrl,
+    anthropicBaseUrl: account.anthropicBaseUrl || config.anthropicBaseUrl,
+    modelsApiUrl: account.modelsApiUrl || config.modelsApiUrl,
+  };
+}
@@ -0,0 +1,59 @@
+import { TierModels } from './types';
+
+/**
+ * Config keys that hold a model ID, and so accept an alias
+ */
+const MODEL_CONFIG_KEYS = ['selectedModel', 'selectedThinkingModel'];
+
+/**
+ * Resolves a model alias to the model ID it stands for
+ *
+ * @param aliases - The alias table
+ * @param value - An alias or a model ID
+ * @returns The aliased model ID, or the value itself if it is not an alias
+ */
+export function resolveModelAlias(aliases: Record<string, string>, value: string): string {
+  return Object.hasOwn(aliases, value) ? aliases[value]! : value;
+}
+
+/**
+ * Resolves the aliases among a set of tier models
+ *
+ * @param aliases - The alias table
+ * @param models - Tier models, possibly using aliases
+ * @returns The tier models with model IDs only
+ */
+export function resolveTierAliases(
+  aliases: Record<string, string>,
+  models: Partial<TierModels>
+): Partial<TierModels> {
+  return Object.fromEntries(
+    Object.entries(models).map(([tier, value]) => [
+      tier,
+      value ? resolveModelAlias(aliases, value) : value,
+    ])
+  );
+}
+
+/**
+ * Lists the aliases of a model
+ *
+ * @param aliases - The alias table
+ * @param modelId - The model ID
+ * @returns Alias names pointing at the model, sorted
+ */
+export function findModelAliases(aliases: Record<string, string>, modelId: string): string[] {
+  return Object.keys(aliases)
+    .filter(name => aliases[name] === modelId)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Checks whether a config key holds a model ID
+ *
+ * @param path - Dotted key path, e.g. "models.sonnet"
+ * @returns true for the tier models and the selected models
+ */
+export function isModelConfigKey(path: string): boolean {
+  return MODEL_CONFIG_KEYS.includes(path) || path.startsWith('models.');
+}
@@ -0,0 +1,166 @@
+import { exec } from 'child_process';
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { promisify } from 'util';
+import { ApiKeyError } from './types';
+import { decrypt, encrypt, parseEncryptedData } from '../utils/encryption';
+
+const execAsync = promisify(exec);
+
+/**
+ * Environment variable that can supply the passphrase for encryptedApiKey
+ */
+export const API_KEY_PASSPHRASE_ENV = 'SYNPICK_API_KEY_PASSPHRASE';
+
+/**
+ * Where the API key comes from: stored in plain text, printed by a command,
+ * or encrypted at rest
+ */
+export type ApiKeySource = 'plain' | 'command' | 'encrypted' | 'none';
+
+/**
+ * The settings that supply an API key, found in the config and in each account
+ */
+export interface ApiKeySettings {
+  apiKey?: string;
+  apiKeyCommand?: string;
+  encryptedApiKey?: string;
+  apiKeyPassphraseFile?: string;
+}
+
+/**
+ * Config fields that hold a credential, out of SENSITIVE_CONFIG_KEYS
+ */
+export const CREDENTIAL_CONFIG_KEYS = ['apiKey', 'encryptedApiKey'];
+
+/**
+ * Masks a credential for display, keeping its last four characters
+ *
+ * @param value - The API key or encrypted key
+ * @returns e.g. "••••••••1234"
+ */
+export function maskCredential(value: string): string {
+  return '••••••••' + value.slice(-4);
+}
+
+/**
+ * Masks the credentials in a config value for display
+ *
+ * Objects and records are walked, so values such as the whole `accounts` or
+ * `profiles` record have their nested API keys masked too.
+ *
+ * @param key - Dotted config key of the value, e.g. "accounts" or "apiKey"
+ * @param value - The value
+ * @returns A copy of the value with every credential field masked
+ */
+export function maskConfigCredentials(key: string, value: unknown): unknown {
+  const field = key.split('.').pop() || key;
+  if (typeof value === 'string') {
+    return value && CREDENTIAL_CONFIG_KEYS.includes(field) ? maskCredential(value) : value;
+  }
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [name, maskConfigCredentials(name, item)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Determines which API key source a config uses
+ *
+ * A plain key (including one from SYNPICK_API_KEY or a profile) wins over
+ * apiKeyCommand, which wins over encryptedApiKey.
+ *
+ * @param config - The effective configuration, or an account
+ * @returns The API key source
+ */
+export function getApiKeySource(config: ApiKeySettings): ApiKeySource {
+  if (config.apiKey) return 'plain';
+  if (config.apiKeyCommand) return 'command';
+  if (config.encryptedApiKey) return 'encrypted';
+  return 'none';
+}
+
+/**
+ * Runs an API key command and returns what it prints
+ *
+ * @param command - Shell command, e.g. "pass show synthetic"
+ * @param timeoutMs - Time limit for the command
+ * @returns Promise resolving to the first line of the command's output
+ * @throws ApiKeyError if the command fails, times out or prints nothing
+ */
+export async function runApiKeyCommand(command: string, timeoutMs: number): Promise<string> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execAsync(command, { timeout: timeoutMs, windowsHide: true }));
+  } catch (error) {
+    const killed = (error as { killed?: boolean }).killed;
+    throw new ApiKeyError(
+      killed
+        ? `API key command timed out after ${timeoutMs}ms: ${command}`
+        : `API key command failed: ${command}`,
+      error
+    );
+  }
+
+  // Tools like "pass" put the secret on the first line
+  const key = stdout.split(/\r?\n/)[0]?.trim();
+  if (!key) {
+    throw new ApiKeyError(`API key command printed nothing: ${command}`);
+  }
+  return key;
+}
+
+/**
+ * Encrypts an API key for storage in encryptedApiKey
+ *
+ * @param apiKey - The plain API key
+ * @param passphrase - Passphrase used to derive the AES-256-GCM key
+ * @returns The encrypted key as a compact JSON string
+ */
+export function encryptApiKey(apiKey: string, passphrase: string): string {
+  return JSON.stringify(encrypt(apiKey, passphrase));
+}
+
+/**
+ * Decrypts an encryptedApiKey value
+ *
+ * @param encrypted - The stored encrypted key
+ * @param passphrase - The passphrase it was encrypted with
+ * @returns The plain API key
+ * @throws ApiKeyError if the passphrase is wrong or the value is corrupted
+ */
+export function decryptApiKey(encrypted: string, passphrase: string): string {
+  try {
+    return decrypt(parseEncryptedData(encrypted), passphrase);
+  } catch (error) {
+    throw new ApiKeyError(
+      `Could not decrypt the API key: ${error instanceof Error ? error.message : String(error)}`,
+      error
+    );
+  }
+}
+
+/**
+ * Reads a passphrase from a key file
+ *
+ * @param path - Key file path; "~" is expanded to the home directory
+ * @returns Promise resolving to the file content without a trailing newline
+ * @throws ApiKeyError if the file cannot be read or is empty
+ */
+export async function readPassphraseFile(path: string): Promise<string> {
+  const filePath = path.replace(/^~(?=$|[\\/])/, homedir());
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (error) {
+    throw new ApiKeyError(`Could not read the API key passphrase file: ${filePath}`, error);
+  }
+
+  const passphrase = content.replace(/\r?\n$/, '');
+  if (!passphrase) {
+    throw new ApiKeyError(`The API key passphrase file is empty: ${filePath}`);
+  }
+  return passphrase;
+}
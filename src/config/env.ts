@@ -0,0 +1,78 @@
+import { listConfigKeys, nestValue, parseConfigValue } from './keys';
+import { deepMerge } from './project';
+
+/**
+ * Prefix of environment variables that override config values
+ */
+export const ENV_PREFIX = 'SYNPICK_';
+
+/**
+ * Older variable names still honoured when the SYNPICK_ name is not set
+ */
+export const LEGACY_ENV_ALIASES: Record<string, string> = {
+  SYNTHETIC_API_KEY: 'apiKey',
+  SYNTHETIC_BASE_URL: 'baseUrl',
+  SYNTHETIC_CACHE_DURATION: 'cacheDurationHours',
+};
+
+/**
+ * Config values taken from the environment
+ */
+export interface EnvOverrides {
+  /** Nested config object built from the valid variables */
+  data: Record<string, unknown>;
+  /** Dotted config key to the variable that set it */
+  variables: Record<string, string>;
+  /** One message per variable that failed validation */
+  errors: string[];
+}
+
+/**
+ * Gets the environment variable name for a config key
+ *
+ * @param path - Dotted config key, e.g. "models.sonnet" or "maxTokenSize"
+ * @returns The variable name, e.g. SYNPICK_MODELS_SONNET or SYNPICK_MAX_TOKEN_SIZE
+ */
+export function envVarName(path: string): string {
+  return (
+    ENV_PREFIX +
+    path
+      .split('.')
+      .map(segment => segment.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase())
+      .join('_')
+  );
+}
+
+/**
+ * Reads config overrides from environment variables
+ *
+ * Each variable is coerced and validated against its schema field on its own,
+ * so one bad variable does not discard the others.
+ *
+ * @param env - The environment to read (default: process.env)
+ * @returns The valid overrides and the errors for invalid ones
+ */
+export function readEnvOverrides(env: NodeJS.ProcessEnv = process.env): EnvOverrides {
+  const overrides: EnvOverrides = { data: {}, variables: {}, errors: [] };
+  const legacy = Object.fromEntries(
+    Object.entries(LEGACY_ENV_ALIASES).map(([name, path]) => [path, name])
+  );
+
+  for (const key of listConfigKeys()) {
+    const name = [envVarName(key.path), legacy[key.path]].find(n => n && env[n]);
+    if (!name) {
+      continue;
+    }
+
+    const result = parseConfigValue(key, env[name]!);
+    if (!result.success) {
+      overrides.errors.push(`${name}: ${result.error}`);
+      continue;
+    }
+
+    overrides.data = deepMerge(overrides.data, nestValue(key.path, result.value));
+    overrides.variables[key.path] = name;
+  }
+
+  return overrides;
+}
@@ -0,0 +1,186 @@
+import { existsSync, readFileSync } from 'fs';
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { z } from 'zod';
+import { ConfigSaveError } from './types';
+import { flattenConfig } from './project';
+import { SENSITIVE_CONFIG_KEYS } from './trust';
+import { writeFileAtomic } from '../utils/file-lock';
+
+export const ConfigRevisionSchema = z.object({
+  id: z.number().int().positive().describe('Revision number, increasing with every change'),
+  timestamp: z.string().describe('When the revision was written (ISO 8601)'),
+  command: z.string().describe('The synpick command that made the change'),
+  config: z.record(z.string(), z.unknown()).describe('The saved configuration'),
+});
+
+export const ConfigHistorySchema = z.object({
+  nextId: z.number().int().positive().default(1),
+  revisions: z.array(ConfigRevisionSchema).default([]),
+});
+
+export type ConfigRevision = z.infer<typeof ConfigRevisionSchema>;
+
+/**
+ * One changed key between two config revisions
+ */
+export interface ConfigChange {
+  /** Dotted key path */
+  key: string;
+  /** Value before the change (undefined if the key was added) */
+  before?: unknown;
+  /** Value after the change (undefined if the key was removed) */
+  after?: unknown;
+}
+
+/**
+ * Bookkeeping keys that synpick updates by itself; saves that change only
+ * these are not recorded as revisions
+ */
+export const UNTRACKED_CONFIG_KEYS = ['lastClaudeCodeUpdateCheck', 'recentModels'];
+
+/**
+ * Describes a synpick invocation for the history, hiding secret arguments
+ *
+ * @param args - Command line arguments after the executable and script
+ * @returns e.g. "synpick config set apiKey ***"
+ */
+export function describeCommand(args: string[]): string {
+  const words = args.map((arg, index) => {
+    const previous = args[index - 1] ?? '';
+    const isSecretOption = previous === '--api-key';
+    const isSecretValue =
+      index >= 2 &&
+      args[index - 2] === 'set' &&
+      SENSITIVE_CONFIG_KEYS.includes(previous.split('.').pop() || previous);
+    return isSecretOption || isSecretValue ? '***' : arg;
+  });
+  return ['synpick', ...words].join(' ');
+}
+
+/**
+ * Lists the keys that differ between two configs
+ *
+ * @param before - The earlier config
+ * @param after - The later config
+ * @returns Changed keys in the order they appear
+ */
+export function diffConfigs(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): ConfigChange[] {
+  const flatBefore = flattenConfig(before);
+  const flatAfter = flattenConfig(after);
+  const changes: ConfigChange[] = [];
+
+  for (const key of new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)])) {
+    if (JSON.stringify(flatBefore[key]) !== JSON.stringify(flatAfter[key])) {
+      changes.push({ key, before: flatBefore[key], after: flatAfter[key] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Bounded, persistent list of config revisions
+ *
+ * Every saved config is recorded with the command that caused it, so an
+ * earlier state can be restored. The oldest revisions are dropped once the
+ * limit is reached.
+ */
+export class ConfigHistory {
+  static readonly DEFAULT_LIMIT = 20;
+
+  private historyPath: string;
+  private limit: number;
+  private data: z.infer<typeof ConfigHistorySchema> | null = null;
+
+  /**
+   * Creates a new ConfigHistory instance
+   *
+   * @param historyPath - Path of the history JSON file
+   * @param limit - Maximum number of revisions kept (default: 20)
+   */
+  constructor(historyPath: string, limit = ConfigHistory.DEFAULT_LIMIT) {
+    this.historyPath = historyPath;
+    this.limit = limit;
+  }
+
+  /**
+   * Lists the recorded revisions
+   *
+   * @returns Revisions, oldest first
+   */
+  list(): ConfigRevision[] {
+    return [...this.load().revisions];
+  }
+
+  /**
+   * Finds a revision by its id
+   *
+   * @param id - Revision id
+   * @returns The revision, or undefined if it is not (or no longer) recorded
+   */
+  get(id: number): ConfigRevision | undefined {
+    return this.load().revisions.find(revision => revision.id === id);
+  }
+
+  /**
+   * Records a new revision, dropping the oldest ones beyond the limit
+   *
+   * The history file is re-read first so revisions written by other synpick
+   * processes are kept.
+   *
+   * @param config - The saved configuration
+   * @param command - The command that made the change
+   * @returns Promise resolving to the new revision
+   * @throws ConfigSaveError if the history cannot be written
+   */
+  async record(config: Record<string, unknown>, command: string): Promise<ConfigRevision> {
+    this.data = null;
+    const data = this.load();
+    const revision: ConfigRevision = {
+      id: data.nextId,
+      timestamp: new Date().toISOString(),
+      command,
+      config: structuredClone(config),
+    };
+    this.data = {
+      nextId: data.nextId + 1,
+      revisions: [...data.revisions, revision].slice(-this.limit),
+    };
+    await this.save();
+    return revision;
+  }
+
+  private load(): z.infer<typeof ConfigHistorySchema> {
+    if (this.data) {
+      return this.data;
+    }
+
+    try {
+      if (existsSync(this.historyPath)) {
+        const result = ConfigHistorySchema.safeParse(
+          JSON.parse(readFileSync(this.historyPath, 'utf-8'))
+        );
+        if (result.success) {
+          this.data = result.data;
+          return this.data;
+        }
+      }
+    } catch {
+      // An unreadable history starts over
+    }
+    this.data = { nextId: 1, revisions: [] };
+    return this.data;
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await mkdir(dirname(this.historyPath), { recursive: true });
+      await writeFileAtomic(this.historyPath, JSON.stringify(this.data, null, 2));
+    } catch (error) {
+      throw new ConfigSaveError(`Failed to save config history: ${this.historyPath}`, error);
+    }
+  }
+}
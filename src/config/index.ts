@@ -1,2 +1,12 @@
 export * from './types';
 export * from './manager';
+export * from './profiles';
+export * from './project';
+export * from './trust';
+export * from './keys';
+export * from './env';
+export * from './migrations';
+export * from './history';
+export * from './api-key';
+export * from './accounts';
+export * from './aliases';
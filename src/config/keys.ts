@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import { AppConfigSchema } from './types';
+
+/**
+ * How a config value is written on the command line or in an environment variable
+ */
+export type ConfigValueType = 'string' | 'number' | 'boolean' | 'json';
+
+/**
+ * A settable configuration key discovered from the schema
+ */
+export interface ConfigKey {
+  /** Dotted path, e.g. "models.sonnet" */
+  path: string;
+  type: ConfigValueType;
+  description?: string;
+  /** Schema of the value without its default or optional wrapper */
+  schema: z.ZodType;
+  defaultValue?: unknown;
+  optional: boolean;
+}
+
+/**
+ * Lists every leaf key of a config schema
+ *
+ * Nested objects (such as the tier models) are expanded into dotted keys;
+ * records and arrays are treated as single JSON-valued keys.
+ *
+ * @param schema - The object schema to introspect (default: AppConfigSchema)
+ * @param prefix - Key prefix used for recursion
+ * @returns Keys in schema order
+ */
+export function listConfigKeys(schema: z.ZodObject = AppConfigSchema, prefix = ''): ConfigKey[] {
+  const keys: ConfigKey[] = [];
+
+  for (const [name, field] of Object.entries(schema.shape) as Array<[string, z.ZodType]>) {
+    const path = prefix ? `${prefix}.${name}` : name;
+    const description = field.description;
+    let inner = field;
+    let defaultValue: unknown;
+    let optional = false;
+
+    // Peel off .default() and .optional() wrappers to reach the value schema
+    for (;;) {
+      if (inner instanceof z.ZodDefault) {
+        defaultValue = inner.def.defaultValue;
+        inner = inner.unwrap() as z.ZodType;
+      } else if (inner instanceof z.ZodOptional) {
+        optional = true;
+        inner = inner.unwrap() as z.ZodType;
+      } else {
+        break;
+      }
+    }
+
+    if (inner instanceof z.ZodObject) {
+      keys.push(...listConfigKeys(inner, path));
+      continue;
+    }
+
+    keys.push({
+      path,
+      type:
+        inner instanceof z.ZodString
+          ? 'string'
+          : inner instanceof z.ZodNumber
+            ? 'number'
+            : inner instanceof z.ZodBoolean
+              ? 'boolean'
+              : 'json',
+      description: description ?? inner.description,
+      schema: inner,
+      defaultValue,
+      optional,
+    });
+  }
+
+  return keys;
+}
+
+/**
+ * Finds a config key by its dotted path
+ *
+ * @param path - Dotted key path
+ * @returns The key, or undefined if the schema has no such leaf key
+ */
+export function findConfigKey(path: string): ConfigKey | undefined {
+  return listConfigKeys().find(key => key.path === path);
+}
+
+/**
+ * Describes the accepted values of a config key, e.g. "number 1-168"
+ *
+ * @param key - The config key
+ * @returns A short human-readable type description
+ */
+export function describeConfigKeyType(key: ConfigKey): string {
+  if (key.schema instanceof z.ZodNumber) {
+    const { minValue, maxValue } = key.schema;
+    const range =
+      minValue !== null &&
+      maxValue !== null &&
+      Number.isFinite(minValue) &&
+      Number.isFinite(maxValue)
+        ? ` ${minValue}-${maxValue}`
+        : '';
+    return `${key.type}${range}`;
+  }
+  return key.type;
+}
+
+/**
+ * Converts a raw string into the type a config key expects
+ *
+ * Values that cannot be converted are returned unchanged so that schema
+ * validation reports the problem.
+ *
+ * @param key - The config key
+ * @param raw - The raw string value
+ * @returns The coerced value
+ */
+export function coerceConfigValue(key: ConfigKey, raw: string): unknown {
+  const value = raw.trim();
+  switch (key.type) {
+    case 'number':
+      return value !== '' && !isNaN(Number(value)) ? Number(value) : raw;
+    case 'boolean':
+      if (['true', '1', 'yes', 'on'].includes(value.toLowerCase())) return true;
+      if (['false', '0', 'no', 'off'].includes(value.toLowerCase())) return false;
+      return raw;
+    case 'json':
+      try {
+        return JSON.parse(value);
+      } catch {
+        return raw;
+      }
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Coerces and validates a raw string for a config key
+ *
+ * @param key - The config key
+ * @param raw - The raw string value
+ * @returns The parsed value, or the validation message if it is invalid
+ */
+export function parseConfigValue(
+  key: ConfigKey,
+  raw: string
+): { success: true; value: unknown } | { success: false; error: string } {
+  const result = key.schema.safeParse(coerceConfigValue(key, raw));
+  if (result.success) {
+    return { success: true, value: result.data };
+  }
+  return {
+    success: false,
+    error: result.error.issues
+      .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ` : '') + issue.message)
+      .join('; '),
+  };
+}
+
+/**
+ * Builds a nested object holding one value at a dotted path
+ *
+ * @param path - Dotted key path
+ * @param value - The value to place
+ * @returns e.g. { models: { sonnet: value } } for "models.sonnet"
+ */
+export function nestValue(path: string, value: unknown): Record<string, unknown> {
+  let result: unknown = value;
+  for (const segment of path.split('.').reverse()) {
+    result = { [segment]: result };
+  }
+  return result as Record<string, unknown>;
+}
@@ -1,24 +1,140 @@
 import { readFile, writeFile, mkdir, chmod, unlink, readdir, stat } from 'fs/promises';
 import { existsSync, readFileSync } from 'fs';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import { homedir } from 'os';
-import { AppConfigSchema, AppConfig, ConfigValidationError, ConfigSaveError } from './types';
+import {
+  AppConfigSchema,
+  AppConfig,
+  CONFIG_VERSION,
+  ConfigValidationError,
+  ConfigSaveError,
+  ConfigHistoryError,
+  ApiKeyError,
+  Profile,
+  ProfileError,
+  ProfileSchema,
+  Account,
+  AccountError,
+  AccountSchema,
+  ModelAliasError,
+} from './types';
+import { applyProfile, isValidProfileName } from './profiles';
+import { isModelConfigKey, resolveModelAlias } from './aliases';
+import { applyAccount } from './accounts';
+import {
+  ConfigValueSource,
+  PROJECT_CONFIG_FILENAME,
+  deepMerge,
+  findProjectConfigFile,
+  flattenConfig,
+  isPlainObject,
+} from './project';
+import { TrustStatus, TrustStore, findSensitiveKeys, stripSensitiveKeys } from './trust';
+import { EnvOverrides, readEnvOverrides } from './env';
+import { ConfigKey, findConfigKey, nestValue, parseConfigValue } from './keys';
+import {
+  ConfigMigration,
+  DroppedField,
+  migrateConfig,
+  recoverConfig,
+  syncLegacySelections,
+} from './migrations';
+import {
+  ConfigHistory,
+  ConfigRevision,
+  UNTRACKED_CONFIG_KEYS,
+  describeCommand,
+  diffConfigs,
+} from './history';
+import { withFileLock, writeFileAtomic } from '../utils/file-lock';
+import {
+  API_KEY_PASSPHRASE_ENV,
+  ApiKeySource,
+  decryptApiKey,
+  encryptApiKey,
+  ApiKeySettings,
+  getApiKeySource,
+  readPassphraseFile,
+  runApiKeyCommand,
+} from './api-key';
+
+interface ProjectConfig {
+  path: string;
+  data: Record<string, unknown>;
+  content?: string;
+  trust?: TrustStatus;
+  untrustedKeys: string[];
+  error?: string;
+}
+
+/**
+ * What happened while loading the global config file
+ */
+export interface ConfigLoadReport {
+  /** Version of the file on disk (0 if unversioned) */
+  fromVersion: number;
+  /** Migrations applied in memory */
+  applied: ConfigMigration[];
+  /** Invalid fields that were dropped */
+  dropped: DroppedField[];
+}
+
+/**
+ * A config migration as previewed or performed by ConfigManager.migrate
+ */
+export interface ConfigMigrationPlan extends ConfigLoadReport {
+  /** Raw content of the config file before migrating */
+  before: Record<string, unknown>;
+  /** Config written by the migration */
+  after: AppConfig;
+  /** Whether the file needs (or needed) rewriting */
+  changed: boolean;
+}
 
 export class ConfigManager {
   private configDir: string;
   private configPath: string;
+  private projectDir: string;
   private _config: AppConfig | null = null;
+  private _projectConfig: ProjectConfig | null | undefined = undefined;
+  private trustStore: TrustStore;
+  private env: NodeJS.ProcessEnv;
+  private _envOverrides: EnvOverrides | null = null;
+  private _loadReport: ConfigLoadReport | null = null;
+  private history: ConfigHistory;
+  private changeCommand = describeCommand(process.argv.slice(2));
+  // Keys read from a command or decrypted, by the settings that produced them
+  private resolvedApiKeys = new Map<string, string>();
+  private accountOverride: string | undefined;
   private static readonly MAX_BACKUP_FILES = 1;
+  static readonly MAX_RECENT_MODELS = 10;
 
   /**
    * Creates a new ConfigManager instance
    *
    * @param configDir - Optional custom config directory path.
    *                    Defaults to ~/.config/synpick
+   * @param projectDir - Directory to search for a project overlay from.
+   *                     Defaults to the current working directory
+   * @param env - Environment to read SYNPICK_* overrides from.
+   *              Defaults to process.env
    */
-  constructor(configDir?: string) {
+  constructor(configDir?: string, projectDir?: string, env: NodeJS.ProcessEnv = process.env) {
     this.configDir = configDir || join(homedir(), '.config', 'synpick');
     this.configPath = join(this.configDir, 'config.json');
+    this.projectDir = projectDir || process.cwd();
+    this.trustStore = new TrustStore(join(this.configDir, 'trust.json'));
+    this.history = new ConfigHistory(join(this.configDir, 'history.json'));
+    this.env = env;
+  }
+
+  /**
+   * Gets the path of the global config file
+   *
+   * @returns Absolute path of config.json
+   */
+  getConfigPath(): string {
+    return this.configPath;
   }
 
   get config(): AppConfig {
@@ -37,52 +153,45 @@ export class ConfigManager {
   }
 
   private loadConfig(): AppConfig {
-    try {
-      if (!existsSync(this.configPath)) {
-        // Config file doesn't exist, return defaults
-        return AppConfigSchema.parse({});
-      }
-
-      const configData = JSON.parse(readFileSync(this.configPath, 'utf-8'));
-      const result = AppConfigSchema.safeParse(configData);
-
-      if (!result.success) {
-        // Try to preserve firstRunCompleted flag even if other config is invalid
-        const preservedConfig = {
-          firstRunCompleted: configData.firstRunCompleted || false,
-        };
-
-        const fallbackResult = AppConfigSchema.safeParse(preservedConfig);
-
-        if (fallbackResult.success) {
-          return fallbackResult.data;
-        }
-
-        return AppConfigSchema.parse({});
-      }
-
-      return result.data;
-    } catch {
-      // Try to recover firstRunCompleted from partial config data
-      if (existsSync(this.configPath)) {
-        try {
-          const partialConfig = JSON.parse(readFileSync(this.configPath, 'utf-8'));
-          if (partialConfig.firstRunCompleted === true) {
-            return AppConfigSchema.parse({ firstRunCompleted: true });
-          }
-        } catch {
-          // Recovery failed, use defaults
-        }
-      }
+    this._loadReport = { fromVersion: CONFIG_VERSION, applied: [], dropped: [] };
+    if (!existsSync(this.configPath)) {
+      // Config file doesn't exist, return defaults
+      return AppConfigSchema.parse({});
+    }
 
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(this.configPath, 'utf-8'));
+    } catch (error) {
+      this._loadReport.dropped.push({
+        path: '(file)',
+        message: `Could not read ${this.configPath}: ${(error as Error).message}`,
+      });
+      return AppConfigSchema.parse({});
+    }
+    if (!isPlainObject(raw)) {
+      this._loadReport.dropped.push({ path: '(file)', message: 'Config must be a JSON object' });
       return AppConfigSchema.parse({});
     }
+
+    // Upgrade older files, then keep every field that still validates
+    const migration = migrateConfig(raw);
+    const recovery = recoverConfig(migration.data);
+    this._loadReport = {
+      fromVersion: migration.fromVersion,
+      applied: migration.applied,
+      dropped: recovery.dropped,
+    };
+    return recovery.config;
   }
 
   /**
    * Saves the configuration to disk
    *
-   * Creates a backup of the existing config before writing the new one.
+   * Creates a backup of the existing config before writing the new one and
+   * records the new config in the change history. Writes hold the config
+   * lock and replace files atomically, so concurrent synpick processes never
+   * leave a half-written file.
    * Sets secure file permissions (0600) on both config and backup files.
    *
    * @param config - Optional config object to save. If not provided, uses the current loaded config
@@ -90,55 +199,163 @@ export class ConfigManager {
    * @throws ConfigSaveError if the save operation fails
    */
   async saveConfig(config?: AppConfig): Promise<boolean> {
-    const configToSave = config || this._config;
+    let configToSave = config || this._config;
     if (!configToSave) {
       throw new ConfigSaveError('No configuration to save');
     }
+    if (this._config && configToSave !== this._config) {
+      configToSave = syncLegacySelections(this._config, configToSave);
+    }
 
     try {
       await this.ensureConfigDir();
+      await withFileLock(this.configPath, () => this.writeConfig(configToSave));
+      return true;
+    } catch (error) {
+      throw new ConfigSaveError(`Failed to save configuration to ${this.configPath}`, error);
+    }
+  }
 
-      // Clean up old backups before creating new one
-      await this.cleanupOldBackups();
-
-      // Create backup of existing config
-      try {
-        if (existsSync(this.configPath)) {
-          const backupPath = `${this.configPath}.backup`;
-          const existingData = await readFile(this.configPath, 'utf-8');
-          await writeFile(backupPath, existingData, 'utf-8');
-        }
-      } catch (backupError) {
-        // Backup failed, but continue with saving
-        console.warn('Failed to create config backup:', backupError);
+  /**
+   * Re-reads the config under the lock, applies a change and saves the result
+   *
+   * Re-reading makes read-modify-write updates from concurrent processes
+   * apply on top of each other instead of overwriting each other.
+   *
+   * @param change - Computes the new config from the current one on disk
+   * @returns Promise resolving to the saved config
+   * @throws ConfigSaveError if the config cannot be written
+   */
+  private async modifyConfig(change: (current: AppConfig) => AppConfig): Promise<AppConfig> {
+    try {
+      await this.ensureConfigDir();
+      return await withFileLock(this.configPath, async () => {
+        this._config = this.loadConfig();
+        const next = syncLegacySelections(this._config, change(this._config));
+        await this.writeConfig(next);
+        return next;
+      });
+    } catch (error) {
+      if (
+        error instanceof ConfigValidationError ||
+        error instanceof ConfigSaveError ||
+        error instanceof ProfileError ||
+        error instanceof AccountError ||
+        error instanceof ModelAliasError
+      ) {
+        throw error;
       }
+      throw new ConfigSaveError(`Failed to save configuration to ${this.configPath}`, error);
+    }
+  }
 
-      // Write new configuration
-      const configJson = JSON.stringify(configToSave, null, 2);
-      await writeFile(this.configPath, configJson, 'utf-8');
+  /**
+   * Writes the config file; the caller must hold the config lock
+   */
+  private async writeConfig(configToSave: AppConfig): Promise<void> {
+    // Clean up old backups before creating new one
+    await this.cleanupOldBackups();
 
-      // Set secure permissions (also apply to backup)
-      try {
-        await chmod(this.configPath, 0o600);
+    // Create backup of existing config
+    let existingData: string | undefined;
+    try {
+      if (existsSync(this.configPath)) {
         const backupPath = `${this.configPath}.backup`;
-        if (existsSync(backupPath)) {
-          await chmod(backupPath, 0o600);
-        }
-      } catch (chmodError) {
-        console.warn('Failed to set secure permissions on config file:', chmodError);
+        existingData = await readFile(this.configPath, 'utf-8');
+        await writeFileAtomic(backupPath, existingData);
       }
+    } catch (backupError) {
+      // Backup failed, but continue with saving
+      console.warn('Failed to create config backup:', backupError);
+    }
 
-      this._config = configToSave;
-      return true;
-    } catch (error) {
-      throw new ConfigSaveError(`Failed to save configuration to ${this.configPath}`, error);
+    // Write new configuration
+    const configJson = JSON.stringify(configToSave, null, 2);
+    await writeFileAtomic(this.configPath, configJson);
+
+    // Set secure permissions (also apply to backup)
+    try {
+      await chmod(this.configPath, 0o600);
+      const backupPath = `${this.configPath}.backup`;
+      if (existsSync(backupPath)) {
+        await chmod(backupPath, 0o600);
+      }
+    } catch (chmodError) {
+      console.warn('Failed to set secure permissions on config file:', chmodError);
     }
+
+    this._config = configToSave;
+    this._loadReport = null; // The file on disk is now current
+    await this.recordRevision(configToSave, existingData);
+  }
+
+  /**
+   * Sets the command recorded in the history for subsequent saves
+   *
+   * @param command - Description of the change, e.g. "synpick tiers"
+   */
+  setChangeCommand(command: string): void {
+    this.changeCommand = command;
+  }
+
+  /**
+   * Lists the recorded config revisions
+   *
+   * @returns Revisions, oldest first; the last one matches the saved config
+   */
+  getHistory(): ConfigRevision[] {
+    return this.history.list();
+  }
+
+  /**
+   * Restores an earlier config revision
+   *
+   * The restored config is migrated and validated like a loaded file, written
+   * atomically and recorded as a new revision, so a rollback can itself be
+   * rolled back.
+   *
+   * @param target - Either the revision id, or how many revisions to step back
+   *                 from the latest one
+   * @returns Promise resolving to the restored revision
+   * @throws ConfigHistoryError if the revision does not exist
+   * @throws ConfigSaveError if the config cannot be written
+   */
+  async rollbackConfig(target: { id?: number; steps?: number }): Promise<ConfigRevision> {
+    const revisions = this.history.list();
+    let revision: ConfigRevision | undefined;
+
+    if (target.id !== undefined) {
+      revision = this.history.get(target.id);
+      if (!revision) {
+        throw new ConfigHistoryError(`Revision ${target.id} is not in the config history`);
+      }
+    } else {
+      const steps = target.steps ?? 1;
+      revision = revisions[revisions.length - 1 - steps];
+      if (steps < 1 || !revision) {
+        throw new ConfigHistoryError(
+          `Cannot step back ${steps} revision(s); the history holds ${revisions.length}`
+        );
+      }
+    }
+
+    const { config } = recoverConfig(migrateConfig(revision.config).data);
+    const command = this.changeCommand;
+    this.changeCommand = `${command} (restored revision ${revision.id})`;
+    this._config = config; // Replace, rather than sync with, the current selections
+    try {
+      await this.saveConfig(config);
+    } finally {
+      this.changeCommand = command;
+    }
+    return revision;
   }
 
   /**
    * Updates configuration with the provided partial updates
    *
-   * Merges the updates with existing config and validates against schema.
+   * Merges the updates with the config on disk (re-read under the config
+   * lock) and validates against schema.
    *
    * @param updates - Partial configuration object with fields to update
    * @returns Promise resolving to true if update succeeded
@@ -147,15 +364,14 @@ export class ConfigManager {
    */
   async updateConfig(updates: Partial<AppConfig>): Promise<boolean> {
     try {
-      const currentData = this.config;
-      const updatedData = { ...currentData, ...updates };
-
-      const result = AppConfigSchema.safeParse(updatedData);
-      if (!result.success) {
-        throw new ConfigValidationError(`Invalid configuration update: ${result.error.message}`);
-      }
-
-      return await this.saveConfig(result.data);
+      await this.modifyConfig(current => {
+        const result = AppConfigSchema.safeParse({ ...current, ...updates });
+        if (!result.success) {
+          throw new ConfigValidationError(`Invalid configuration update: ${result.error.message}`);
+        }
+        return result.data;
+      });
+      return true;
     } catch (error) {
       if (error instanceof ConfigValidationError || error instanceof ConfigSaveError) {
         throw error;
@@ -164,32 +380,258 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * Reports migrations and field recovery performed when the config was loaded
+   *
+   * @returns The load report; migrations are pending until the config is saved
+   */
+  getLoadReport(): ConfigLoadReport {
+    void this.config; // Loading fills in the report
+    return this._loadReport ?? { fromVersion: CONFIG_VERSION, applied: [], dropped: [] };
+  }
+
+  /**
+   * Writes the migrated and recovered config back to disk if loading changed it
+   *
+   * The previous file is kept as a backup.
+   *
+   * @param dryRun - If true, only reports what would change
+   * @returns Promise resolving to the load report, the file content before and
+   *          the config that is (or would be) written
+   * @throws ConfigSaveError if the config cannot be written
+   */
+  async migrate(dryRun = false): Promise<ConfigMigrationPlan> {
+    const report = this.getLoadReport();
+    const plan: ConfigMigrationPlan = {
+      ...report,
+      before: this.readRawConfig(),
+      after: this.config,
+      changed: report.applied.length > 0 || report.dropped.length > 0,
+    };
+    if (plan.changed && !dryRun) {
+      await this.saveConfig(this.config);
+    }
+    return plan;
+  }
+
+  /**
+   * Gets the effective value of a configuration key
+   *
+   * @param path - Dotted key path, e.g. "models.sonnet"
+   * @returns The value (undefined if an optional key is unset)
+   * @throws ConfigValidationError if the key does not exist
+   */
+  getConfigValue(path: string): unknown {
+    this.requireConfigKey(path);
+    let value: unknown = this.getEffectiveConfig();
+    for (const segment of path.split('.')) {
+      value = isPlainObject(value) ? value[segment] : undefined;
+    }
+    return value;
+  }
+
+  /**
+   * Sets a configuration key from its string form
+   *
+   * The value is coerced to the key's type and validated by the schema,
+   * so range errors carry the schema's message.
+   *
+   * @param path - Dotted key path, e.g. "models.sonnet"
+   * @param raw - The value as typed by the user
+   * @returns Promise resolving to the stored value
+   * @throws ConfigValidationError if the key does not exist or the value is invalid
+   * @throws ConfigSaveError if the config cannot be written
+   */
+  async setConfigValue(path: string, raw: string): Promise<unknown> {
+    const key = this.requireConfigKey(path);
+    // Model keys accept aliases but always store the model ID
+    const parsed = parseConfigValue(
+      key,
+      isModelConfigKey(path) ? this.resolveModelAlias(raw) : raw
+    );
+    if (!parsed.success) {
+      throw new ConfigValidationError(`Invalid value for ${path}: ${parsed.error}`);
+    }
+
+    await this.modifyConfig(current => {
+      const result = AppConfigSchema.safeParse(deepMerge(current, nestValue(path, parsed.value)));
+      if (!result.success) {
+        throw new ConfigValidationError(`Invalid configuration update: ${result.error.message}`);
+      }
+      return result.data;
+    });
+    return parsed.value;
+  }
+
+  /**
+   * Restores a configuration key to its default (or removes an optional key)
+   *
+   * @param path - Dotted key path, e.g. "models.sonnet"
+   * @returns Promise resolving to the value after the reset
+   * @throws ConfigValidationError if the key does not exist
+   * @throws ConfigSaveError if the config cannot be written
+   */
+  async unsetConfigValue(path: string): Promise<unknown> {
+    const key = this.requireConfigKey(path);
+    await this.modifyConfig(current => {
+      const data: Record<string, unknown> = structuredClone(current);
+      const segments = path.split('.');
+      const last = segments.pop() as string;
+      let parent: unknown = data;
+      for (const segment of segments) {
+        parent = isPlainObject(parent) ? parent[segment] : undefined;
+      }
+      if (isPlainObject(parent)) {
+        delete parent[last];
+      }
+
+      // Parsing fills the removed key back in with its default
+      return AppConfigSchema.parse(data);
+    });
+    return key.defaultValue;
+  }
+
   /**
    * Checks if an API key is configured
    *
+   * A key command or an encrypted key counts as configured even before it
+   * has been resolved.
+   *
+   * @param profileName - Optional profile to apply instead of the active one
    * @returns true if an API key exists, false otherwise
    */
-  hasApiKey(): boolean {
-    return Boolean(this.config.apiKey);
+  hasApiKey(profileName?: string): boolean {
+    return this.getApiKeySource(profileName) !== 'none';
+  }
+
+  /**
+   * Reports where the API key comes from
+   *
+   * @param profileName - Optional profile to apply instead of the active one
+   * @returns 'plain', 'command', 'encrypted' or 'none'
+   */
+  getApiKeySource(profileName?: string): ApiKeySource {
+    return getApiKeySource(this.getEffectiveConfig(profileName));
   }
 
   /**
    * Gets the configured API key
    *
-   * @returns The API key string
+   * Keys from apiKeyCommand or encryptedApiKey are only available after
+   * resolveApiKey has succeeded.
+   *
+   * @param profileName - Optional profile to apply instead of the active one
+   * @returns The API key string (empty if not available)
+   */
+  getApiKey(profileName?: string): string {
+    const config = this.getEffectiveConfig(profileName);
+    return config.apiKey || this.resolvedApiKeys.get(apiKeyCacheKey(config)) || '';
+  }
+
+  /**
+   * Resolves the API key from whichever source is configured
+   *
+   * apiKeyCommand runs with the commandTimeoutMs limit. encryptedApiKey is
+   * unlocked with SYNPICK_API_KEY_PASSPHRASE, the apiKeyPassphraseFile or,
+   * failing both, the askPassphrase callback. The result is cached for the
+   * lifetime of this manager, separately for each account.
+   *
+   * @param options - Resolution options
+   * @param options.profileName - Optional profile to apply instead of the active one
+   * @param options.askPassphrase - Prompts for the passphrase of an encrypted key
+   * @returns Promise resolving to the API key
+   * @throws ApiKeyError if no key is configured or it cannot be resolved
    */
-  getApiKey(): string {
-    return this.config.apiKey;
+  async resolveApiKey(
+    options: { profileName?: string; askPassphrase?: () => Promise<string | null> } = {}
+  ): Promise<string> {
+    const config = this.getEffectiveConfig(options.profileName);
+    const source = getApiKeySource(config);
+    if (source === 'plain') {
+      return config.apiKey;
+    }
+    if (source === 'none') {
+      throw new ApiKeyError('No API key configured. Run "synpick setup" first.');
+    }
+    const cacheKey = apiKeyCacheKey(config);
+    const cached = this.resolvedApiKeys.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    if (source === 'command') {
+      const key = await runApiKeyCommand(config.apiKeyCommand as string, config.commandTimeoutMs);
+      this.resolvedApiKeys.set(cacheKey, key);
+      return key;
+    }
+
+    const passphrase =
+      this.env[API_KEY_PASSPHRASE_ENV] ||
+      (config.apiKeyPassphraseFile
+        ? await readPassphraseFile(config.apiKeyPassphraseFile)
+        : await options.askPassphrase?.());
+    if (!passphrase) {
+      throw new ApiKeyError(
+        `The API key is encrypted. Set ${API_KEY_PASSPHRASE_ENV} or apiKeyPassphraseFile, or run synpick in a terminal to enter the passphrase.`
+      );
+    }
+    const key = decryptApiKey(config.encryptedApiKey as string, passphrase);
+    this.resolvedApiKeys.set(cacheKey, key);
+    return key;
   }
 
   /**
-   * Sets the API key
+   * Stores the API key in plain text, replacing any key command or encrypted key
    *
    * @param apiKey - The API key to store
    * @returns Promise resolving to true if set succeeded
    */
   async setApiKey(apiKey: string): Promise<boolean> {
-    return this.updateConfig({ apiKey });
+    return this.updateConfig({
+      apiKey,
+      apiKeyCommand: undefined,
+      encryptedApiKey: undefined,
+      apiKeyPassphraseFile: undefined,
+    });
+  }
+
+  /**
+   * Reads the API key from a command at launch instead of storing it
+   *
+   * @param command - Shell command that prints the key, e.g. "pass show synthetic"
+   * @returns Promise resolving to true if set succeeded
+   */
+  async setApiKeyCommand(command: string): Promise<boolean> {
+    return this.updateConfig({
+      apiKey: '',
+      apiKeyCommand: command,
+      encryptedApiKey: undefined,
+      apiKeyPassphraseFile: undefined,
+    });
+  }
+
+  /**
+   * Stores the API key encrypted with AES-256-GCM
+   *
+   * @param apiKey - The API key to encrypt
+   * @param passphrase - The passphrase to encrypt it with
+   * @param passphraseFile - Optional file holding the passphrase, read at launch
+   * @returns Promise resolving to true if set succeeded
+   */
+  async setEncryptedApiKey(
+    apiKey: string,
+    passphrase: string,
+    passphraseFile?: string
+  ): Promise<boolean> {
+    const settings = {
+      apiKey: '',
+      apiKeyCommand: undefined,
+      encryptedApiKey: encryptApiKey(apiKey, passphrase),
+      apiKeyPassphraseFile: passphraseFile,
+    };
+    const saved = await this.updateConfig(settings);
+    this.resolvedApiKeys.set(apiKeyCacheKey(settings), apiKey);
+    return saved;
   }
 
   /**
@@ -211,6 +653,80 @@ export class ConfigManager {
     return this.updateConfig({ selectedModel: model });
   }
 
+  /**
+   * Gets the recently launched models
+   *
+   * @returns Model IDs, most recent first
+   */
+  getRecentModels(): string[] {
+    return this.config.recentModels;
+  }
+
+  /**
+   * Records launched models as the most recently used ones
+   *
+   * Earlier entries for the same models are moved to the front; the list keeps
+   * at most MAX_RECENT_MODELS entries.
+   *
+   * @param modelIds - The launched model IDs, most important first
+   * @returns Promise resolving to true if the list was saved
+   * @throws ConfigSaveError if saving fails
+   */
+  async addRecentModels(modelIds: string[]): Promise<boolean> {
+    const launched = [...new Set(modelIds.filter(Boolean))];
+    await this.modifyConfig(current => ({
+      ...current,
+      recentModels: [
+        ...launched,
+        ...current.recentModels.filter(id => !launched.includes(id)),
+      ].slice(0, ConfigManager.MAX_RECENT_MODELS),
+    }));
+    return true;
+  }
+
+  /**
+   * Gets the pinned models
+   *
+   * @returns Model IDs in the order they were pinned
+   */
+  getFavoriteModels(): string[] {
+    return this.config.favoriteModels;
+  }
+
+  /**
+   * Pins a model, so the selectors list it first
+   *
+   * @param modelId - The model ID
+   * @returns Promise resolving to false if the model was already pinned
+   * @throws ConfigSaveError if saving fails
+   */
+  async addFavoriteModel(modelId: string): Promise<boolean> {
+    let added = false;
+    await this.modifyConfig(current => {
+      added = !current.favoriteModels.includes(modelId);
+      return added ? { ...current, favoriteModels: [...current.favoriteModels, modelId] } : current;
+    });
+    return added;
+  }
+
+  /**
+   * Unpins a model
+   *
+   * @param modelId - The model ID
+   * @returns Promise resolving to false if the model was not pinned
+   * @throws ConfigSaveError if saving fails
+   */
+  async removeFavoriteModel(modelId: string): Promise<boolean> {
+    let removed = false;
+    await this.modifyConfig(current => {
+      removed = current.favoriteModels.includes(modelId);
+      return removed
+        ? { ...current, favoriteModels: current.favoriteModels.filter(id => id !== modelId) }
+        : current;
+    });
+    return removed;
+  }
+
   /**
    * Gets the cache duration in hours
    *
@@ -260,7 +776,7 @@ export class ConfigManager {
    * @returns true if first run (setup not completed), false otherwise
    */
   isFirstRun(): boolean {
-    return !this.config.firstRunCompleted;
+    return !this.getLayeredConfig().firstRunCompleted;
   }
 
   /**
@@ -334,6 +850,709 @@ export class ConfigManager {
     return this.updateConfig({ selectedThinkingModel: model, firstRunCompleted: true });
   }
 
+  /**
+   * Replaces a model everywhere it is configured
+   *
+   * Covers the selected models, the tier models, the tier and thinking models
+   * of a profile, and aliases: an alias pointing at the model is repointed, so
+   * settings made through it follow along.
+   *
+   * @param modelId - The model to replace
+   * @param replacement - The model ID to use instead
+   * @param profileName - A profile to update as well
+   * @returns Promise resolving to the changed key paths, e.g. ["models.sonnet"]
+   * @throws ConfigSaveError if saving fails
+   */
+  async replaceModel(
+    modelId: string,
+    replacement: string,
+    profileName?: string
+  ): Promise<string[]> {
+    const changed: string[] = [];
+    const swap = <T extends object>(values: T, prefix: string): T => {
+      const result = { ...values } as Record<string, unknown>;
+      for (const [key, value] of Object.entries(values)) {
+        if (value === modelId) {
+          result[key] = replacement;
+          changed.push(`${prefix}${key}`);
+        }
+      }
+      return result as T;
+    };
+
+    await this.modifyConfig(current => {
+      changed.length = 0;
+      const { selectedModel, selectedThinkingModel } = current;
+      const next: AppConfig = {
+        ...current,
+        ...swap({ selectedModel, selectedThinkingModel }, ''),
+        models: swap(current.models, 'models.'),
+        modelAliases: swap(current.modelAliases, 'modelAliases.'),
+      };
+
+      const profile = profileName ? current.profiles[profileName] : undefined;
+      if (profileName && profile) {
+        const prefix = `profiles.${profileName}.`;
+        next.profiles = {
+          ...current.profiles,
+          [profileName]: {
+            ...profile,
+            ...swap({ thinkingModel: profile.thinkingModel }, prefix),
+            models: swap(profile.models, `${prefix}models.`),
+          },
+        };
+      }
+      return next;
+    });
+    return changed;
+  }
+
+  /**
+   * Lists the names of all configured profiles, including project-defined ones
+   *
+   * @returns Profile names in alphabetical order
+   */
+  listProfiles(): string[] {
+    return Object.keys(this.getLayeredConfig().profiles).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Gets a profile by name
+   *
+   * @param name - The profile name
+   * @returns The profile, or null if it does not exist
+   */
+  getProfile(name: string): Profile | null {
+    return this.getLayeredConfig().profiles[name] ?? null;
+  }
+
+  /**
+   * Checks whether a profile exists only in the project overlay
+   *
+   * Such profiles can be used but not changed by synpick, which only writes
+   * the global config.
+   *
+   * @param name - The profile name
+   * @returns true if the overlay defines the profile and the global config does not
+   */
+  isProjectOnlyProfile(name: string): boolean {
+    return !!this.getLayeredConfig().profiles[name] && !this.config.profiles[name];
+  }
+
+  /**
+   * Gets the name of the profile used when none is requested explicitly
+   *
+   * @returns The active profile name, or undefined if none is active
+   */
+  getActiveProfileName(): string | undefined {
+    return this.getLayeredConfig().activeProfile || undefined;
+  }
+
+  /**
+   * Creates a new profile
+   *
+   * @param name - The profile name
+   * @param profile - Initial profile settings
+   * @returns Promise resolving to true if the profile was created
+   * @throws ProfileError if the name is invalid or already taken
+   */
+  async createProfile(name: string, profile: Partial<Profile> = {}): Promise<boolean> {
+    if (!isValidProfileName(name)) {
+      throw new ProfileError(
+        `Invalid profile name "${name}". Use letters, digits, ".", "-" or "_".`
+      );
+    }
+    const result = ProfileSchema.safeParse(profile);
+    if (!result.success) {
+      throw new ConfigValidationError(`Invalid profile settings: ${result.error.message}`);
+    }
+
+    await this.modifyConfig(current => {
+      if (current.profiles[name]) {
+        throw new ProfileError(`Profile "${name}" already exists`);
+      }
+      return { ...current, profiles: { ...current.profiles, [name]: result.data } };
+    });
+    return true;
+  }
+
+  /**
+   * Updates settings of an existing profile
+   *
+   * @param name - The profile name
+   * @param updates - Profile fields to change
+   * @returns Promise resolving to true if the profile was updated
+   * @throws ProfileError if the profile does not exist
+   */
+  async updateProfile(name: string, updates: Partial<Profile>): Promise<boolean> {
+    await this.modifyConfig(current => {
+      const existing = this.requireProfile(name, current);
+      const result = ProfileSchema.safeParse({ ...existing, ...updates });
+      if (!result.success) {
+        throw new ConfigValidationError(`Invalid profile settings: ${result.error.message}`);
+      }
+      return { ...current, profiles: { ...current.profiles, [name]: result.data } };
+    });
+    return true;
+  }
+
+  /**
+   * Deletes a profile, deactivating it first if it is the active one
+   *
+   * @param name - The profile name
+   * @returns Promise resolving to true if the profile was deleted
+   * @throws ProfileError if the profile does not exist
+   */
+  async deleteProfile(name: string): Promise<boolean> {
+    await this.modifyConfig(current => {
+      this.requireProfile(name, current);
+
+      const profiles = { ...current.profiles };
+      delete profiles[name];
+      return {
+        ...current,
+        profiles,
+        activeProfile: current.activeProfile === name ? undefined : current.activeProfile,
+      };
+    });
+    return true;
+  }
+
+  /**
+   * Copies a profile under a new name
+   *
+   * @param source - The profile to copy
+   * @param target - The name of the new profile
+   * @returns Promise resolving to true if the copy was created
+   * @throws ProfileError if the source is missing or the target is invalid or taken
+   */
+  async copyProfile(source: string, target: string): Promise<boolean> {
+    const profile = this.requireProfile(source);
+    return this.createProfile(target, structuredClone(profile));
+  }
+
+  /**
+   * Sets the profile used when none is requested explicitly
+   *
+   * @param name - The profile name, or undefined to use the base configuration
+   * @returns Promise resolving to true if the active profile was changed
+   * @throws ProfileError if the profile does not exist
+   */
+  async setActiveProfile(name: string | undefined): Promise<boolean> {
+    if (name) {
+      this.requireProfile(name);
+    }
+    return this.updateConfig({ activeProfile: name });
+  }
+
+  /**
+   * Lists the names of all configured accounts
+   *
+   * @returns Sorted account names
+   */
+  listAccounts(): string[] {
+    return Object.keys(this.getLayeredConfig().accounts).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Gets an account by name
+   *
+   * @param name - The account name
+   * @returns The account, or null if it does not exist
+   */
+  getAccount(name: string): Account | null {
+    return this.getLayeredConfig().accounts[name] ?? null;
+  }
+
+  /**
+   * Gets the name of the default account
+   *
+   * @returns The account used when no project, profile or flag selects one
+   */
+  getDefaultAccountName(): string | undefined {
+    return this.config.account || undefined;
+  }
+
+  /**
+   * Gets the account whose credentials are in effect
+   *
+   * @param profileName - Optional profile to apply instead of the active one
+   * @returns The selected account name (which may not exist), or undefined
+   *          when the base credentials are used
+   */
+  getSelectedAccountName(profileName?: string): string | undefined {
+    return this.getEffectiveConfig(profileName).account || undefined;
+  }
+
+  /**
+   * Uses an account for this session only (the --account flag)
+   *
+   * @param name - The account name, or undefined to clear the override
+   * @throws AccountError if the account does not exist
+   */
+  useAccount(name: string | undefined): void {
+    if (name) {
+      this.requireAccount(name);
+    }
+    this.accountOverride = name;
+  }
+
+  /**
+   * Adds an account
+   *
+   * @param name - The account name
+   * @param account - The account's credentials and endpoints
+   * @returns Promise resolving to true if the account was added
+   * @throws AccountError if the name is invalid or already taken
+   */
+  async addAccount(name: string, account: Account): Promise<boolean> {
+    if (!isValidProfileName(name)) {
+      throw new AccountError(
+        `Invalid account name "${name}". Use letters, digits, ".", "-" or "_".`
+      );
+    }
+    const result = AccountSchema.safeParse(account);
+    if (!result.success) {
+      throw new ConfigValidationError(`Invalid account settings: ${result.error.message}`);
+    }
+
+    await this.modifyConfig(current => {
+      if (current.accounts[name]) {
+        throw new AccountError(`Account "${name}" already exists`);
+      }
+      return { ...current, accounts: { ...current.accounts, [name]: result.data } };
+    });
+    return true;
+  }
+
+  /**
+   * Removes an account, clearing it as the default if needed
+   *
+   * @param name - The account name
+   * @returns Promise resolving to true if the account was removed
+   * @throws AccountError if the account does not exist
+   */
+  async removeAccount(name: string): Promise<boolean> {
+    await this.modifyConfig(current => {
+      if (!current.accounts[name]) {
+        throw new AccountError(`Account "${name}" does not exist`);
+      }
+      const accounts = { ...current.accounts };
+      delete accounts[name];
+      return {
+        ...current,
+        accounts,
+        account: current.account === name ? undefined : current.account,
+      };
+    });
+    return true;
+  }
+
+  /**
+   * Sets the account used when no project, profile or flag selects one
+   *
+   * @param name - The account name, or undefined to use the base credentials
+   * @returns Promise resolving to true if the default was changed
+   * @throws AccountError if the account does not exist
+   */
+  async setDefaultAccount(name: string | undefined): Promise<boolean> {
+    await this.modifyConfig(current => {
+      if (name && !current.accounts[name]) {
+        throw new AccountError(`Account "${name}" does not exist`);
+      }
+      return { ...current, account: name };
+    });
+    return true;
+  }
+
+  /**
+   * Gets the model alias table
+   *
+   * @returns Alias names mapped to model IDs, including aliases from a project config
+   */
+  getModelAliases(): Record<string, string> {
+    return this.getLayeredConfig().modelAliases;
+  }
+
+  /**
+   * Resolves a model alias to the model ID it stands for
+   *
+   * @param value - An alias or a model ID
+   * @returns The aliased model ID, or the value itself if it is not an alias
+   */
+  resolveModelAlias(value: string): string {
+    return resolveModelAlias(this.getModelAliases(), value);
+  }
+
+  /**
+   * Adds a model alias
+   *
+   * @param name - The alias, e.g. "fast"
+   * @param modelId - The model ID, or another alias to copy
+   * @param overwrite - If true, replaces an existing alias of the same name
+   * @returns Promise resolving to the model ID the alias points at
+   * @throws ModelAliasError if the name is invalid or already taken
+   */
+  async addModelAlias(name: string, modelId: string, overwrite = false): Promise<string> {
+    if (!isValidProfileName(name)) {
+      throw new ModelAliasError(
+        `Invalid alias "${name}". Use letters, digits, ".", "-" or "_" (no ":" or "/", which model IDs use).`
+      );
+    }
+    const target = this.resolveModelAlias(modelId.trim());
+    if (!target) {
+      throw new ModelAliasError(`Alias "${name}" needs a model ID`);
+    }
+
+    await this.modifyConfig(current => {
+      if (current.modelAliases[name] && !overwrite) {
+        throw new ModelAliasError(
+          `Alias "${name}" already points at ${current.modelAliases[name]}; use --force to replace it`
+        );
+      }
+      return { ...current, modelAliases: { ...current.modelAliases, [name]: target } };
+    });
+    return target;
+  }
+
+  /**
+   * Removes a model alias
+   *
+   * Settings that were made through the alias keep the model ID it stood for.
+   *
+   * @param name - The alias
+   * @returns Promise resolving to true if the alias was removed
+   * @throws ModelAliasError if the alias does not exist
+   */
+  async removeModelAlias(name: string): Promise<boolean> {
+    await this.modifyConfig(current => {
+      if (!Object.hasOwn(current.modelAliases, name)) {
+        throw new ModelAliasError(`Alias "${name}" does not exist`);
+      }
+      const modelAliases = { ...current.modelAliases };
+      delete modelAliases[name];
+      return { ...current, modelAliases };
+    });
+    return true;
+  }
+
+  private requireAccount(name: string): Account {
+    const account = this.getAccount(name);
+    if (!account) {
+      throw new AccountError(`Account "${name}" does not exist`);
+    }
+    return account;
+  }
+
+  /**
+   * Gets the configuration used at launch
+   *
+   * Layers the project overlay (if any) and SYNPICK_* environment variables
+   * over the global configuration, then applies the requested or active profile
+   * and the selected account. The stored configuration is not modified. An
+   * active profile or selected account that no longer exists is ignored.
+   *
+   * @param profileName - Optional profile to apply instead of the active one
+   * @returns The effective configuration
+   * @throws ProfileError if the requested profile does not exist
+   */
+  getEffectiveConfig(profileName?: string): AppConfig {
+    const layered = this.getLayeredConfig();
+    const profiled = this.getProfiledConfig(layered, profileName);
+
+    // A missing account is reported at launch rather than failing every read
+    const accountName = this.accountOverride || profiled.account;
+    const account = accountName ? layered.accounts[accountName] : undefined;
+    return account && accountName ? applyAccount(profiled, accountName, account) : profiled;
+  }
+
+  private getProfiledConfig(layered: AppConfig, profileName?: string): AppConfig {
+    if (profileName) {
+      return applyProfile(layered, this.requireProfile(profileName, layered));
+    }
+    const active = layered.activeProfile ? layered.profiles[layered.activeProfile] : undefined;
+    return active ? applyProfile(layered, active) : layered;
+  }
+
+  /**
+   * Reports where each effective configuration value came from
+   *
+   * @param profileName - Optional profile to apply instead of the active one
+   * @returns Map of dotted config keys to their source
+   * @throws ProfileError if the requested profile does not exist
+   */
+  getConfigSources(profileName?: string): Record<string, ConfigValueSource> {
+    const layeredConfig = this.getLayeredConfig();
+    const layered = flattenConfig(layeredConfig);
+    const profiled = flattenConfig(this.getProfiledConfig(layeredConfig, profileName));
+    const effective = flattenConfig(this.getEffectiveConfig(profileName));
+    // The config file stores every field, so values equal to the default count as defaults
+    const defaults = flattenConfig(AppConfigSchema.parse({}));
+    const globalKeys = new Set(
+      Object.entries(flattenConfig(this.readRawConfig()))
+        .filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(defaults[key]))
+        .map(([key]) => key)
+    );
+    const project = this.getProjectConfig();
+    const projectKeys = new Set(
+      project && !project.error ? Object.keys(flattenConfig(project.data)) : []
+    );
+    // JSON-valued variables (e.g. SYNPICK_PROFILES) cover every key beneath them
+    const envPaths = Object.keys(this.getEnvOverrides().variables);
+    const fromEnv = (key: string): boolean =>
+      envPaths.some(path => key === path || key.startsWith(`${path}.`));
+
+    const sources: Record<string, ConfigValueSource> = {};
+    for (const [key, value] of Object.entries(effective)) {
+      if (JSON.stringify(value) !== JSON.stringify(profiled[key])) {
+        sources[key] = 'account';
+      } else if (JSON.stringify(value) !== JSON.stringify(layered[key])) {
+        sources[key] = 'profile';
+      } else if (fromEnv(key)) {
+        sources[key] = 'env';
+      } else if (projectKeys.has(key)) {
+        sources[key] = 'project';
+      } else if (globalKeys.has(key)) {
+        sources[key] = 'global';
+      } else {
+        sources[key] = 'default';
+      }
+    }
+    return sources;
+  }
+
+  /**
+   * Gets the path of the project overlay in use
+   *
+   * @returns The overlay path, or null if no overlay was found
+   */
+  getProjectConfigPath(): string | null {
+    return this.getProjectConfig()?.path ?? null;
+  }
+
+  /**
+   * Gets the reason the project overlay was ignored, if it was
+   *
+   * @returns The validation or parse error, or null if the overlay is valid or absent
+   */
+  getProjectConfigError(): string | null {
+    return this.getProjectConfig()?.error ?? null;
+  }
+
+  /**
+   * Creates a project overlay file seeded with the current tier models
+   *
+   * @param dir - Directory to create the overlay in (default: the project directory)
+   * @param overwrite - If true, replaces an existing overlay
+   * @returns Promise resolving to the path of the created file
+   * @throws ConfigSaveError if the file exists or cannot be written
+   */
+  async initProjectConfig(dir?: string, overwrite = false): Promise<string> {
+    const filePath = join(resolve(dir || this.projectDir), PROJECT_CONFIG_FILENAME);
+    if (existsSync(filePath) && !overwrite) {
+      throw new ConfigSaveError(`Project config already exists: ${filePath}`);
+    }
+
+    const overlay = { models: { ...this.config.models } };
+    try {
+      await writeFile(filePath, JSON.stringify(overlay, null, 2) + '\n', 'utf-8');
+    } catch (error) {
+      throw new ConfigSaveError(`Failed to write project config: ${filePath}`, error);
+    }
+
+    // The user wrote this file, so it starts out trusted
+    await this.trustStore.trust(filePath, JSON.stringify(overlay, null, 2) + '\n');
+    this._projectConfig = undefined;
+    return filePath;
+  }
+
+  /**
+   * Gets the store of trusted project files
+   *
+   * @returns The trust store kept alongside the global config
+   */
+  getTrustStore(): TrustStore {
+    return this.trustStore;
+  }
+
+  /**
+   * Gets the trust status of the project overlay in use
+   *
+   * @returns The trust status, or null if no readable overlay was found
+   */
+  getProjectTrustStatus(): TrustStatus | null {
+    return this.getProjectConfig()?.trust ?? null;
+  }
+
+  /**
+   * Lists the endpoint and credential settings withheld from an untrusted overlay
+   *
+   * @returns Dotted keys that were ignored (empty if the overlay is trusted or absent)
+   */
+  getUntrustedProjectKeys(): string[] {
+    return this.getProjectConfig()?.untrustedKeys ?? [];
+  }
+
+  /**
+   * Trusts the project overlay in use with its current content
+   *
+   * @returns Promise resolving to the path of the trusted overlay
+   * @throws ConfigSaveError if there is no readable overlay or the trust store cannot be written
+   */
+  async trustProjectConfig(): Promise<string> {
+    const project = this.getProjectConfig();
+    if (!project || project.content === undefined) {
+      throw new ConfigSaveError('No readable project config to trust');
+    }
+
+    await this.trustStore.trust(project.path, project.content);
+    this._projectConfig = undefined;
+    return project.path;
+  }
+
+  /**
+   * Gets the config values set through SYNPICK_* environment variables
+   *
+   * @returns The overrides, the variable behind each key and any validation errors
+   */
+  getEnvOverrides(): EnvOverrides {
+    if (this._envOverrides === null) {
+      this._envOverrides = readEnvOverrides(this.env);
+    }
+    return this._envOverrides;
+  }
+
+  private getLayeredConfig(): AppConfig {
+    const project = this.getProjectConfig();
+    const env = this.getEnvOverrides();
+    let layered: AppConfig = this.config;
+    if (project && !project.error) {
+      layered = deepMerge(layered, project.data);
+    }
+    if (Object.keys(env.data).length > 0) {
+      layered = deepMerge(layered, env.data);
+    }
+    if (layered === this.config) {
+      return this.config;
+    }
+
+    const result = AppConfigSchema.safeParse(layered);
+    return result.success ? result.data : this.config;
+  }
+
+  private getProjectConfig(): ProjectConfig | null {
+    if (this._projectConfig !== undefined) {
+      return this._projectConfig;
+    }
+
+    const path = findProjectConfigFile(this.projectDir);
+    if (!path) {
+      this._projectConfig = null;
+      return null;
+    }
+
+    try {
+      const content = readFileSync(path, 'utf-8');
+      const raw: unknown = JSON.parse(content);
+      if (!isPlainObject(raw)) {
+        this._projectConfig = {
+          path,
+          data: {},
+          untrustedKeys: [],
+          error: 'Project config must be a JSON object',
+        };
+        return this._projectConfig;
+      }
+
+      // Endpoints and credentials from an untrusted overlay are never applied
+      const trust = this.trustStore.getStatus(path, content);
+      const untrustedKeys = trust === 'trusted' ? [] : findSensitiveKeys(raw);
+      const data = untrustedKeys.length > 0 ? stripSensitiveKeys(raw) : raw;
+
+      const result = AppConfigSchema.safeParse(deepMerge(this.config, data));
+      this._projectConfig = result.success
+        ? { path, data, content, trust, untrustedKeys }
+        : {
+            path,
+            data,
+            content,
+            trust,
+            untrustedKeys,
+            error: result.error.issues
+              .map(issue => `${issue.path.map(String).join('.')}: ${issue.message}`)
+              .join('; '),
+          };
+    } catch (error) {
+      this._projectConfig = {
+        path,
+        data: {},
+        untrustedKeys: [],
+        error: `Failed to read project config: ${(error as Error).message}`,
+      };
+    }
+    return this._projectConfig;
+  }
+
+  private requireConfigKey(path: string): ConfigKey {
+    const key = findConfigKey(path);
+    if (!key) {
+      throw new ConfigValidationError(`Unknown configuration key: ${path}`);
+    }
+    return key;
+  }
+
+  private readRawConfig(): Record<string, unknown> {
+    try {
+      const data: unknown = JSON.parse(readFileSync(this.configPath, 'utf-8'));
+      return isPlainObject(data) ? data : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private requireProfile(name: string, config: AppConfig = this.getLayeredConfig()): Profile {
+    const profile = config.profiles[name];
+    if (!profile) {
+      throw new ProfileError(`Profile "${name}" does not exist`);
+    }
+    return profile;
+  }
+
+  /**
+   * Records a saved config in the history
+   *
+   * The first time, the file that was replaced is recorded too so the change
+   * can be undone. Saves that only touch bookkeeping keys are skipped. History
+   * failures never fail the save itself.
+   */
+  private async recordRevision(config: AppConfig, previousContent?: string): Promise<void> {
+    try {
+      const latest = this.history.list().pop();
+      if (
+        latest &&
+        diffConfigs(latest.config, config).every(change =>
+          UNTRACKED_CONFIG_KEYS.includes(change.key.split('.')[0]!)
+        )
+      ) {
+        return;
+      }
+      if (!latest && previousContent) {
+        let previous: unknown;
+        try {
+          previous = JSON.parse(previousContent);
+        } catch {
+          // A corrupt file is not worth restoring
+        }
+        if (isPlainObject(previous)) {
+          await this.history.record(previous, '(before history)');
+        }
+      }
+      await this.history.record(config, this.changeCommand);
+    } catch (historyError) {
+      console.warn('Failed to record config history:', historyError);
+    }
+  }
+
   /**
    * Clean up old backup files, keeping only the most recent backup
    *
@@ -371,3 +1590,9 @@ export class ConfigManager {
     }
   }
 }
+
+function apiKeyCacheKey(settings: ApiKeySettings): string {
+  return settings.apiKeyCommand
+    ? `command:${settings.apiKeyCommand}`
+    : `encrypted:${settings.encryptedApiKey ?? ''}`;
+}
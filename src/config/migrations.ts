@@ -0,0 +1,198 @@
+import { AppConfig, AppConfigSchema } from './types';
+import { isPlainObject } from './project';
+
+/**
+ * One step in the config upgrade pipeline
+ */
+export interface ConfigMigration {
+  /** Config version this migration produces */
+  version: number;
+  description: string;
+  /** Transforms raw config data of the previous version; must not mutate its input */
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Result of running the migration pipeline over raw config data
+ */
+export interface MigrationResult {
+  data: Record<string, unknown>;
+  fromVersion: number;
+  toVersion: number;
+  applied: ConfigMigration[];
+}
+
+/**
+ * A config field that failed validation and was dropped
+ */
+export interface DroppedField {
+  /** Dotted path of the dropped value */
+  path: string;
+  message: string;
+}
+
+/**
+ * Result of validating config data field by field
+ */
+export interface RecoveryResult {
+  config: AppConfig;
+  dropped: DroppedField[];
+}
+
+/**
+ * Ordered list of migrations; each one upgrades the config by one version
+ */
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 1,
+    description:
+      'Move legacy selectedModel/selectedThinkingModel into the default and thinking tiers',
+    migrate: data => {
+      const models = isPlainObject(data.models) ? { ...data.models } : {};
+      if (typeof data.selectedModel === 'string' && data.selectedModel && !models.default) {
+        models.default = data.selectedModel;
+      }
+      if (
+        typeof data.selectedThinkingModel === 'string' &&
+        data.selectedThinkingModel &&
+        !models.thinking
+      ) {
+        models.thinking = data.selectedThinkingModel;
+      }
+      return Object.keys(models).length > 0 ? { ...data, models } : data;
+    },
+  },
+];
+
+/**
+ * Keeps the legacy selection fields and the tiers they were moved into in step
+ *
+ * Older code paths still write selectedModel/selectedThinkingModel, while
+ * launches read the default and thinking tiers, so a change to either side is
+ * mirrored to the other.
+ *
+ * @param previous - The config before the change
+ * @param next - The config about to be saved
+ * @returns The config with both sides consistent
+ */
+export function syncLegacySelections(previous: AppConfig, next: AppConfig): AppConfig {
+  if (!previous.models || !next.models) {
+    return next; // Partial config objects carry nothing to sync
+  }
+
+  const models = { ...next.models };
+  let { selectedModel, selectedThinkingModel } = next;
+
+  if (selectedModel !== previous.selectedModel && models.default === previous.models.default) {
+    models.default = selectedModel;
+  } else if (models.default && models.default !== previous.models.default) {
+    selectedModel = models.default;
+  }
+
+  if (
+    selectedThinkingModel !== previous.selectedThinkingModel &&
+    models.thinking === previous.models.thinking
+  ) {
+    models.thinking = selectedThinkingModel;
+  } else if (models.thinking && models.thinking !== previous.models.thinking) {
+    selectedThinkingModel = models.thinking;
+  }
+
+  return { ...next, models, selectedModel, selectedThinkingModel };
+}
+
+/**
+ * Reads the version of raw config data
+ *
+ * @param data - Raw config data
+ * @returns The stored configVersion, or 0 for files written before versioning
+ */
+export function getConfigVersion(data: Record<string, unknown>): number {
+  return typeof data.configVersion === 'number' && Number.isInteger(data.configVersion)
+    ? data.configVersion
+    : 0;
+}
+
+/**
+ * Upgrades raw config data to the current version
+ *
+ * Data from a newer synpick (a higher version than this build knows) is
+ * returned unchanged.
+ *
+ * @param data - Raw config data
+ * @param migrations - Migration pipeline (default: CONFIG_MIGRATIONS)
+ * @returns The upgraded data and the migrations that were applied
+ */
+export function migrateConfig(
+  data: Record<string, unknown>,
+  migrations: ConfigMigration[] = CONFIG_MIGRATIONS
+): MigrationResult {
+  const fromVersion = getConfigVersion(data);
+  const applied: ConfigMigration[] = [];
+  let current = data;
+
+  for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (migration.version <= fromVersion) {
+      continue;
+    }
+    current = { ...migration.migrate(current), configVersion: migration.version };
+    applied.push(migration);
+  }
+
+  return {
+    data: current,
+    fromVersion,
+    toVersion: Math.max(fromVersion, getConfigVersion(current)),
+    applied,
+  };
+}
+
+/**
+ * Validates config data, dropping only the fields that are invalid
+ *
+ * Each invalid value is removed and replaced by its default, so one bad
+ * field no longer discards the rest of the configuration.
+ *
+ * @param data - Raw (migrated) config data
+ * @returns The valid configuration and the fields that were dropped
+ */
+export function recoverConfig(data: Record<string, unknown>): RecoveryResult {
+  const working: Record<string, unknown> = structuredClone(data);
+  const dropped: DroppedField[] = [];
+
+  // Every pass removes at least one value, so this terminates
+  for (;;) {
+    const result = AppConfigSchema.safeParse(working);
+    if (result.success) {
+      return { config: result.data, dropped };
+    }
+
+    let removed = false;
+    for (const issue of result.error.issues) {
+      const path = issue.path.map(String);
+      if (path.length > 0 && removeAt(working, path)) {
+        dropped.push({ path: path.join('.'), message: issue.message });
+        removed = true;
+      }
+    }
+    if (!removed) {
+      return {
+        config: AppConfigSchema.parse({}),
+        dropped: [...dropped, { path: '(root)', message: result.error.message }],
+      };
+    }
+  }
+}
+
+function removeAt(data: Record<string, unknown>, path: string[]): boolean {
+  let parent: unknown = data;
+  for (const segment of path.slice(0, -1)) {
+    parent = isPlainObject(parent) ? parent[segment] : undefined;
+  }
+  const last = path[path.length - 1] as string;
+  if (isPlainObject(parent) && last in parent) {
+    delete parent[last];
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,72 @@
+import { AppConfig, Profile, ProfileSchema, TierModels } from './types';
+
+/**
+ * Allowed profile names: letters, digits, dots, dashes and underscores,
+ * starting with a letter or digit
+ */
+export const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Checks whether a string can be used as a profile name
+ *
+ * @param name - The candidate profile name
+ * @returns true if the name is valid
+ */
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME_PATTERN.test(name);
+}
+
+/**
+ * Overlays a profile on top of a configuration
+ *
+ * Each tier falls back to the base configuration when the profile leaves it
+ * empty, so a profile only needs to list what it changes.
+ *
+ * @param config - The base configuration
+ * @param profile - The profile to apply
+ * @returns A new configuration object with the profile applied
+ */
+export function applyProfile(config: AppConfig, profile: Profile): AppConfig {
+  const models = { ...config.models };
+  for (const tier of Object.keys(models) as Array<keyof TierModels>) {
+    if (profile.models[tier]) {
+      models[tier] = profile.models[tier];
+    }
+  }
+
+  return {
+    ...config,
+    models,
+    selectedModel: profile.models.default || config.selectedModel,
+    selectedThinkingModel:
+      profile.thinkingModel || profile.models.thinking || config.selectedThinkingModel,
+    systemPrompt: profile.systemPrompt ?? config.systemPrompt,
+    maxTokenSize: profile.maxTokenSize ?? config.maxTokenSize,
+    apiKey: profile.apiKey || config.apiKey,
+    baseUrl: profile.baseUrl || config.baseUrl,
+    anthropicBaseUrl: profile.anthropicBaseUrl || config.anthropicBaseUrl,
+    modelsApiUrl: profile.modelsApiUrl || config.modelsApiUrl,
+    account: profile.account || config.account,
+  };
+}
+
+/**
+ * Captures the launch settings of a configuration as a profile
+ *
+ * Credentials and endpoints are not copied; profiles created this way
+ * keep using the base configuration's account.
+ *
+ * @param config - The configuration to snapshot
+ * @returns A profile holding the current tiers, thinking model, prompt and token size
+ */
+export function profileFromConfig(config: AppConfig): Profile {
+  return ProfileSchema.parse({
+    models: {
+      ...config.models,
+      default: config.models.default || config.selectedModel,
+    },
+    thinkingModel: config.selectedThinkingModel || undefined,
+    systemPrompt: config.systemPrompt,
+    maxTokenSize: config.maxTokenSize,
+  });
+}
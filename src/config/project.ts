@@ -0,0 +1,95 @@
+import { existsSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+
+/**
+ * File name of the project-local configuration overlay
+ */
+export const PROJECT_CONFIG_FILENAME = '.synpick.json';
+
+/**
+ * Where an effective configuration value came from
+ */
+export type ConfigValueSource = 'default' | 'global' | 'project' | 'env' | 'profile' | 'account';
+
+/**
+ * Finds the nearest project overlay by walking up from a directory
+ *
+ * @param startDir - Directory to start searching from
+ * @returns Absolute path of the overlay file, or null if none is found
+ */
+export function findProjectConfigFile(startDir: string): string | null {
+  let currentDir = resolve(startDir);
+
+  for (;;) {
+    const candidate = join(currentDir, PROJECT_CONFIG_FILENAME);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+
+    const parent = dirname(currentDir);
+    if (parent === currentDir) {
+      return null; // Reached filesystem root
+    }
+    currentDir = parent;
+  }
+}
+
+/**
+ * Checks whether a value is a plain object (not an array or null)
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Recursively merges an overlay into a base object
+ *
+ * Nested objects are merged key by key; arrays and primitives from the
+ * overlay replace the base value.
+ *
+ * @param base - The base object
+ * @param overlay - The object whose values take precedence
+ * @returns A new merged object
+ */
+export function deepMerge<T extends Record<string, unknown>>(
+  base: T,
+  overlay: Record<string, unknown>
+): T {
+  const result: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(overlay)) {
+    const existing = result[key];
+    if (isPlainObject(existing) && isPlainObject(value)) {
+      result[key] = deepMerge(existing, value);
+    } else if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+
+  return result as T;
+}
+
+/**
+ * Flattens nested objects into dotted key paths
+ *
+ * @param value - The object to flatten
+ * @param prefix - Key prefix used for recursion
+ * @returns Map of dotted paths to leaf values
+ */
+export function flattenConfig(value: unknown, prefix = ''): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (!isPlainObject(value)) {
+    return result;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child) && Object.keys(child).length > 0) {
+      Object.assign(result, flattenConfig(child, path));
+    } else if (child !== undefined) {
+      result[path] = child;
+    }
+  }
+
+  return result;
+}
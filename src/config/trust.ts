@@ -0,0 +1,212 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { mkdir } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { z } from 'zod';
+import { ConfigSaveError } from './types';
+import { flattenConfig } from './project';
+import { writeFileAtomic } from '../utils/file-lock';
+
+export const TrustEntrySchema = z.object({
+  path: z.string().describe('Absolute path (or source URL) of the trusted file'),
+  hash: z.string().describe('SHA-256 of the file content when it was trusted'),
+  trustedAt: z.string().describe('When the file was trusted (ISO 8601)'),
+});
+
+export const TrustStoreSchema = z.object({
+  entries: z.array(TrustEntrySchema).default([]),
+});
+
+export type TrustEntry = z.infer<typeof TrustEntrySchema>;
+
+/**
+ * Trust state of a file: trusted, never trusted, or trusted with different content
+ */
+export type TrustStatus = 'trusted' | 'untrusted' | 'changed';
+
+/**
+ * Config keys that can redirect traffic or supply credentials.
+ * Matched against the last segment of a dotted key, so profile overrides are covered too.
+ */
+export const SENSITIVE_CONFIG_KEYS = [
+  'apiKey',
+  'apiKeyCommand',
+  'encryptedApiKey',
+  'apiKeyPassphraseFile',
+  'baseUrl',
+  'anthropicBaseUrl',
+  'modelsApiUrl',
+];
+
+/**
+ * Computes the content hash recorded in the trust store
+ *
+ * @param content - File content
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Checks whether a trust store path names a remote source (e.g. github:owner/repo/...)
+ * rather than a local file
+ *
+ * @param path - Path or source identifier
+ * @returns true for remote sources
+ */
+export function isRemoteSource(path: string): boolean {
+  return /^[a-z]+:/i.test(path) && !/^[a-z]:[\\/]/i.test(path);
+}
+
+/**
+ * Lists the dotted keys of a config object that touch endpoints or credentials
+ *
+ * @param data - Raw config data (e.g. a project overlay)
+ * @returns Sensitive dotted keys present in the data
+ */
+export function findSensitiveKeys(data: Record<string, unknown>): string[] {
+  return Object.keys(flattenConfig(data)).filter(key =>
+    SENSITIVE_CONFIG_KEYS.includes(key.split('.').pop() || key)
+  );
+}
+
+/**
+ * Removes sensitive keys from a config object
+ *
+ * @param data - Raw config data
+ * @returns A deep copy without endpoint or credential settings
+ */
+export function stripSensitiveKeys(data: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (SENSITIVE_CONFIG_KEYS.includes(key)) continue;
+    result[key] =
+      typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? stripSensitiveKeys(value as Record<string, unknown>)
+        : value;
+  }
+  return result;
+}
+
+/**
+ * TrustStore is a per-file allowlist of project settings the user has approved
+ *
+ * Each entry pins the file's content hash, so any edit to a trusted file
+ * has to be approved again.
+ */
+export class TrustStore {
+  private storePath: string;
+  private entries: TrustEntry[] | null = null;
+
+  /**
+   * Creates a new TrustStore instance
+   *
+   * @param storePath - Path of the trust store JSON file
+   */
+  constructor(storePath: string) {
+    this.storePath = storePath;
+  }
+
+  /**
+   * Lists all trusted files
+   *
+   * @returns Trust entries sorted by path
+   */
+  list(): TrustEntry[] {
+    return [...this.load()].sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Checks whether a file with the given content is trusted
+   *
+   * @param path - File path or source identifier
+   * @param content - Current file content
+   * @returns The trust status
+   */
+  getStatus(path: string, content: string): TrustStatus {
+    const entry = this.find(path);
+    if (!entry) {
+      return 'untrusted';
+    }
+    return entry.hash === hashContent(content) ? 'trusted' : 'changed';
+  }
+
+  /**
+   * Trusts a file with its current content, replacing any previous entry
+   *
+   * @param path - File path or source identifier
+   * @param content - Current file content
+   * @returns Promise resolving to the new entry
+   * @throws ConfigSaveError if the store cannot be written
+   */
+  async trust(path: string, content: string): Promise<TrustEntry> {
+    const key = this.normalize(path);
+    const entry: TrustEntry = {
+      path: key,
+      hash: hashContent(content),
+      trustedAt: new Date().toISOString(),
+    };
+    this.entries = [...this.load().filter(e => e.path !== key), entry];
+    await this.save();
+    return entry;
+  }
+
+  /**
+   * Revokes trust for a file
+   *
+   * @param path - File path or source identifier
+   * @returns Promise resolving to true if an entry was removed
+   * @throws ConfigSaveError if the store cannot be written
+   */
+  async revoke(path: string): Promise<boolean> {
+    const key = this.normalize(path);
+    const entries = this.load();
+    const remaining = entries.filter(e => e.path !== key);
+    if (remaining.length === entries.length) {
+      return false;
+    }
+    this.entries = remaining;
+    await this.save();
+    return true;
+  }
+
+  private find(path: string): TrustEntry | undefined {
+    const key = this.normalize(path);
+    return this.load().find(e => e.path === key);
+  }
+
+  private normalize(path: string): string {
+    return isRemoteSource(path) ? path : resolve(path);
+  }
+
+  private load(): TrustEntry[] {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    try {
+      if (existsSync(this.storePath)) {
+        const result = TrustStoreSchema.safeParse(
+          JSON.parse(readFileSync(this.storePath, 'utf-8'))
+        );
+        this.entries = result.success ? result.data.entries : [];
+      } else {
+        this.entries = [];
+      }
+    } catch {
+      // An unreadable store trusts nothing
+      this.entries = [];
+    }
+    return this.entries;
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await mkdir(dirname(this.storePath), { recursive: true });
+      await writeFileAtomic(this.storePath, JSON.stringify({ entries: this.entries }, null, 2));
+    } catch (error) {
+      throw new ConfigSaveError(`Failed to save trust store: ${this.storePath}`, error);
+    }
+  }
+}
@@ -9,8 +9,73 @@ export const TierModelsSchema = z.object({
   thinking: z.string().default('').describe('Thinking model'),
 });
 
+const EMPTY_TIER_MODELS: TierModels = {
+  default: '',
+  opus: '',
+  sonnet: '',
+  haiku: '',
+  subagent: '',
+  thinking: '',
+};
+
+export const ProfileSchema = z.object({
+  description: z.string().optional().describe('Profile description'),
+  models: TierModelsSchema.default(EMPTY_TIER_MODELS).describe('Tier models for this profile'),
+  thinkingModel: z.string().optional().describe('Thinking model for this profile'),
+  systemPrompt: z.string().optional().describe('Custom system prompt for this profile'),
+  maxTokenSize: z
+    .number()
+    .int()
+    .min(1000)
+    .max(200000)
+    .optional()
+    .describe('Max token size for this profile'),
+  apiKey: z.string().optional().describe('Synthetic API key override'),
+  baseUrl: z.string().optional().describe('Synthetic API base URL override'),
+  anthropicBaseUrl: z.string().optional().describe('Anthropic-compatible endpoint override'),
+  modelsApiUrl: z.string().optional().describe('Models endpoint override'),
+  account: z.string().optional().describe('Account used by this profile'),
+});
+
+export const AccountSchema = z.object({
+  description: z.string().optional().describe('Account description'),
+  apiKey: z.string().optional().describe('Synthetic API key for this account'),
+  apiKeyCommand: z.string().optional().describe('Shell command that prints the API key'),
+  encryptedApiKey: z.string().optional().describe('API key encrypted with a passphrase'),
+  apiKeyPassphraseFile: z
+    .string()
+    .optional()
+    .describe('File holding the passphrase that unlocks encryptedApiKey'),
+  baseUrl: z.string().optional().describe('Synthetic API base URL override'),
+  anthropicBaseUrl: z.string().optional().describe('Anthropic-compatible endpoint override'),
+  modelsApiUrl: z.string().optional().describe('Models endpoint override'),
+});
+
+/**
+ * Version of the config file format written by this build
+ */
+export const CONFIG_VERSION = 1;
+
 export const AppConfigSchema = z.object({
+  configVersion: z
+    .number()
+    .int()
+    .min(0)
+    .default(CONFIG_VERSION)
+    .describe('Config file format version (managed by synpick)'),
   apiKey: z.string().default('').describe('Synthetic API key'),
+  apiKeyCommand: z
+    .string()
+    .optional()
+    .describe('Shell command that prints the API key, e.g. "pass show synthetic"'),
+  encryptedApiKey: z
+    .string()
+    .optional()
+    .describe('API key encrypted with a passphrase (written by "synpick setup")'),
+  apiKeyPassphraseFile: z
+    .string()
+    .optional()
+    .describe('File holding the passphrase that unlocks encryptedApiKey'),
   baseUrl: z.string().default('https://api.synthetic.new').describe('Synthetic API base URL'),
   anthropicBaseUrl: z
     .string()
@@ -27,14 +92,22 @@ export const AppConfigSchema = z.object({
     .max(168)
     .default(24)
     .describe('Model cache duration in hours'),
-  models: TierModelsSchema.default({
-    default: '',
-    opus: '',
-    sonnet: '',
-    haiku: '',
-    subagent: '',
-    thinking: '',
-  }),
+  cacheBackgroundRefresh: z
+    .boolean()
+    .default(false)
+    .describe('Use an expired model cache right away and refresh it in the background'),
+  cacheMaxStaleHours: z
+    .number()
+    .int()
+    .min(0)
+    .max(720)
+    .default(168)
+    .describe('Hours after expiry that the model cache may be used while refreshing'),
+  models: TierModelsSchema.default(EMPTY_TIER_MODELS),
+  modelAliases: z
+    .record(z.string(), z.string())
+    .default({})
+    .describe('Short names for model IDs, e.g. {"fast": "hf:deepseek-ai/DeepSeek-V3"}'),
   selectedModel: z
     .string()
     .default('')
@@ -62,6 +135,26 @@ export const AppConfigSchema = z.object({
     .string()
     .optional()
     .describe('Last Claude Code update check timestamp (ISO 8601)'),
+  recentModels: z
+    .array(z.string())
+    .default([])
+    .describe('Recently launched models, most recent first (managed by synpick)'),
+  thinkingRules: z
+    .object({
+      include: z
+        .array(z.string())
+        .default([])
+        .describe('Model ID patterns treated as thinking models, e.g. ["hf:*-r1*"]'),
+      exclude: z
+        .array(z.string())
+        .default([])
+        .describe('Model ID patterns never treated as thinking models; these win over include'),
+    })
+    .default({ include: [], exclude: [] }),
+  favoriteModels: z
+    .array(z.string())
+    .default([])
+    .describe('Pinned models, listed first in the model selectors'),
   maxTokenSize: z
     .number()
     .int()
@@ -84,10 +177,25 @@ export const AppConfigSchema = z.object({
     .default(5000)
     .describe('Command execution timeout in milliseconds'),
   systemPrompt: z.string().optional().describe('Custom system prompt for Claude Code'),
+  profiles: z
+    .record(z.string(), ProfileSchema)
+    .default({})
+    .describe('Named configuration profiles'),
+  activeProfile: z.string().optional().describe('Profile used when no --profile flag is given'),
+  accounts: z
+    .record(z.string(), AccountSchema)
+    .default({})
+    .describe('Named Synthetic accounts with their own credentials'),
+  account: z
+    .string()
+    .optional()
+    .describe('Account whose credentials are used (the default, or chosen by a project)'),
 });
 
 export type AppConfig = z.infer<typeof AppConfigSchema>;
 export type TierModels = z.infer<typeof TierModelsSchema>;
+export type Profile = z.infer<typeof ProfileSchema>;
+export type Account = z.infer<typeof AccountSchema>;
 
 export class ConfigValidationError extends Error {
   constructor(
@@ -118,3 +226,53 @@ export class ConfigSaveError extends Error {
     this.name = 'ConfigSaveError';
   }
 }
+
+export class ProfileError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'ProfileError';
+  }
+}
+
+export class ConfigHistoryError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'ConfigHistoryError';
+  }
+}
+
+export class ApiKeyError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+export class ModelAliasError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'ModelAliasError';
+  }
+}
+
+export class AccountError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
@@ -1,21 +1,158 @@
-import { join } from 'path';
+import { join, resolve, sep } from 'path';
 import { homedir } from 'os';
+import { existsSync, readFileSync, statSync } from 'fs';
 import { execSync } from 'child_process';
 import axios from 'axios';
-import { ConfigManager, AppConfigSchema } from '../config';
-import type { AppConfig } from '../config';
-import { ModelManager } from '../models';
-import { UserInterface } from '../ui';
-import { ClaudeLauncher, LaunchOptions } from '../launcher';
+import {
+  ConfigManager,
+  AppConfigSchema,
+  ConfigValidationError,
+  PROJECT_CONFIG_FILENAME,
+  ProfileError,
+  SENSITIVE_CONFIG_KEYS,
+  maskConfigCredentials,
+  maskCredential,
+  describeConfigKeyType,
+  encryptApiKey,
+  modelCacheFileName,
+  modelChangeLogFileName,
+  modelProbeCacheFileName,
+  AccountError,
+  getApiKeySource,
+  readPassphraseFile,
+  diffConfigs,
+  flattenConfig,
+  isRemoteSource,
+  listConfigKeys,
+  profileFromConfig,
+  resolveTierAliases,
+  ModelAliasError,
+} from '../config';
+import type { ApiKeySettings, AppConfig, ConfigValueSource, Profile } from '../config';
+import {
+  DEFAULT_MODEL_COLUMNS,
+  ModelCatalogChange,
+  ModelColumn,
+  ModelFilterError,
+  ModelInfoImpl,
+  ModelListingError,
+  ModelManager,
+  ModelPricingError,
+  ModelOutputFormat,
+  ModelSortKey,
+  compareModels,
+  findModelMatches,
+  formatCacheAge,
+  formatModelsCsv,
+  formatModelsJson,
+  getPricePerMillion,
+  mergeModelChanges,
+  parseModelColumns,
+  parseModelFilter,
+  parseModelOutputFormat,
+  parseModelSortKey,
+  parseTokenCount,
+  estimateCost,
+  classifyThinkingModel,
+  setThinkingRules,
+  suggestReplacements,
+  parseMinContext,
+  parseTierBudget,
+  recommendTiers,
+  TierRecommendation,
+  TierRecommendationError,
+  TierRecommendationOptions,
+  ModelProbeCache,
+  ModelProbeResult,
+  describeProbeProblem,
+  probeModel,
+  CostEstimate,
+  TokenUsage,
+} from '../models';
+import { UserInterface, type ModelSelectionOptions } from '../ui';
+import { ClaudeLauncher, LaunchOptions, TierLaunchModels } from '../launcher';
 import { setupLogging, log } from '../utils/logger';
 import { createBanner, normalizeDangerousFlags } from '../utils/banner';
 import { ClaudeCodeManager, ClaudeCodeManager as ClaudeCodeManagerClass } from '../claude';
+import { findConfigInDirectory } from '../full-config/parser';
 
 export interface AppOptions {
   verbose?: boolean;
   quiet?: boolean;
   additionalArgs?: string[];
   thinkingModel?: string;
+  profile?: string;
+  account?: string;
+  /** If false, launches without checking the models against the cached model list */
+  validate?: boolean;
+}
+
+/**
+ * The models a launch uses, after flags, profile and aliases are applied
+ */
+interface LaunchModels {
+  model: string;
+  thinkingModel: string | null;
+  tierModels: TierLaunchModels;
+}
+
+/**
+ * Options of the models and search commands
+ */
+export interface ModelListOptions {
+  refresh?: boolean;
+  filter?: string;
+  sort?: string;
+  reverse?: boolean;
+  columns?: string;
+  format?: string;
+  /** If true, only lists pinned models */
+  favorites?: boolean;
+}
+
+/**
+ * Options of the cost command
+ */
+export interface CostOptions {
+  input?: string;
+  output?: string;
+  cached?: string;
+  cacheWrite?: string;
+  requests?: string;
+  tiers?: boolean;
+  cheapest?: string;
+  filter?: string;
+  json?: boolean;
+  refresh?: boolean;
+}
+
+/**
+ * Options of the models probe command
+ */
+export interface ProbeOptions {
+  tiers?: boolean;
+  filter?: string;
+  json?: boolean;
+  refresh?: boolean;
+}
+
+/**
+ * Options of the tiers command
+ */
+export interface TierSelectionOptions {
+  /** If true, opens the selector with a recommended model for every tier */
+  auto?: boolean;
+  budget?: string;
+  provider?: string;
+  minContext?: string;
+}
+
+interface ModelListing {
+  /** Undefined for the default order: relevance for searches, otherwise ID */
+  sort?: ModelSortKey;
+  reverse: boolean;
+  columns?: ModelColumn[];
+  format: ModelOutputFormat;
 }
 
 /**
@@ -29,6 +166,7 @@ export class SyntheticClaudeApp {
   private launcher: ClaudeLauncher;
   private modelManager: ModelManager | null = null;
   private claudeCodeManager: ClaudeCodeManagerClass;
+  private profileName?: string;
 
   /**
    * Creates a new SyntheticClaudeApp instance
@@ -37,12 +175,10 @@ export class SyntheticClaudeApp {
    */
   constructor() {
     this.configManager = new ConfigManager();
-    const config = this.configManager.config;
+    const config = this.configManager.getEffectiveConfig();
 
     this.ui = new UserInterface({
-      verbose: this.configManager.config.apiKey
-        ? this.configManager.config.cacheDurationHours > 0
-        : false,
+      verbose: getApiKeySource(config) !== 'none' ? config.cacheDurationHours > 0 : false,
     });
     this.launcher = new ClaudeLauncher({
       timeoutMs: config.commandTimeoutMs,
@@ -51,6 +187,7 @@ export class SyntheticClaudeApp {
       verbose: false,
       timeoutMs: config.commandTimeoutMs,
     });
+    setThinkingRules(config.thinkingRules);
   }
 
   /**
@@ -72,17 +209,74 @@ export class SyntheticClaudeApp {
     return this.configManager.config;
   }
 
-  private getModelManager(): ModelManager {
+  /**
+   * Gets the configuration with a profile applied
+   *
+   * @param profileName - Profile to apply; defaults to the session or active profile
+   * @returns The effective configuration
+   * @throws ProfileError if the profile does not exist
+   */
+  getEffectiveConfig(profileName?: string): AppConfig {
+    return this.configManager.getEffectiveConfig(profileName || this.profileName);
+  }
+
+  /**
+   * Resolves an API key that comes from a command or is stored encrypted
+   *
+   * @returns Promise resolving to true if the key is available, false (after
+   *          reporting why) otherwise
+   */
+  private async unlockApiKey(): Promise<boolean> {
+    try {
+      await this.configManager.resolveApiKey({
+        profileName: this.profileName,
+        askPassphrase: () => this.askApiKeyPassphrase(),
+      });
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ui.error(message);
+      return false;
+    }
+  }
+
+  private async askApiKeyPassphrase(): Promise<string | null> {
+    // Without a terminal there is nobody to ask
+    return process.stdin.isTTY
+      ? this.ui.promptPasswordDecrypt('Passphrase for the encrypted API key')
+      : null;
+  }
+
+  private describeApiKey(config: ApiKeySettings): string {
+    switch (getApiKeySource(config)) {
+      case 'plain':
+        return maskCredential(config.apiKey!);
+      case 'command':
+        return `from command "${config.apiKeyCommand}"`;
+      case 'encrypted':
+        return config.apiKeyPassphraseFile
+          ? `encrypted (unlocked with ${config.apiKeyPassphraseFile})`
+          : 'encrypted (unlocked with a passphrase)';
+      default:
+        return 'Not set';
+    }
+  }
+
+  private getModelManager(options: { quiet?: boolean } = {}): ModelManager {
     if (!this.modelManager) {
-      const config = this.configManager.config;
-      const cacheFile = join(homedir(), '.config', 'synpick', 'models_cache.json');
+      const config = this.getEffectiveConfig();
+      const configDir = join(homedir(), '.config', 'synpick');
 
       this.modelManager = new ModelManager({
-        apiKey: config.apiKey,
+        apiKey: this.configManager.getApiKey(this.profileName),
         modelsApiUrl: config.modelsApiUrl,
-        cacheFile,
+        cacheFile: join(configDir, modelCacheFileName(config.account)),
+        changeLogFile: join(configDir, modelChangeLogFileName(config.account)),
         cacheDurationHours: config.cacheDurationHours,
+        backgroundRefresh: config.cacheBackgroundRefresh,
+        maxStaleHours: config.cacheMaxStaleHours,
         apiTimeoutMs: config.apiTimeoutMs,
+        quiet: options.quiet,
       });
     }
 
@@ -104,6 +298,38 @@ export class SyntheticClaudeApp {
     }
 
     await this.setupLogging(options);
+    await this.applyConfigMigrations();
+
+    // Resolve the profile for this session before anything reads the config
+    const profileName = options.profile || this.configManager.getActiveProfileName();
+    if (profileName && !this.configManager.getProfile(profileName)) {
+      this.ui.error(
+        `Profile "${profileName}" does not exist. Run "synpick profile list" to see available profiles.`
+      );
+      return;
+    }
+    this.profileName = profileName;
+    if (options.account && !this.selectAccount(options.account)) {
+      return;
+    }
+    const accountName = this.configManager.getSelectedAccountName(profileName);
+    if (accountName && !this.configManager.getAccount(accountName)) {
+      this.ui.error(
+        `Account "${accountName}" does not exist. Run "synpick account list" to see available accounts.`
+      );
+      return;
+    }
+
+    const projectError = this.configManager.getProjectConfigError();
+    if (projectError) {
+      this.ui.warning(
+        `Ignoring invalid project config ${this.configManager.getProjectConfigPath()}: ${projectError}`
+      );
+    }
+    await this.checkProjectTrust(options.quiet);
+    for (const envError of this.configManager.getEnvOverrides().errors) {
+      this.ui.warning(`Ignoring invalid environment variable ${envError}`);
+    }
 
     // Display banner unless quiet mode
     if (!options.quiet) {
@@ -119,6 +345,18 @@ export class SyntheticClaudeApp {
       return;
     }
 
+    if (this.configManager.hasApiKey(this.profileName) && !(await this.unlockApiKey())) {
+      return;
+    }
+
+    // Model flags may name aliases; everything below works with model IDs
+    options = {
+      ...options,
+      model: options.model && this.configManager.resolveModelAlias(options.model),
+      thinkingModel:
+        options.thinkingModel && this.configManager.resolveModelAlias(options.thinkingModel),
+    };
+
     // Get model to use
     const model = await this.selectModel(options.model);
     if (!model) {
@@ -129,8 +367,185 @@ export class SyntheticClaudeApp {
     // Get thinking model to use (if specified)
     const thinkingModel = await this.selectThinkingModel(options.thinkingModel);
 
+    // Validation warns about missing models itself
+    const validate = options.validate !== false;
+    await this.reportModelChanges(options.quiet, !validate);
+
+    let models: LaunchModels | null = {
+      model,
+      thinkingModel,
+      tierModels: this.getLaunchTierModels(options),
+    };
+    if (validate) {
+      models = await this.validateLaunchModels(models, options.quiet);
+      if (!models) {
+        return;
+      }
+    }
+
     // Launch Claude Code
-    await this.launchClaudeCode(model, options, thinkingModel);
+    await this.launchClaudeCode(models, options);
+  }
+
+  /**
+   * Checks the launch models against the cached model list
+   *
+   * Each missing model is reported with similar available models. In a
+   * terminal one of them can be picked, which also replaces the model in the
+   * config; otherwise the launch is refused. Nothing is fetched, so without a
+   * cached list the models are not checked.
+   *
+   * @param models - The models the launch would use
+   * @param quiet - If true, does not prompt
+   * @returns Promise resolving to the models to launch with, or null to cancel the launch
+   */
+  private async validateLaunchModels(
+    models: LaunchModels,
+    quiet?: boolean
+  ): Promise<LaunchModels | null> {
+    const catalogue = await this.getModelManager().getCachedModels();
+    if (catalogue.length === 0) {
+      log.debug('No cached model list; launching without checking the models');
+      return models;
+    }
+
+    const available = new Set(catalogue.map(model => model.id));
+    const uses: Array<[string, string | null | undefined]> = [
+      ['model', models.model],
+      ['thinking model', models.thinkingModel],
+      ...Object.entries(models.tierModels).map(([tier, modelId]): [string, string | undefined] => [
+        `${tier} tier`,
+        modelId,
+      ]),
+    ];
+    const missing = new Map<string, string[]>();
+    for (const [use, modelId] of uses) {
+      if (modelId && !available.has(modelId)) {
+        missing.set(modelId, [...new Set([...(missing.get(modelId) || []), use])]);
+      }
+    }
+    if (missing.size === 0) {
+      return models;
+    }
+
+    const interactive = !quiet && process.stdin.isTTY;
+    const replacements = new Map<string, string>();
+    for (const [modelId, modelUses] of missing) {
+      this.ui.warning(`${modelId} (${modelUses.join(', ')}) is not in the model list`);
+      const suggestions = suggestReplacements(modelId, catalogue);
+      if (suggestions.length === 0) {
+        this.ui.info('  No similar models are available.');
+        continue;
+      }
+      this.ui.info('  Similar models:');
+      suggestions.forEach((suggestion, index) =>
+        this.ui.info(`    ${index + 1}. ${suggestion.id}`)
+      );
+      if (!interactive) {
+        continue;
+      }
+
+      const answer = await this.ui.askQuestion(
+        `Replace it with 1-${suggestions.length}, or press Enter to keep it`
+      );
+      const replacement = /^\d+$/.test(answer.trim()) ? suggestions[Number(answer) - 1] : undefined;
+      if (!replacement) {
+        continue;
+      }
+      replacements.set(modelId, replacement.id);
+      const changed = await this.configManager.replaceModel(
+        modelId,
+        replacement.id,
+        this.profileName
+      );
+      this.ui.success(
+        changed.length > 0
+          ? `Replaced ${modelId} with ${replacement.id} in ${changed.join(', ')}`
+          : `Using ${replacement.id} for this launch`
+      );
+    }
+
+    if ([...missing.keys()].some(modelId => !replacements.has(modelId))) {
+      if (!interactive) {
+        this.ui.error(
+          'Not launching with models missing from the model list. Choose others with "synpick model" or "synpick tiers", ' +
+            'refresh the list with "synpick models --refresh", or skip this check with --no-validate.'
+        );
+        return null;
+      }
+      if (!(await this.ui.confirm('Launch anyway?', false))) {
+        return null;
+      }
+    }
+
+    const replace = <T extends string | null | undefined>(modelId: T): T =>
+      ((modelId && replacements.get(modelId)) || modelId) as T;
+    return {
+      model: replace(models.model),
+      thinkingModel: replace(models.thinkingModel),
+      tierModels: Object.fromEntries(
+        Object.entries(models.tierModels).map(([tier, modelId]) => [tier, replace(modelId)])
+      ),
+    };
+  }
+
+  /**
+   * Upgrades an older config file and reports fields dropped while loading it
+   *
+   * @returns Promise that resolves when the config is up to date
+   */
+  private async applyConfigMigrations(): Promise<void> {
+    const report = this.configManager.getLoadReport();
+    for (const field of report.dropped) {
+      this.ui.warning(`Ignoring invalid config value ${field.path}: ${field.message}`);
+    }
+    if (report.dropped.length > 0) {
+      this.ui.info('Run "synpick config migrate" to rewrite the config without them.');
+    }
+
+    if (report.applied.length > 0 && !report.dropped.some(field => field.path === '(file)')) {
+      try {
+        const plan = await this.configManager.migrate();
+        this.ui.info(
+          `Config upgraded from version ${plan.fromVersion} to ${plan.after.configVersion} (backup: ${this.configManager.getConfigPath()}.backup)`
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.ui.warning(`Could not save the upgraded config: ${message}`);
+      }
+    }
+  }
+
+  /**
+   * Offers to trust a project overlay whose endpoint or credential settings were withheld
+   *
+   * Without an interactive terminal the settings simply stay ignored.
+   *
+   * @param quiet - If true, does not prompt
+   * @returns Promise that resolves when the check is done
+   */
+  private async checkProjectTrust(quiet?: boolean): Promise<void> {
+    const keys = this.configManager.getUntrustedProjectKeys();
+    if (keys.length === 0) {
+      return;
+    }
+
+    const path = this.configManager.getProjectConfigPath();
+    const changed = this.configManager.getProjectTrustStatus() === 'changed';
+    this.ui.warning(
+      `${changed ? 'Project config changed since it was trusted' : 'Untrusted project config'}: ${path}`
+    );
+    this.ui.warning(`Ignoring endpoint and credential settings: ${keys.join(', ')}`);
+
+    if (quiet || !process.stdin.isTTY) {
+      this.ui.info('Run "synpick trust add" in this project to apply them.');
+      return;
+    }
+
+    if (await this.ui.confirm('Trust this project config and apply these settings?', false)) {
+      await this.configManager.trustProjectConfig();
+      this.ui.success(`Trusted ${path}`);
+    }
   }
 
   /**
@@ -138,7 +553,7 @@ export class SyntheticClaudeApp {
    * Skips if autoupdate is disabled or if it hasn't been long enough since last check
    */
   async ensureClaudeCodeUpdated(): Promise<void> {
-    const config = this.configManager.config;
+    const config = this.getEffectiveConfig();
 
     // Check if auto-update is enabled
     if (!config.autoUpdateClaudeCode) {
@@ -374,6 +789,28 @@ export class SyntheticClaudeApp {
     }
   }
 
+  /**
+   * Gets what the model selectors show about the user's models
+   *
+   * Pins made in a selector are saved right away; failing to save one is only logged.
+   *
+   * @returns Recent, pinned and aliased models
+   */
+  private getModelSelectionOptions(): ModelSelectionOptions {
+    return {
+      recentModels: this.configManager.getRecentModels(),
+      aliases: this.configManager.getModelAliases(),
+      favoriteModels: this.configManager.getFavoriteModels(),
+      probeProblems: this.getProbeCache().getProblems(this.getEffectiveConfig().anthropicBaseUrl),
+      onToggleFavorite: (modelId, pinned) => {
+        const saving = pinned
+          ? this.configManager.addFavoriteModel(modelId)
+          : this.configManager.removeFavoriteModel(modelId);
+        saving.catch(error => log.warn('Failed to save pinned models', { error }));
+      },
+    };
+  }
+
   /**
    * Initiates interactive model selection for saving a default model
    *
@@ -382,10 +819,13 @@ export class SyntheticClaudeApp {
    * @returns Promise resolving to true if models were selected and saved, false otherwise
    */
   async interactiveModelSelection(): Promise<boolean> {
-    if (!this.configManager.hasApiKey()) {
+    if (!this.configManager.hasApiKey(this.profileName)) {
       this.ui.error('No API key configured. Please run "synpick setup" first.');
       return false;
     }
+    if (!(await this.unlockApiKey())) {
+      return false;
+    }
 
     try {
       const modelManager = this.getModelManager();
@@ -400,7 +840,7 @@ export class SyntheticClaudeApp {
       // Sort models for consistent display
       const sortedModels = modelManager.getModels(models);
       const { regular: selectedRegularModel, thinking: selectedThinkingModel } =
-        await this.ui.selectDualModels(sortedModels);
+        await this.ui.selectDualModels(sortedModels, this.getModelSelectionOptions());
 
       if (!selectedRegularModel && !selectedThinkingModel) {
         this.ui.info('Model selection cancelled');
@@ -437,10 +877,13 @@ export class SyntheticClaudeApp {
    * @returns Promise resolving to true if a thinking model was selected and saved, false otherwise
    */
   async interactiveThinkingModelSelection(): Promise<boolean> {
-    if (!this.configManager.hasApiKey()) {
+    if (!this.configManager.hasApiKey(this.profileName)) {
       this.ui.error('No API key configured. Please run "synpick setup" first.');
       return false;
     }
+    if (!(await this.unlockApiKey())) {
+      return false;
+    }
 
     try {
       const modelManager = this.getModelManager();
@@ -454,7 +897,10 @@ export class SyntheticClaudeApp {
 
       // Sort models for consistent display
       const sortedModels = modelManager.getModels(models);
-      const selectedThinkingModel = await this.ui.selectModel(sortedModels);
+      const selectedThinkingModel = await this.ui.selectModel(
+        sortedModels,
+        this.getModelSelectionOptions()
+      );
       if (!selectedThinkingModel) {
         this.ui.info('Thinking model selection cancelled');
         return false;
@@ -479,13 +925,69 @@ export class SyntheticClaudeApp {
    *
    * Allows selecting different models for each tier (default, opus, sonnet, haiku, subagent, thinking).
    *
+   * With options.auto the selector opens with a recommendation for every tier,
+   * which can be saved as is or edited first.
+   *
+   * @param profileName - Optional profile to save the tiers into instead of the base configuration
+   * @param options - Recommendation options
+   * @param options.auto - If true, proposes a model for every tier
+   * @param options.budget - How much price matters: low, balanced (default) or max
+   * @param options.provider - Only recommend models from this provider
+   * @param options.minContext - Only recommend models with at least this context, e.g. 128k
    * @returns Promise resolving to true if tier models were selected and saved, false otherwise
    */
-  async interactiveTierSelection(): Promise<boolean> {
-    if (!this.configManager.hasApiKey()) {
+  async interactiveTierSelection(
+    profileName?: string,
+    options: TierSelectionOptions = {}
+  ): Promise<boolean> {
+    let recommendation: TierRecommendationOptions | undefined;
+    if (options.auto) {
+      try {
+        recommendation = {
+          budget: options.budget ? parseTierBudget(options.budget) : undefined,
+          provider: options.provider,
+          minContext: options.minContext ? parseMinContext(options.minContext) : undefined,
+        };
+      } catch (error) {
+        if (error instanceof TierRecommendationError) {
+          this.ui.error(error.message);
+          return false;
+        }
+        throw error;
+      }
+    } else if (options.budget || options.provider || options.minContext) {
+      this.ui.error('--budget, --provider and --min-context only apply with --auto');
+      return false;
+    }
+
+    if (profileName) {
+      if (!this.configManager.getProfile(profileName)) {
+        this.ui.error(`Profile "${profileName}" does not exist`);
+        return false;
+      }
+      if (this.configManager.isProjectOnlyProfile(profileName)) {
+        this.ui.error(
+          `Profile "${profileName}" is defined in ${this.configManager.getProjectConfigPath()}, ` +
+            'which synpick does not write. Edit its models there, or copy it with ' +
+            `"synpick profile copy ${profileName} <name>" and choose the copy's tiers.`
+        );
+        return false;
+      }
+      // Fetch the catalogue with the profile's credentials
+      this.profileName = profileName;
+    }
+
+    // Without a profile, tiers are edited in the base configuration
+    const editedConfig = profileName
+      ? this.configManager.getEffectiveConfig(profileName)
+      : this.configManager.config;
+    if (!this.configManager.hasApiKey(profileName)) {
       this.ui.error('No API key configured. Please run "synpick setup" first.');
       return false;
     }
+    if (!(await this.unlockApiKey())) {
+      return false;
+    }
 
     try {
       const modelManager = this.getModelManager();
@@ -500,14 +1002,24 @@ export class SyntheticClaudeApp {
       // Sort models for consistent display
       const sortedModels = modelManager.getModels(models);
 
-      // Get current tier selections from config
-      const currentSelections = this.configManager.config.models || undefined;
-      const defaultModelId = this.configManager.config.selectedModel || undefined;
+      // Get current tier selections from config (or the profile being edited)
+      let currentSelections = editedConfig.models || undefined;
+      let defaultModelId = editedConfig.selectedModel || undefined;
+
+      if (recommendation) {
+        const recommendations = recommendTiers(sortedModels, recommendation);
+        this.showTierRecommendations(recommendations, recommendation);
+        currentSelections = Object.fromEntries(
+          recommendations.map(({ tier, model }) => [tier, model.id])
+        ) as typeof editedConfig.models;
+        defaultModelId = currentSelections.default;
+      }
 
       const tierSelection = await this.ui.selectTiers(
         sortedModels,
         currentSelections,
-        defaultModelId
+        defaultModelId,
+        this.getModelSelectionOptions()
       );
       if (!tierSelection) {
         this.ui.info('Tier selection cancelled');
@@ -515,17 +1027,21 @@ export class SyntheticClaudeApp {
       }
 
       // Save tier models to config - convert optional to required with empty string defaults
-      await this.configManager.updateConfig({
-        models: {
-          default: tierSelection.default || '',
-          opus: tierSelection.opus || '',
-          sonnet: tierSelection.sonnet || '',
-          haiku: tierSelection.haiku || '',
-          subagent: tierSelection.subagent || '',
-          thinking: tierSelection.thinking || '',
-        },
-      });
-      this.ui.coloredSuccess('Tier models saved successfully');
+      const tierModels = {
+        default: tierSelection.default || '',
+        opus: tierSelection.opus || '',
+        sonnet: tierSelection.sonnet || '',
+        haiku: tierSelection.haiku || '',
+        subagent: tierSelection.subagent || '',
+        thinking: tierSelection.thinking || '',
+      };
+      if (profileName) {
+        await this.configManager.updateProfile(profileName, { models: tierModels });
+        this.ui.coloredSuccess(`Tier models saved to profile "${profileName}"`);
+      } else {
+        await this.configManager.updateConfig({ models: tierModels });
+        this.ui.coloredSuccess('Tier models saved successfully');
+      }
 
       // Display summary
       this.ui.info('Selected tier models:');
@@ -536,9 +1052,16 @@ export class SyntheticClaudeApp {
       if (tierSelection.subagent) this.ui.info(`  Subagent: ${tierSelection.subagent}`);
       if (tierSelection.thinking) this.ui.info(`  Thinking: ${tierSelection.thinking}`);
 
-      this.ui.highlightInfo('Now run "synpick" to start Claude Code with your tier models.', [
-        'synpick',
-      ]);
+      if (profileName) {
+        this.ui.highlightInfo(
+          `Now run "synpick --profile ${profileName}" to start Claude Code with these tier models.`,
+          [`synpick --profile ${profileName}`]
+        );
+      } else {
+        this.ui.highlightInfo('Now run "synpick" to start Claude Code with your tier models.', [
+          'synpick',
+        ]);
+      }
       return true;
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -547,29 +1070,78 @@ export class SyntheticClaudeApp {
     }
   }
 
+  /**
+   * Prints the recommended tier models and what each one scored well on
+   *
+   * @param recommendations - The recommendations, in tier order
+   * @param options - The budget and constraints they were made with
+   */
+  private showTierRecommendations(
+    recommendations: TierRecommendation[],
+    options: TierRecommendationOptions
+  ): void {
+    const constraints = [
+      `${options.budget || 'balanced'} budget`,
+      options.provider && `provider ${options.provider}`,
+      options.minContext !== undefined && `context >= ${options.minContext}`,
+    ].filter(Boolean);
+    this.ui.info(`Recommended tier models (${constraints.join(', ')}):`);
+    for (const { tier, model, strengths } of recommendations) {
+      const label = tier.charAt(0).toUpperCase() + tier.slice(1);
+      const why = strengths.length > 0 ? ` (${strengths.join(', ')})` : '';
+      this.ui.info(`  ${label}: ${model.id}${why}`);
+    }
+    this.ui.info('Press Enter to save the proposal, or change any tier first.');
+  }
+
   /**
    * Lists all available models
    *
    * @param options - Options for model listing
    * @param options.refresh - If true, forces a refresh from the API
+   * @param options.filter - Optional filter expression, e.g. "ctx>=128k feature:tools"
+   * @param options.sort - Sort key (id, name, provider, context, price or created); filters
+   *   with plain words are ranked by relevance when this is not given
+   * @param options.reverse - If true, reverses the sort order
+   * @param options.columns - Comma-separated columns for table and csv output
+   * @param options.format - Output format (table, json, csv or ids)
+   * @param options.favorites - If true, only lists pinned models
    * @returns Promise that resolves when models are listed
    */
-  async listModels(options: { refresh?: boolean }): Promise<void> {
+  async listModels(options: ModelListOptions): Promise<void> {
+    const listing = this.parseModelListing(options);
     log.info('Listing models', { options });
-
-    if (!this.configManager.hasApiKey()) {
+    if (!listing || (options.filter && !this.checkModelFilter(options.filter))) {
+      return;
+    }
+    if (!this.configManager.hasApiKey(this.profileName)) {
       this.ui.error('No API key configured. Run "synpick setup" to configure.');
       return;
     }
+    if (!(await this.unlockApiKey())) {
+      return;
+    }
 
     try {
-      const modelManager = this.getModelManager();
-      this.ui.coloredInfo('Fetching available models...');
-      const models = await modelManager.fetchModels(options.refresh);
+      const table = listing.format === 'table';
+      const modelManager = this.getModelManager({ quiet: !table });
+      if (table) {
+        this.ui.coloredInfo('Fetching available models...');
+      }
+      let models = await modelManager.fetchModels(options.refresh);
+      if (options.favorites) {
+        const favorites = this.configManager.getFavoriteModels();
+        models = models.filter(model => favorites.includes(model.id));
+      }
 
       // Sort and display all models
-      const sortedModels = modelManager.getModels(models);
-      this.ui.showModelList(sortedModels);
+      const sortedModels = options.filter
+        ? await modelManager.searchModels(options.filter, models, {
+            ...listing,
+            recentModels: this.configManager.getRecentModels(),
+          })
+        : modelManager.getModels(models, listing);
+      this.printModels(sortedModels, listing);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       this.ui.error(`Failed to fetch models: ${message}`);
@@ -579,24 +1151,40 @@ export class SyntheticClaudeApp {
   /**
    * Searches for models matching the given query
    *
-   * @param query - Search query to filter models
-   * @param options - Options for model search
-   * @param options.refresh - If true, forces a refresh from the API
+   * @param query - Search query or filter expression
+   * @param options - Options for model search, as for listModels (filter is ignored)
    * @returns Promise that resolves when models are searched
    */
-  async searchModels(query: string, options: { refresh?: boolean }): Promise<void> {
+  async searchModels(query: string, options: ModelListOptions): Promise<void> {
+    const listing = this.parseModelListing(options);
     log.info('Searching models', { query, options });
-
-    if (!this.configManager.hasApiKey()) {
+    if (!listing || !this.checkModelFilter(query)) {
+      return;
+    }
+    if (!this.configManager.hasApiKey(this.profileName)) {
       this.ui.error('No API key configured. Run "synpick setup" to configure.');
       return;
     }
+    if (!(await this.unlockApiKey())) {
+      return;
+    }
 
     try {
-      const modelManager = this.getModelManager();
-      this.ui.coloredInfo(`Searching for models matching "${query}"...`);
-      const models = await modelManager.searchModels(query, undefined);
+      const table = listing.format === 'table';
+      const modelManager = this.getModelManager({ quiet: !table });
+      if (table) {
+        this.ui.coloredInfo(`Searching for models matching "${query}"...`);
+      }
+      const models = await modelManager.searchModels(
+        query,
+        await modelManager.fetchModels(options.refresh),
+        { ...listing, recentModels: this.configManager.getRecentModels() }
+      );
 
+      if (!table) {
+        this.printModels(models, listing);
+        return;
+      }
       if (models.length === 0) {
         this.ui.info(`No models found matching "${query}"`);
         return;
@@ -605,7 +1193,7 @@ export class SyntheticClaudeApp {
       this.ui.coloredInfo(
         `Found ${models.length} model${models.length === 1 ? '' : 's'} matching "${query}":`
       );
-      this.ui.showModelList(models);
+      this.printModels(models, listing);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       this.ui.error(`Failed to search models: ${message}`);
@@ -613,98 +1201,1093 @@ export class SyntheticClaudeApp {
   }
 
   /**
-   * Displays the current configuration
+   * Shows everything known about one model
    *
-   * @returns Promise that resolves when configuration is displayed
+   * @param query - A model ID, alias (ID without prefix, Hugging Face ID, name) or fuzzy match
+   * @param options - Display options
+   * @param options.json - If true, prints the details as JSON
+   * @param options.refresh - If true, forces a refresh from the API
+   * @returns Promise resolving to true if exactly one model matched
    */
-  async showConfig(): Promise<void> {
-    const config = this.configManager.config;
+  async showModel(query: string, options: { json?: boolean; refresh?: boolean }): Promise<boolean> {
+    if (options.json) {
+      setupLogging(false, true);
+    }
+    log.info('Showing model', { query, options });
 
-    this.ui.info('Current Configuration:');
-    this.ui.info('=====================');
-    this.ui.info(`API Key: ${config.apiKey ? '••••••••' + config.apiKey.slice(-4) : 'Not set'}`);
-    this.ui.info(`Base URL: ${config.baseUrl}`);
-    this.ui.info(`Models API: ${config.modelsApiUrl}`);
-    this.ui.info(`Cache Duration: ${config.cacheDurationHours} hours`);
-    this.ui.info(`Selected Model: ${config.selectedModel || 'None'}`);
-    this.ui.info(`Selected Thinking Model: ${config.selectedThinkingModel || 'None'}`);
-    this.ui.info(`First Run Completed: ${config.firstRunCompleted}`);
-    this.ui.info(`Auto-update Claude Code: ${config.autoUpdateClaudeCode ? 'Yes' : 'No'}`);
-    this.ui.info(`Update Check Interval: ${config.claudeCodeUpdateCheckInterval} hours`);
-    this.ui.info(`Max Token Size: ${config.maxTokenSize}`);
-    if (config.systemPrompt) {
-      const preview =
-        config.systemPrompt.length > 50
-          ? config.systemPrompt.slice(0, 50) + '...'
-          : config.systemPrompt;
-      this.ui.info(`System Prompt: ${preview}`);
+    if (!this.configManager.hasApiKey(this.profileName)) {
+      this.ui.error('No API key configured. Run "synpick setup" to configure.');
+      return false;
+    }
+    if (!(await this.unlockApiKey())) {
+      return false;
     }
-  }
 
-  /**
-   * Sets a configuration value
-   *
-   * @param key - Configuration key to set
-   * @param value - Value to set (will be parsed appropriately based on key)
-   * @returns Promise that resolves when configuration is set
-   */
-  async setConfig(key: string, value: string): Promise<void> {
-    // Simple key-value config setting
-    const updates: Partial<AppConfig> = {};
+    try {
+      const modelManager = this.getModelManager({ quiet: options.json });
+      const models = await modelManager.fetchModels(options.refresh);
+      const model = await modelManager.getModelById(
+        this.configManager.resolveModelAlias(query),
+        models
+      );
 
-    switch (key) {
-      case 'apiKey':
-        updates.apiKey = value;
-        break;
-      case 'baseUrl':
-        updates.baseUrl = value;
-        break;
-      case 'modelsApiUrl':
-        updates.modelsApiUrl = value;
-        break;
-      case 'cacheDurationHours':
-        updates.cacheDurationHours = parseInt(value, 10);
-        break;
-      case 'selectedModel':
-        updates.selectedModel = value;
-        break;
-      case 'selectedThinkingModel':
-        updates.selectedThinkingModel = value;
-        break;
-      case 'autoUpdateClaudeCode':
-        updates.autoUpdateClaudeCode = value.toLowerCase() === 'true' || value === '1';
-        break;
-      case 'claudeCodeUpdateCheckInterval':
-        updates.claudeCodeUpdateCheckInterval = parseInt(value, 10);
-        break;
-      case 'maxTokenSize':
-        updates.maxTokenSize = parseInt(value, 10);
-        break;
-      case 'systemPrompt':
-        updates.systemPrompt = value;
-        break;
-      default:
-        this.ui.error(`Unknown configuration key: ${key}`);
-        return;
-    }
+      if (!model) {
+        const candidates = modelManager.getModels(findModelMatches(models, query));
+        if (candidates.length === 0) {
+          this.ui.error(`No model matches "${query}". Try "synpick search ${query}".`);
+        } else {
+          this.ui.error(`"${query}" matches ${candidates.length} models. Use one of:`);
+          for (const candidate of candidates.slice(0, 10)) {
+            console.error(`  ${candidate.id}`);
+          }
+        }
+        return false;
+      }
 
-    const success = await this.configManager.updateConfig(updates);
-    if (success) {
-      this.ui.success(`Configuration updated: ${key} = ${value}`);
-    } else {
-      this.ui.error(`Failed to update configuration: ${key}`);
+      const config = this.getEffectiveConfig();
+      const tiers = Object.entries(config.models)
+        .filter(([, modelId]) => modelId === model.id)
+        .map(([tier]) => tier);
+      const thinking = classifyThinkingModel(model);
+
+      if (options.json) {
+        const pricing_per_million = {
+          prompt: getPricePerMillion(model, 'prompt'),
+          completion: getPricePerMillion(model, 'completion'),
+          input_cache_reads: getPricePerMillion(model, 'cacheRead'),
+          input_cache_writes: getPricePerMillion(model, 'cacheWrite'),
+        };
+        console.log(
+          JSON.stringify(
+            {
+              ...model.toJSON(),
+              pricing_per_million,
+              thinking: thinking.thinking,
+              thinking_reason: thinking.reason,
+              tiers,
+            },
+            null,
+            2
+          )
+        );
+      } else {
+        this.ui.showModelDetails(model, { thinking, tiers });
+      }
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ui.error(`Failed to fetch models: ${message}`);
+      return false;
     }
   }
 
   /**
-   * Resets all configuration to defaults
+   * Lists the model catalogue changes detected when the model list was refreshed
    *
-   * @returns Promise that resolves when configuration is reset
+   * @param options - Display options
+   * @param options.since - Only list changes detected at or after this date
+   * @returns Promise resolving to false if the date is invalid
    */
-  async resetConfig(): Promise<void> {
-    const confirmed = await this.ui.confirm(
-      'Are you sure you want to reset all configuration to defaults?'
-    );
+  async showModelChanges(options: { since?: string }): Promise<boolean> {
+    const since = options.since ? new Date(options.since) : undefined;
+    if (since && Number.isNaN(since.getTime())) {
+      this.ui.error(`Invalid date "${options.since}". Use a date such as 2025-01-31.`);
+      return false;
+    }
+
+    const modelManager = this.getModelManager();
+    const changes = modelManager.getModelChanges(since);
+    if (changes.length === 0) {
+      this.ui.info(
+        since
+          ? `No model changes recorded since ${since.toLocaleString()}.`
+          : 'No model changes recorded yet. Changes are detected whenever the model list is refreshed.'
+      );
+    } else {
+      this.ui.info('Model Changes:');
+      this.ui.info('==============');
+      for (const change of [...changes].reverse()) {
+        this.ui.info(
+          `${new Date(change.timestamp).toLocaleString()}  ${this.describeModelChanges(change)}`
+        );
+        change.added.forEach(id => this.ui.info(`    + ${id}`));
+        change.removed.forEach(id => this.ui.info(`    - ${id}`));
+      }
+    }
+
+    this.warnAboutRemovedModels(modelManager.getModelChanges());
+    return true;
+  }
+
+  /**
+   * Lists the pinned and recently used models the selectors show first
+   *
+   * @returns Promise that resolves when the models are listed
+   */
+  async listFavoriteModels(): Promise<void> {
+    const favorites = this.configManager.getFavoriteModels();
+    const recent = this.configManager
+      .getRecentModels()
+      .filter(modelId => !favorites.includes(modelId));
+
+    if (favorites.length === 0) {
+      this.ui.info('No pinned models. Pin one with "synpick models favorites add <model>".');
+    } else {
+      this.ui.info('Pinned:');
+      favorites.forEach(modelId => this.ui.info(`  ★ ${modelId}`));
+    }
+    if (recent.length > 0) {
+      this.ui.info('Recent:');
+      recent.forEach(modelId => this.ui.info(`    ${modelId}`));
+    }
+  }
+
+  /**
+   * Pins a model, found by ID, alias or fuzzy match
+   *
+   * @param query - The model
+   * @returns Promise resolving to true if the model is pinned
+   */
+  async addFavoriteModel(query: string): Promise<boolean> {
+    if (!this.configManager.hasApiKey(this.profileName)) {
+      this.ui.error('No API key configured. Run "synpick setup" to configure.');
+      return false;
+    }
+    if (!(await this.unlockApiKey())) {
+      return false;
+    }
+
+    try {
+      const modelManager = this.getModelManager();
+      const model = await modelManager.getModelById(
+        this.configManager.resolveModelAlias(query),
+        await modelManager.fetchModels()
+      );
+      if (!model) {
+        this.ui.error(`No single model matches "${query}". Try "synpick search ${query}".`);
+        return false;
+      }
+
+      if (await this.configManager.addFavoriteModel(model.id)) {
+        this.ui.success(`Pinned ${model.id}`);
+      } else {
+        this.ui.info(`${model.id} is already pinned`);
+      }
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ui.error(`Failed to pin model: ${message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Unpins a model
+   *
+   * @param modelId - The model ID or an alias of it
+   * @returns Promise resolving to true if the model was pinned
+   */
+  async removeFavoriteModel(modelId: string): Promise<boolean> {
+    const resolved = this.configManager.resolveModelAlias(modelId);
+    try {
+      if (!(await this.configManager.removeFavoriteModel(resolved))) {
+        this.ui.error(`${resolved} is not pinned`);
+        return false;
+      }
+      this.ui.success(`Unpinned ${resolved}`);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ui.error(`Failed to unpin model: ${message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Reports catalogue changes not reported yet, and configured models that were removed
+   *
+   * Changes come from earlier refreshes of the model list; nothing is fetched here.
+   *
+   * @param quiet - If true, only warns about removed models
+   * @param warnRemoved - If false, does not warn about removed models either
+   */
+  private async reportModelChanges(quiet?: boolean, warnRemoved = true): Promise<void> {
+    const modelManager = this.getModelManager();
+    const unnotified = modelManager.getUnnotifiedModelChanges();
+    if (unnotified.length > 0 && !quiet) {
+      this.ui.highlightInfo(
+        `Model catalogue changed: ${this.describeModelChanges(mergeModelChanges(unnotified))}. ` +
+          'Run "synpick models changes" for details.',
+        ['synpick models changes']
+      );
+    }
+
+    if (warnRemoved) {
+      this.warnAboutRemovedModels(modelManager.getModelChanges());
+    }
+    try {
+      await modelManager.markModelChangesNotified();
+    } catch (error) {
+      log.warn('Failed to save the model change log', { error });
+    }
+  }
+
+  private describeModelChanges(change: { added: string[]; removed: string[] }): string {
+    const added = `${change.added.length} new model${change.added.length === 1 ? '' : 's'}`;
+    return `${added}, ${change.removed.length} removed`;
+  }
+
+  /**
+   * Warns about tier and thinking models that have disappeared from the catalogue
+   *
+   * @param changes - All recorded catalogue changes, oldest first
+   */
+  private warnAboutRemovedModels(changes: ModelCatalogChange[]): void {
+    const removed = new Set(mergeModelChanges(changes).removed);
+    const config = this.getEffectiveConfig();
+    const configured: Array<[string, string]> = [
+      ...Object.entries(config.models),
+      ['thinking model', config.selectedThinkingModel],
+    ];
+
+    const warned = new Set<string>();
+    for (const [tier, modelId] of configured) {
+      if (!modelId || !removed.has(modelId) || warned.has(modelId)) continue;
+      warned.add(modelId);
+      this.ui.warning(
+        `The ${tier} model ${modelId} has been removed from the model catalogue. ` +
+          'Run "synpick tiers" to choose another one.'
+      );
+    }
+  }
+
+  /**
+   * Compares models side by side
+   *
+   * @param modelIds - Two or more model IDs, aliases or fuzzy matches
+   * @param options - Display options
+   * @param options.json - If true, prints the comparison as JSON
+   * @param options.refresh - If true, forces a refresh from the API
+   * @returns Promise resolving to true if the comparison was shown
+   */
+  async compareModels(
+    modelIds: string[],
+    options: { json?: boolean; refresh?: boolean }
+  ): Promise<boolean> {
+    if (options.json) {
+      setupLogging(false, true);
+    }
+    log.info('Comparing models', { modelIds, options });
+
+    if (!this.configManager.hasApiKey(this.profileName)) {
+      this.ui.error('No API key configured. Run "synpick setup" to configure.');
+      return false;
+    }
+    if (!(await this.unlockApiKey())) {
+      return false;
+    }
+
+    try {
+      const modelManager = this.getModelManager({ quiet: options.json });
+      const models = await modelManager.fetchModels(options.refresh);
+
+      const compared: ModelInfoImpl[] = [];
+      for (const modelId of modelIds) {
+        const model = await modelManager.getModelById(
+          this.configManager.resolveModelAlias(modelId),
+          models
+        );
+        if (!model) {
+          this.ui.error(`No single model matches "${modelId}". Try "synpick search ${modelId}".`);
+          return false;
+        }
+        if (!compared.includes(model)) compared.push(model);
+      }
+      if (compared.length < 2) {
+        this.ui.error('Give at least two different models to compare');
+        return false;
+      }
+
+      const rows = compareModels(compared);
+      if (options.json) {
+        const ids = compared.map(model => model.id);
+        console.log(
+          JSON.stringify(
+            {
+              models: ids,
+              rows: rows.map(row => ({
+                key: row.column,
+                label: row.label,
+                values: Object.fromEntries(ids.map((id, index) => [id, row.values[index] ?? null])),
+                best: row.best.map(index => ids[index]),
+              })),
+            },
+            null,
+            2
+          )
+        );
+      } else {
+        this.ui.showModelComparison(compared, rows);
+      }
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ui.error(`Failed to compare models: ${message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Estimates what a workload would cost on one or more models
+   *
+   * Without model IDs or --cheapest, the configured tier models are estimated.
+   *
+   * @param modelIds - Model IDs, aliases or fuzzy matches to estimate
+   * @param options - Token counts and which models to compare
+   * @param options.input - Uncached input tokens (e.g. 120k)
+   * @param options.output - Output tokens
+   * @param options.cached - Input tokens read from the prompt cache
+   * @param options.cacheWrite - Input tokens written to the prompt cache
+   * @param options.requests - Number of requests, for per-request fees (default: 1)
+   * @param options.tiers - If true, estimates the configured tier models
+   * @param options.cheapest - Estimates the N cheapest models instead
+   * @param options.filter - Filter expression limiting the --cheapest candidates
+   * @param options.json - If true, prints the estimates as JSON
+   * @param options.refresh - If true, forces a refresh from the API
+   * @returns Promise resolving to true if estimates were shown
+   */
+  async estimateCosts(modelIds: string[], options: CostOptions): Promise<boolean> {
+    if (options.json) {
+      setupLogging(false, true);
+    }
+    log.info('Estimating costs', { modelIds, options });
+
+    let usage: TokenUsage;
+    let cheapest: number | undefined;
+    try {
+      usage = {
+        inputTokens: parseTokenCount(options.input || '0'),
+        outputTokens: parseTokenCount(options.output || '0'),
+        cachedTokens: parseTokenCount(options.cached || '0'),
+        cacheWriteTokens: parseTokenCount(options.cacheWrite || '0'),
+        requests: parseTokenCount(options.requests || '1'),
+      };
+      cheapest = options.cheapest ? parseTokenCount(options.cheapest) : undefined;
+    } catch (error) {
+      if (error instanceof ModelPricingError) {
+        this.ui.error(error.message);
+        return false;
+      }
+      throw error;
+    }
+
+    const { inputTokens, outputTokens, cachedTokens = 0, cacheWriteTokens = 0 } = usage;
+    if (inputTokens + outputTokens + cachedTokens + cacheWriteTokens === 0) {
+      this.ui.error('Give the token counts to estimate, e.g. --input 200k --output 20k');
+      return false;
+    }
+    if (cheapest === 0) {
+      this.ui.error('--cheapest needs a number of models, e.g. --cheapest 5');
+      return false;
+    }
+    if ([modelIds.length > 0, options.tiers, cheapest !== undefined].filter(Boolean).length > 1) {
+      this.ui.error('Choose one of: model IDs, --tiers or --cheapest');
+      return false;
+    }
+    if (options.filter && cheapest === undefined) {
+      this.ui.error('--filter only applies to --cheapest');
+      return false;
+    }
+    if (options.filter && !this.checkModelFilter(options.filter)) {
+      return false;
+    }
+    if (!this.configManager.hasApiKey(this.profileName)) {
+      this.ui.error('No API key configured. Run "synpick setup" to configure.');
+      return false;
+    }
+    if (!(await this.unlockApiKey())) {
+      return false;
+    }
+
+    try {
+      const modelManager = this.getModelManager({ quiet: options.json });
+      const models = await modelManager.fetchModels(options.refresh);
+      let rows: Array<{ model: ModelInfoImpl; tiers?: string[]; estimate: CostEstimate }>;
+
+      if (cheapest !== undefined) {
+        const candidates = options.filter
+          ? await modelManager.searchModels(options.filter, models)
+          : models;
+        rows = candidates
+          .map(model => ({ model, estimate: estimateCost(model, usage) }))
+          .filter(row => row.estimate.missing.length === 0)
+          .sort(
+            (a, b) => a.estimate.total - b.estimate.total || a.model.id.localeCompare(b.model.id)
+          )
+          .slice(0, cheapest);
+      } else if (modelIds.length > 0) {
+        rows = [];
+        for (const modelId of modelIds) {
+          const model = await modelManager.getModelById(
+            this.configManager.resolveModelAlias(modelId),
+            models
+          );
+          if (!model) {
+            this.ui.error(`No single model matches "${modelId}". Try "synpick search ${modelId}".`);
+            return false;
+          }
+          rows.push({ model, estimate: estimateCost(model, usage) });
+        }
+      } else {
+        const tiersByModel = this.getTiersByModel();
+        if (tiersByModel.size === 0) {
+          this.ui.error('No tier models configured. Pass model IDs or run "synpick tiers".');
+          return false;
+        }
+
+        rows = [];
+        for (const [modelId, tiers] of tiersByModel) {
+          const model = models.find(candidate => candidate.id === modelId);
+          if (model) {
+            rows.push({ model, tiers, estimate: estimateCost(model, usage) });
+          } else {
+            this.ui.warning(`${tiers.join(', ')}: ${modelId} is not in the model list`);
+          }
+        }
+      }
+
+      if (options.json) {
+        console.log(
+          JSON.stringify(
+            rows.map(({ model, tiers, estimate }) => ({ id: model.id, tiers, ...estimate })),
+            null,
+            2
+          )
+        );
+      } else if (rows.length === 0) {
+        this.ui.info('No models with complete pricing to estimate');
+      } else {
+        this.ui.showCostEstimates(rows);
+      }
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ui.error(`Failed to estimate costs: ${message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Probes models with live requests to the Anthropic-compatible endpoint
+   *
+   * Each model gets a streamed messages request and a forced tool call (see
+   * probeModel). Results are saved to the probe cache, which the model
+   * selectors use to flag failing models. Without model IDs or a filter, the
+   * configured tier models are probed.
+   *
+   * @param modelIds - Model IDs, aliases or fuzzy matches to probe
+   * @param options - Which models to probe and how to print the results
+   * @param options.tiers - If true, probes the configured tier models
+   * @param options.filter - Probes the models matching this filter expression instead
+   * @param options.json - If true, prints the results as JSON
+   * @param options.refresh - If true, forces a refresh of the model list
+   * @returns Promise resolving to true if every probed model passed
+   */
+  async probeModels(modelIds: string[], options: ProbeOptions): Promise<boolean> {
+    if (options.json) {
+      setupLogging(false, true);
+    }
+    log.info('Probing models', { modelIds, options });
+
+    if (options.filter && !this.checkModelFilter(options.filter)) {
+      return false;
+    }
+    if (!this.configManager.hasApiKey(this.profileName)) {
+      this.ui.error('No API key configured. Run "synpick setup" to configure.');
+      return false;
+    }
+    if (!(await this.unlockApiKey())) {
+      return false;
+    }
+
+    try {
+      const modelManager = this.getModelManager({ quiet: options.json });
+      const models = await modelManager.fetchModels(options.refresh);
+      let targets: Array<{ modelId: string; tiers?: string[] }>;
+
+      if (modelIds.length > 0) {
+        targets = [];
+        for (const modelId of modelIds) {
+          const model = await modelManager.getModelById(
+            this.configManager.resolveModelAlias(modelId),
+            models
+          );
+          if (!model) {
+            this.ui.error(`No single model matches "${modelId}". Try "synpick search ${modelId}".`);
+            return false;
+          }
+          targets.push({ modelId: model.id });
+        }
+      } else if (options.filter) {
+        const matches = await modelManager.searchModels(options.filter, models);
+        if (matches.length === 0) {
+          this.ui.error(`No models match "${options.filter}"`);
+          return false;
+        }
+        targets = matches.map(model => ({ modelId: model.id }));
+      } else {
+        const tiersByModel = this.getTiersByModel();
+        if (tiersByModel.size === 0) {
+          this.ui.error('No tier models configured. Pass model IDs or run "synpick tiers".');
+          return false;
+        }
+        targets = [...tiersByModel].map(([modelId, tiers]) => ({ modelId, tiers }));
+      }
+
+      const config = this.getEffectiveConfig();
+      const rows: Array<{ result: ModelProbeResult; tiers?: string[] }> = [];
+      for (const { modelId, tiers } of targets) {
+        if (!options.json) {
+          this.ui.coloredInfo(`Probing ${modelId}...`);
+        }
+        const result = await probeModel(modelId, {
+          endpoint: config.anthropicBaseUrl,
+          apiKey: this.configManager.getApiKey(this.profileName),
+          timeoutMs: config.apiTimeoutMs,
+        });
+        rows.push({ result, tiers });
+      }
+
+      try {
+        await this.getProbeCache().record(rows.map(row => row.result));
+      } catch (error) {
+        log.warn('Failed to save probe results', { error });
+      }
+
+      if (options.json) {
+        console.log(
+          JSON.stringify(
+            rows.map(({ result, tiers }) => ({
+              ...result,
+              tiers,
+              problem: describeProbeProblem(result),
+            })),
+            null,
+            2
+          )
+        );
+      } else {
+        this.ui.showProbeResults(rows);
+      }
+      return rows.every(({ result }) => describeProbeProblem(result) === null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ui.error(`Failed to probe models: ${message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Groups the configured tiers by model, so tiers that share a model are handled once
+   *
+   * @returns The tiers of each tier model, by model ID, after resolving aliases
+   */
+  private getTiersByModel(): Map<string, string[]> {
+    const tiersByModel = new Map<string, string[]>();
+    const config = this.getEffectiveConfig();
+    const tierModels = resolveTierAliases(config.modelAliases, config.models);
+    for (const [tier, modelId] of Object.entries(tierModels)) {
+      if (modelId) tiersByModel.set(modelId, [...(tiersByModel.get(modelId) || []), tier]);
+    }
+    return tiersByModel;
+  }
+
+  /**
+   * Gets the cache of model probe results for the selected account
+   */
+  private getProbeCache(): ModelProbeCache {
+    const config = this.getEffectiveConfig();
+    return new ModelProbeCache(
+      join(homedir(), '.config', 'synpick', modelProbeCacheFileName(config.account))
+    );
+  }
+
+  /**
+   * Checks the sort, column and format options of a model listing
+   *
+   * Machine-readable formats switch logging to errors only, so that stdout
+   * carries nothing but the listing.
+   *
+   * @param options - The command options
+   * @returns The parsed listing options, or null after reporting an invalid value
+   */
+  private parseModelListing(options: ModelListOptions): ModelListing | null {
+    try {
+      const listing: ModelListing = {
+        sort: options.sort ? parseModelSortKey(options.sort) : undefined,
+        reverse: options.reverse || false,
+        columns: options.columns ? parseModelColumns(options.columns) : undefined,
+        format: options.format ? parseModelOutputFormat(options.format) : 'table',
+      };
+      if (listing.format !== 'table') {
+        setupLogging(false, true);
+      }
+      return listing;
+    } catch (error) {
+      if (error instanceof ModelListingError) {
+        this.ui.error(error.message);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Prints models in the requested format
+   *
+   * Only the table format is colored; json, csv and ids go to stdout unadorned
+   * so they can be piped into other tools.
+   *
+   * @param models - The sorted models
+   * @param listing - The listing options
+   */
+  private printModels(models: ModelInfoImpl[], listing: ModelListing): void {
+    switch (listing.format) {
+      case 'json':
+        console.log(formatModelsJson(models, listing.columns));
+        break;
+      case 'csv':
+        console.log(formatModelsCsv(models, listing.columns || DEFAULT_MODEL_COLUMNS));
+        break;
+      case 'ids':
+        for (const model of models) {
+          console.log(model.id);
+        }
+        break;
+      default:
+        if (listing.columns) {
+          this.ui.showModelTable(models, listing.columns);
+        } else {
+          this.ui.showModelList(models);
+        }
+    }
+  }
+
+  /**
+   * Checks a model filter expression before any models are fetched
+   *
+   * @param expression - The filter expression
+   * @returns true if the expression is valid, false after reporting the parse error
+   */
+  private checkModelFilter(expression: string): boolean {
+    try {
+      parseModelFilter(expression);
+      return true;
+    } catch (error) {
+      if (error instanceof ModelFilterError) {
+        this.ui.error(error.message);
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Displays the current configuration
+   *
+   * @param options - Display options
+   * @param options.sources - If true, lists where every key's value came from instead
+   * @returns Promise that resolves when configuration is displayed
+   */
+  async showConfig(options: { sources?: boolean } = {}): Promise<void> {
+    const config = this.getEffectiveConfig();
+    const sources = this.configManager.getConfigSources(this.profileName);
+    const projectPath = this.configManager.getProjectConfigPath();
+    const projectError = this.configManager.getProjectConfigError();
+
+    for (const envError of this.configManager.getEnvOverrides().errors) {
+      this.ui.warning(`Ignoring invalid environment variable ${envError}`);
+    }
+    if (options.sources) {
+      this.showConfigSources(sources);
+      return;
+    }
+
+    // Mark values that do not come from the global config file
+    const mark = (...keys: string[]): string => {
+      const layer = keys
+        .map(key => sources[key])
+        .find(s => s === 'project' || s === 'env' || s === 'profile' || s === 'account');
+      return layer ? ` [${layer}]` : '';
+    };
+    const tierKeys = Object.keys(config.models).map(tier => `models.${tier}`);
+
+    this.ui.info('Current Configuration:');
+    this.ui.info('=====================');
+    if (projectPath) {
+      const trust = this.configManager.getProjectTrustStatus();
+      const state = projectError ? ' (ignored)' : trust && trust !== 'trusted' ? ` (${trust})` : '';
+      this.ui.info(`Project Config: ${projectPath}${state}`);
+      if (projectError) {
+        this.ui.warning(`Project config is invalid: ${projectError}`);
+      }
+      const untrustedKeys = this.configManager.getUntrustedProjectKeys();
+      if (untrustedKeys.length > 0) {
+        this.ui.warning(
+          `Ignoring untrusted project settings: ${untrustedKeys.join(', ')} (run "synpick trust add")`
+        );
+      }
+    }
+    const activeProfile = this.configManager.getActiveProfileName();
+    if (activeProfile) {
+      this.ui.info(`Active Profile: ${activeProfile}${mark('activeProfile')}`);
+    }
+    if (config.account) {
+      const missing = this.configManager.getAccount(config.account) ? '' : ' (does not exist)';
+      this.ui.info(`Account: ${config.account}${missing}${mark('account')}`);
+    }
+    this.ui.info(`API Key: ${this.describeApiKey(config)}${mark('apiKey')}`);
+    this.ui.info(`Base URL: ${config.baseUrl}${mark('baseUrl')}`);
+    this.ui.info(`Anthropic URL: ${config.anthropicBaseUrl}${mark('anthropicBaseUrl')}`);
+    this.ui.info(`Models API: ${config.modelsApiUrl}${mark('modelsApiUrl')}`);
+    this.ui.info(`Cache Duration: ${config.cacheDurationHours} hours${mark('cacheDurationHours')}`);
+    this.ui.info(`Selected Model: ${config.selectedModel || 'None'}${mark('selectedModel')}`);
+    this.ui.info(
+      `Selected Thinking Model: ${config.selectedThinkingModel || 'None'}${mark('selectedThinkingModel')}`
+    );
+    if (Object.values(config.models).some(Boolean)) {
+      this.ui.info(`Tier Models:${mark(...tierKeys)}`);
+      for (const [tier, modelId] of Object.entries(config.models)) {
+        if (modelId) this.ui.info(`  ${tier}: ${modelId}${mark(`models.${tier}`)}`);
+      }
+    }
+    this.ui.info(`First Run Completed: ${config.firstRunCompleted}`);
+    this.ui.info(
+      `Auto-update Claude Code: ${config.autoUpdateClaudeCode ? 'Yes' : 'No'}${mark('autoUpdateClaudeCode')}`
+    );
+    this.ui.info(
+      `Update Check Interval: ${config.claudeCodeUpdateCheckInterval} hours${mark('claudeCodeUpdateCheckInterval')}`
+    );
+    this.ui.info(`Max Token Size: ${config.maxTokenSize}${mark('maxTokenSize')}`);
+    if (config.systemPrompt) {
+      const preview =
+        config.systemPrompt.length > 50
+          ? config.systemPrompt.slice(0, 50) + '...'
+          : config.systemPrompt;
+      this.ui.info(`System Prompt: ${preview}${mark('systemPrompt')}`);
+    }
+  }
+
+  private showConfigSources(sources: Record<string, ConfigValueSource>): void {
+    const variables = this.configManager.getEnvOverrides().variables;
+    const profileName = this.profileName || this.configManager.getActiveProfileName();
+    const width = Math.max(...Object.keys(sources).map(key => key.length));
+
+    this.ui.info('Configuration Sources:');
+    this.ui.info('======================');
+    for (const [key, source] of Object.entries(sources)) {
+      let detail = '';
+      if (source === 'env') {
+        const path = Object.keys(variables).find(p => key === p || key.startsWith(`${p}.`));
+        detail = path ? ` (${variables[path]})` : '';
+      } else if (source === 'project') {
+        detail = ` (${this.configManager.getProjectConfigPath()})`;
+      } else if (source === 'profile' && profileName) {
+        detail = ` (${profileName})`;
+      } else if (source === 'account') {
+        detail = ` (${this.configManager.getSelectedAccountName(this.profileName)})`;
+      }
+      this.ui.info(`  ${key.padEnd(width)}  ${source}${detail}`);
+    }
+  }
+
+  /**
+   * Creates a configuration file
+   *
+   * @param options - Init options
+   * @param options.project - If true, creates a project overlay in the current directory
+   * @param options.force - If true, overwrites an existing project overlay
+   * @returns Promise that resolves when the file is created
+   */
+  async initConfig(options: { project?: boolean; force?: boolean }): Promise<void> {
+    if (!options.project) {
+      await this.configManager.saveConfig(this.configManager.config);
+      this.ui.success('Global configuration written');
+      return;
+    }
+
+    try {
+      const filePath = await this.configManager.initProjectConfig(undefined, options.force);
+      this.ui.success(`Project configuration created: ${filePath}`);
+      this.ui.info('Values in this file override the global configuration in this directory tree.');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ui.error(message);
+      if (!options.force) {
+        this.ui.info('Use --force to overwrite it.');
+      }
+    }
+  }
+
+  /**
+   * Prints the effective value of a configuration key
+   *
+   * @param key - Dotted configuration key, e.g. "models.sonnet"
+   * @param options - Display options
+   * @param options.reveal - If true, prints API keys in full
+   * @returns Promise that resolves when the value is printed
+   */
+  async getConfigValue(key: string, options: { reveal?: boolean } = {}): Promise<void> {
+    try {
+      const value = this.configManager.getConfigValue(key);
+      const source = this.configManager.getConfigSources(this.profileName)[key];
+      const shown = options.reveal ? value : maskConfigCredentials(key, value);
+      console.log(this.formatConfigValue(shown, false));
+      if (source && source !== 'global' && source !== 'default') {
+        this.ui.info(`(from ${source})`);
+      }
+    } catch (error) {
+      this.reportConfigError(error);
+    }
+  }
+
+  /**
+   * Sets a configuration value
+   *
+   * Any key listed by "synpick config keys" can be set; the value is coerced
+   * to the key's type and validated by the config schema.
+   *
+   * @param key - Dotted configuration key, e.g. "models.sonnet"
+   * @param value - Value to set, as typed by the user
+   * @returns Promise that resolves when configuration is set
+   */
+  async setConfig(key: string, value: string): Promise<void> {
+    try {
+      const stored = await this.configManager.setConfigValue(key, value);
+      const shown = this.formatConfigValue(maskConfigCredentials(key, stored), false);
+      this.ui.success(`Configuration updated: ${key} = ${shown}`);
+      this.warnIfOverridden(key);
+    } catch (error) {
+      this.reportConfigError(error);
+    }
+  }
+
+  /**
+   * Restores a configuration key to its default value
+   *
+   * @param key - Dotted configuration key, e.g. "models.sonnet"
+   * @returns Promise that resolves when the key is reset
+   */
+  async unsetConfig(key: string): Promise<void> {
+    try {
+      const value = await this.configManager.unsetConfigValue(key);
+      this.ui.success(
+        value === undefined
+          ? `Configuration updated: ${key} removed`
+          : `Configuration updated: ${key} reset to ${this.formatConfigValue(value, false)}`
+      );
+      this.warnIfOverridden(key);
+    } catch (error) {
+      this.reportConfigError(error);
+    }
+  }
+
+  /**
+   * Lists every configuration key that can be set, with its type and description
+   *
+   * @returns Promise that resolves when the keys are listed
+   */
+  async listConfigKeys(): Promise<void> {
+    const keys = listConfigKeys();
+    const width = Math.max(...keys.map(key => key.path.length));
+
+    this.ui.info('Configuration Keys:');
+    this.ui.info('===================');
+    for (const key of keys) {
+      const defaultValue =
+        key.defaultValue !== undefined && key.defaultValue !== ''
+          ? `, default ${JSON.stringify(key.defaultValue)}`
+          : '';
+      this.ui.info(
+        `  ${key.path.padEnd(width)}  (${describeConfigKeyType(key)}${defaultValue})  ${key.description || ''}`.trimEnd()
+      );
+    }
+  }
+
+  private formatConfigValue(value: unknown, secret: boolean): string {
+    if (value === undefined || value === '') {
+      return '(not set)';
+    }
+    if (secret && typeof value === 'string') {
+      return maskCredential(value);
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  private warnIfOverridden(key: string): void {
+    const source = this.configManager.getConfigSources(this.profileName)[key];
+    if (source === 'project' || source === 'env' || source === 'profile' || source === 'account') {
+      this.ui.warning(`${key} is currently overridden by the ${source} configuration`);
+    }
+  }
+
+  private reportConfigError(error: unknown): void {
+    if (error instanceof ConfigValidationError) {
+      this.ui.error(error.message);
+      if (error.message.startsWith('Unknown configuration key')) {
+        this.ui.info('Run "synpick config keys" to list every settable key.');
+      }
+      return;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    this.ui.error(`Failed to update configuration: ${message}`);
+  }
+
+  /**
+   * Lists config revisions, newest first, with the keys each one changed
+   *
+   * @returns Promise that resolves when the history is shown
+   */
+  async showConfigHistory(): Promise<void> {
+    const revisions = this.configManager.getHistory();
+    if (revisions.length === 0) {
+      this.ui.info('No config history yet. Revisions are recorded whenever the config is saved.');
+      return;
+    }
+
+    this.ui.info('Config History:');
+    this.ui.info('===============');
+    for (let index = revisions.length - 1; index >= 0; index--) {
+      const revision = revisions[index]!;
+      const previous = revisions[index - 1];
+      const current = index === revisions.length - 1 ? ' (current)' : '';
+      this.ui.info(
+        `#${revision.id}  ${new Date(revision.timestamp).toLocaleString()}  ${revision.command}${current}`
+      );
+
+      if (!previous) {
+        this.ui.info('    (oldest recorded revision)');
+        continue;
+      }
+      const changes = diffConfigs(previous.config, revision.config);
+      if (changes.length === 0) {
+        this.ui.info('    (no changes)');
+      }
+      for (const change of changes) {
+        const secret = SENSITIVE_CONFIG_KEYS.includes(change.key.split('.').pop() || '');
+        const before = this.formatConfigValue(
+          maskConfigCredentials(change.key, change.before),
+          secret
+        );
+        const after = this.formatConfigValue(
+          maskConfigCredentials(change.key, change.after),
+          secret
+        );
+        this.ui.info(`    ${change.key}: ${before} → ${after}`);
+      }
+    }
+    this.ui.info('Restore one with "synpick config rollback <id>" or "--steps <n>".');
+  }
+
+  /**
+   * Restores an earlier config revision
+   *
+   * @param id - Revision id from "synpick config history"
+   * @param options - Rollback options
+   * @param options.steps - Number of revisions to step back instead of an id
+   * @returns Promise that resolves when the config is restored
+   */
+  async rollbackConfig(id?: string, options: { steps?: string } = {}): Promise<void> {
+    if (id !== undefined && options.steps !== undefined) {
+      this.ui.error('Give either a revision id or --steps, not both');
+      return;
+    }
+    const value = id ?? options.steps ?? '1';
+    if (!/^\d+$/.test(value)) {
+      this.ui.error(`Invalid ${id !== undefined ? 'revision id' : 'step count'}: ${value}`);
+      return;
+    }
+
+    try {
+      const target = id !== undefined ? { id: Number(value) } : { steps: Number(value) };
+      const revision = await this.configManager.rollbackConfig(target);
+      this.ui.success(
+        `Restored config revision #${revision.id} from ${new Date(revision.timestamp).toLocaleString()}`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ui.error(`Failed to roll back configuration: ${message}`);
+    }
+  }
+
+  /**
+   * Upgrades the config file to the current version and drops invalid fields
+   *
+   * @param options - Migration options
+   * @param options.dryRun - If true, shows the changes without writing them
+   * @returns Promise that resolves when the migration is done or previewed
+   */
+  async migrateConfig(options: { dryRun?: boolean } = {}): Promise<void> {
+    let plan;
+    try {
+      plan = await this.configManager.migrate(options.dryRun);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ui.error(`Failed to migrate configuration: ${message}`);
+      return;
+    }
+
+    if (!plan.changed) {
+      this.ui.success(`Configuration is up to date (version ${plan.after.configVersion})`);
+      return;
+    }
+
+    this.ui.info(`Config file: ${this.configManager.getConfigPath()}`);
+    this.ui.info(`Version: ${plan.fromVersion} → ${plan.after.configVersion}`);
+    for (const migration of plan.applied) {
+      this.ui.info(`  v${migration.version}: ${migration.description}`);
+    }
+    for (const field of plan.dropped) {
+      this.ui.warning(`Dropping invalid value ${field.path}: ${field.message}`);
+    }
+
+    // Only list keys the file had, or that now differ from their default
+    const before = flattenConfig(plan.before);
+    const after = flattenConfig(plan.after);
+    const defaults = flattenConfig(AppConfigSchema.parse({}));
+    const format = (value: unknown): string => JSON.stringify(value);
+    this.ui.info('Changes:');
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      const old = format(before[key]);
+      const next = format(after[key]);
+      if (old === next) continue;
+      if (!(key in before)) {
+        if (next !== format(defaults[key])) this.ui.info(`  + ${key}: ${next}`);
+      } else if (!(key in after)) {
+        this.ui.info(`  - ${key}: ${old}`);
+      } else {
+        this.ui.info(`  ~ ${key}: ${old} → ${next}`);
+      }
+    }
+
+    if (options.dryRun) {
+      this.ui.info('Dry run: no changes written. Run without --dry-run to apply.');
+    } else {
+      this.ui.success(
+        `Configuration migrated (backup: ${this.configManager.getConfigPath()}.backup)`
+      );
+    }
+  }
+
+  /**
+   * Resets all configuration to defaults
+   *
+   * @returns Promise that resolves when configuration is reset
+   */
+  async resetConfig(): Promise<void> {
+    const confirmed = await this.ui.confirm(
+      'Are you sure you want to reset all configuration to defaults?'
+    );
     if (!confirmed) {
       this.ui.info('Configuration reset cancelled');
       return;
@@ -726,27 +2309,17 @@ export class SyntheticClaudeApp {
     this.ui.coloredInfo("Welcome to SynPick! Let's set up your configuration.");
     this.ui.info('==============================================');
 
-    const config = this.configManager.config;
-
     // Get API key if not set
-    let apiKey = config.apiKey;
-    if (!apiKey) {
-      apiKey = await this.ui.askPassword('Enter your Synthetic API key');
-      if (!apiKey) {
-        this.ui.error('API key is required');
+    if (!this.configManager.hasApiKey(this.profileName)) {
+      const saved = await this.setupApiKey();
+      if (!saved) {
         return;
       }
-    }
-
-    // Update config with API key
-    const success = await this.configManager.setApiKey(apiKey);
-    if (!success) {
-      this.ui.error('Failed to save API key');
+      this.ui.coloredSuccess('API key saved');
+    } else if (!(await this.unlockApiKey())) {
       return;
     }
 
-    this.ui.coloredSuccess('API key saved');
-
     // Optional: Test API connection
     const testConnection = await this.ui.confirm('Test API connection?', true);
     if (testConnection) {
@@ -760,19 +2333,75 @@ export class SyntheticClaudeApp {
         this.ui.error(`Connection test failed: ${message}`);
         return;
       }
-    }
+    }
+
+    // Interactive model selection
+    const selectModel = await this.ui.confirm('Select a model now?', true);
+    if (selectModel) {
+      await this.interactiveModelSelection();
+    }
+
+    // Mark first run as completed
+    await this.configManager.markFirstRunCompleted();
+
+    this.ui.coloredSuccess('Setup completed successfully!');
+    this.ui.highlightInfo('You can now run "synpick" to launch Claude Code', ['synpick']);
+  }
+
+  /**
+   * Asks how the API key should be stored and saves it
+   *
+   * @returns Promise resolving to true if a key was saved
+   */
+  private async setupApiKey(): Promise<boolean> {
+    this.ui.info('How should synpick get your Synthetic API key?');
+    this.ui.info('  1) Store it in the config file');
+    this.ui.info('  2) Run a command that prints it (e.g. "pass show synthetic")');
+    this.ui.info('  3) Store it encrypted, unlocked by a passphrase or key file');
+    const choice = (await this.ui.askQuestion('Choose 1-3', '1')).trim();
+
+    try {
+      if (choice === '2') {
+        const command = (await this.ui.askQuestion('Command that prints the API key')).trim();
+        if (!command) {
+          this.ui.error('A command is required');
+          return false;
+        }
+        await this.configManager.setApiKeyCommand(command);
+        // Run it once now so a broken command is caught during setup
+        return await this.unlockApiKey();
+      }
+
+      const apiKey = await this.ui.askPassword('Enter your Synthetic API key');
+      if (!apiKey) {
+        this.ui.error('API key is required');
+        return false;
+      }
+
+      if (choice === '3') {
+        const keyFile = (
+          await this.ui.askQuestion('Key file holding the passphrase (leave empty to type one)')
+        ).trim();
+        const passphrase = keyFile
+          ? await readPassphraseFile(keyFile)
+          : await this.ui.promptPasswordCreate({ prompt: 'Passphrase for the API key' });
+        if (!passphrase) {
+          this.ui.error('A passphrase is required');
+          return false;
+        }
+        return await this.configManager.setEncryptedApiKey(
+          apiKey,
+          passphrase,
+          keyFile || undefined
+        );
+      }
 
-    // Interactive model selection
-    const selectModel = await this.ui.confirm('Select a model now?', true);
-    if (selectModel) {
-      await this.interactiveModelSelection();
+      return await this.configManager.setApiKey(apiKey);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ui.error(`Failed to save API key: ${message}`);
+      return false;
     }
-
-    // Mark first run as completed
-    await this.configManager.markFirstRunCompleted();
-
-    this.ui.coloredSuccess('Setup completed successfully!');
-    this.ui.highlightInfo('You can now run "synpick" to launch Claude Code', ['synpick']);
   }
 
   /**
@@ -819,13 +2448,36 @@ export class SyntheticClaudeApp {
     }
 
     // Check configuration
+    const apiKeySource = this.configManager.getApiKeySource();
+    const apiKeySourceLabels = {
+      plain: 'configured',
+      command: 'configured (from command)',
+      encrypted: 'configured (encrypted)',
+      none: 'missing',
+    };
     this.ui.showStatus(
-      this.configManager.hasApiKey() ? 'success' : 'error',
-      'Configuration: API key ' + (this.configManager.hasApiKey() ? 'configured' : 'missing')
+      apiKeySource !== 'none' ? 'success' : 'error',
+      `Configuration: API key ${apiKeySourceLabels[apiKeySource]}`
     );
+    let apiKeyAvailable = apiKeySource !== 'none';
+    if (apiKeySource === 'command' || apiKeySource === 'encrypted') {
+      try {
+        await this.configManager.resolveApiKey({
+          askPassphrase: () => this.askApiKeyPassphrase(),
+        });
+        this.ui.showStatus(
+          'success',
+          `API key ${apiKeySource === 'command' ? 'command' : 'decryption'}: OK`
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.ui.showStatus('error', `API key: ${message}`);
+        apiKeyAvailable = false;
+      }
+    }
 
     // Check API connection
-    if (this.configManager.hasApiKey()) {
+    if (apiKeyAvailable) {
       try {
         const modelManager = this.getModelManager();
         const models = await modelManager.fetchModels(true);
@@ -837,7 +2489,7 @@ export class SyntheticClaudeApp {
     }
 
     // Configuration summary
-    const config = this.configManager.config;
+    const config = this.getEffectiveConfig();
     this.ui.info(
       `Auto-update Claude Code: ${config.autoUpdateClaudeCode ? 'Enabled' : 'Disabled'}`
     );
@@ -868,6 +2520,10 @@ export class SyntheticClaudeApp {
    * @returns Promise that resolves when cache info is displayed
    */
   async cacheInfo(): Promise<void> {
+    // The cache is keyed by API key, so the key must be known to find the entry
+    if (this.configManager.hasApiKey(this.profileName) && !(await this.unlockApiKey())) {
+      return;
+    }
     const modelManager = this.getModelManager();
     const cacheInfo = await modelManager.getCacheInfo();
 
@@ -875,14 +2531,38 @@ export class SyntheticClaudeApp {
     this.ui.info('==================');
 
     if (cacheInfo.exists) {
-      this.ui.info(`Status: ${cacheInfo.isValid ? 'Valid' : 'Expired'}`);
+      const age = formatCacheAge(cacheInfo.ageMs || 0);
+      const expires = new Date(cacheInfo.expiresTime!).getTime();
+      if (cacheInfo.isValid) {
+        this.ui.info(`Status: Valid (expires in ${formatCacheAge(expires - Date.now())})`);
+      } else {
+        this.ui.info(`Status: Stale (expired ${formatCacheAge(Date.now() - expires)} ago)`);
+        const config = this.getEffectiveConfig();
+        const usable = Date.now() - expires < config.cacheMaxStaleHours * 60 * 60 * 1000;
+        this.ui.info(
+          config.cacheBackgroundRefresh && usable
+            ? 'Used right away and refreshed in the background on the next model lookup'
+            : 'Refreshed on the next model lookup; used only if the API cannot be reached'
+        );
+      }
       this.ui.info(`File: ${cacheInfo.filePath}`);
+      this.ui.info(`Endpoint: ${cacheInfo.endpoint}`);
       this.ui.info(`Size: ${cacheInfo.sizeBytes} bytes`);
       this.ui.info(`Models: ${cacheInfo.modelCount}`);
-      this.ui.info(`Modified: ${cacheInfo.modifiedTime}`);
+      this.ui.info(`Fetched: ${cacheInfo.modifiedTime} (${age} ago)`);
+      this.ui.info(
+        `Conditional refresh: ${cacheInfo.hasValidators ? 'yes (ETag/Last-Modified)' : 'no'}`
+      );
+    } else if (cacheInfo.filePath) {
+      this.ui.info(`Status: No cached models for ${cacheInfo.endpoint} with this API key`);
+      this.ui.info(`File: ${cacheInfo.filePath}`);
     } else {
       this.ui.info('Status: No cache file');
     }
+    if (cacheInfo.entryCount && cacheInfo.entryCount > (cacheInfo.exists ? 1 : 0)) {
+      const others = cacheInfo.entryCount - (cacheInfo.exists ? 1 : 0);
+      this.ui.info(`Other endpoints or API keys cached: ${others}`);
+    }
   }
 
   private async selectModel(preselectedModel?: string): Promise<string | null> {
@@ -890,9 +2570,10 @@ export class SyntheticClaudeApp {
       return preselectedModel;
     }
 
-    // Use saved model if available, otherwise show error
-    if (this.configManager.hasSavedModel()) {
-      return this.configManager.getSavedModel();
+    // Use saved model (from the profile, if any) if available, otherwise show error
+    const config = this.getEffectiveConfig();
+    if (config.selectedModel && config.firstRunCompleted) {
+      return this.configManager.resolveModelAlias(config.selectedModel);
     }
 
     this.ui.error('No model selected. Run "synpick model" to select a model.');
@@ -904,14 +2585,547 @@ export class SyntheticClaudeApp {
       return preselectedThinkingModel;
     }
 
-    // Use saved thinking model if available
-    if (this.configManager.hasSavedThinkingModel()) {
-      return this.configManager.getSavedThinkingModel();
+    // Use saved thinking model (from the profile, if any) if available
+    const config = this.getEffectiveConfig();
+    if (config.selectedThinkingModel && config.firstRunCompleted) {
+      return this.configManager.resolveModelAlias(config.selectedThinkingModel);
     }
 
     return null; // Thinking model is optional
   }
 
+  /**
+   * Lists all configured profiles
+   *
+   * @returns Promise that resolves when profiles are listed
+   */
+  async listProfiles(): Promise<void> {
+    const names = this.configManager.listProfiles();
+    if (names.length === 0) {
+      this.ui.info('No profiles configured. Create one with "synpick profile create <name>".');
+      return;
+    }
+
+    const active = this.configManager.getActiveProfileName();
+    this.ui.info('Profiles:');
+    this.ui.info('=========');
+    for (const name of names) {
+      const profile = this.configManager.getProfile(name)!;
+      const marker = name === active ? '➤' : ' ';
+      const description = profile.description ? ` - ${profile.description}` : '';
+      this.ui.info(`${marker} ${name}${name === active ? ' (active)' : ''}${description}`);
+      this.describeProfile(profile);
+    }
+  }
+
+  private describeProfile(profile: Profile): void {
+    const tiers = Object.entries(profile.models).filter(([, modelId]) => modelId);
+    for (const [tier, modelId] of tiers) {
+      this.ui.info(`    ${tier}: ${modelId}`);
+    }
+    if (profile.thinkingModel) this.ui.info(`    thinking model: ${profile.thinkingModel}`);
+    if (profile.maxTokenSize) this.ui.info(`    max token size: ${profile.maxTokenSize}`);
+    if (profile.systemPrompt) {
+      const preview =
+        profile.systemPrompt.length > 50
+          ? profile.systemPrompt.slice(0, 50) + '...'
+          : profile.systemPrompt;
+      this.ui.info(`    system prompt: ${preview}`);
+    }
+    if (profile.baseUrl) this.ui.info(`    base URL: ${profile.baseUrl}`);
+    if (profile.anthropicBaseUrl) this.ui.info(`    anthropic URL: ${profile.anthropicBaseUrl}`);
+    if (profile.modelsApiUrl) this.ui.info(`    models API: ${profile.modelsApiUrl}`);
+    if (profile.apiKey) this.ui.info(`    API key: ${maskCredential(profile.apiKey)}`);
+    if (profile.account) this.ui.info(`    account: ${profile.account}`);
+  }
+
+  /**
+   * Creates a new profile
+   *
+   * @param name - The profile name
+   * @param options - Profile creation options
+   * @param options.empty - If true, starts from an empty profile instead of the current settings
+   * @returns Promise that resolves when the profile is created
+   */
+  async createProfile(
+    name: string,
+    options: {
+      empty?: boolean;
+      description?: string;
+      apiKey?: string;
+      baseUrl?: string;
+      anthropicBaseUrl?: string;
+      modelsApiUrl?: string;
+      account?: string;
+    } = {}
+  ): Promise<void> {
+    if (options.account && !this.configManager.getAccount(options.account)) {
+      this.ui.error(`Account "${options.account}" does not exist`);
+      return;
+    }
+    const base: Partial<Profile> = options.empty
+      ? {}
+      : profileFromConfig(this.configManager.config);
+
+    try {
+      await this.configManager.createProfile(name, {
+        ...base,
+        description: options.description,
+        apiKey: options.apiKey,
+        baseUrl: options.baseUrl,
+        anthropicBaseUrl: options.anthropicBaseUrl,
+        modelsApiUrl: options.modelsApiUrl,
+        account: options.account,
+      });
+      this.ui.success(`Profile "${name}" created`);
+      this.ui.highlightInfo(
+        `Run "synpick tiers --profile ${name}" to choose its models, or "synpick profile use ${name}" to activate it.`,
+        [`synpick tiers --profile ${name}`, `synpick profile use ${name}`]
+      );
+    } catch (error) {
+      this.reportProfileError(error);
+    }
+  }
+
+  /**
+   * Makes a profile the default for future launches
+   *
+   * @param name - The profile name, or undefined to go back to the base configuration
+   * @returns Promise that resolves when the active profile is changed
+   */
+  async useProfile(name?: string): Promise<void> {
+    try {
+      await this.configManager.setActiveProfile(name);
+      if (name) {
+        this.ui.success(`Now using profile "${name}"`);
+      } else {
+        this.ui.success('No profile active; using the base configuration');
+      }
+    } catch (error) {
+      this.reportProfileError(error);
+    }
+  }
+
+  /**
+   * Deletes a profile
+   *
+   * @param name - The profile name
+   * @returns Promise that resolves when the profile is deleted
+   */
+  async deleteProfile(name: string): Promise<void> {
+    try {
+      await this.configManager.deleteProfile(name);
+      this.ui.success(`Profile "${name}" deleted`);
+    } catch (error) {
+      this.reportProfileError(error);
+    }
+  }
+
+  /**
+   * Copies a profile under a new name
+   *
+   * @param source - The profile to copy
+   * @param target - The name of the new profile
+   * @returns Promise that resolves when the profile is copied
+   */
+  async copyProfile(source: string, target: string): Promise<void> {
+    try {
+      await this.configManager.copyProfile(source, target);
+      this.ui.success(`Profile "${source}" copied to "${target}"`);
+    } catch (error) {
+      this.reportProfileError(error);
+    }
+  }
+
+  /**
+   * Lists trusted project configs and full-install sources
+   *
+   * @returns Promise that resolves when the list is displayed
+   */
+  async listTrust(): Promise<void> {
+    const entries = this.configManager.getTrustStore().list();
+    if (entries.length === 0) {
+      this.ui.info('No trusted files. Trust one with "synpick trust add [path]".');
+      return;
+    }
+
+    const store = this.configManager.getTrustStore();
+    this.ui.info('Trusted files:');
+    this.ui.info('==============');
+    for (const entry of entries) {
+      let state = '';
+      if (!isRemoteSource(entry.path)) {
+        if (!existsSync(entry.path)) {
+          state = ' [missing]';
+        } else if (store.getStatus(entry.path, readFileSync(entry.path, 'utf-8')) === 'changed') {
+          state = ' [changed - trust again to apply]';
+        }
+      }
+      this.ui.info(`  ${entry.path}${state}`);
+      this.ui.info(`    trusted ${new Date(entry.trustedAt).toLocaleString()}`);
+    }
+  }
+
+  /**
+   * Trusts a project config or full-install config with its current content
+   *
+   * A directory trusts its .synpick.json overlay, or else its full-install config.
+   *
+   * @param path - File or directory to trust (default: the project config in use)
+   * @returns Promise that resolves when the file is trusted
+   */
+  async addTrust(path?: string): Promise<void> {
+    try {
+      if (!path) {
+        const trusted = await this.configManager.trustProjectConfig();
+        this.ui.success(`Trusted ${trusted}`);
+        return;
+      }
+
+      let filePath = resolve(path);
+      if (existsSync(filePath) && statSync(filePath).isDirectory()) {
+        const overlay = join(filePath, PROJECT_CONFIG_FILENAME);
+        const found = existsSync(overlay) ? overlay : findConfigInDirectory(filePath);
+        if (!found) {
+          this.ui.error(`No synpick settings found in ${filePath}`);
+          return;
+        }
+        filePath = found;
+      }
+      if (!existsSync(filePath)) {
+        this.ui.error(`File not found: ${filePath}`);
+        return;
+      }
+
+      await this.configManager.getTrustStore().trust(filePath, readFileSync(filePath, 'utf-8'));
+      this.ui.success(`Trusted ${filePath}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ui.error(`Failed to trust: ${message}`);
+    }
+  }
+
+  /**
+   * Revokes trust for a file, or for every trusted file under a directory
+   *
+   * @param path - File, directory or source to revoke (default: the project config in use)
+   * @returns Promise that resolves when trust is revoked
+   */
+  async revokeTrust(path?: string): Promise<void> {
+    const target = path || this.configManager.getProjectConfigPath();
+    if (!target) {
+      this.ui.error('No project config found. Specify a path to revoke.');
+      return;
+    }
+
+    const store = this.configManager.getTrustStore();
+    const resolved = resolve(target);
+    const targets =
+      existsSync(resolved) && statSync(resolved).isDirectory()
+        ? store
+            .list()
+            .map(entry => entry.path)
+            .filter(p => p.startsWith(resolved + sep))
+        : [target];
+
+    try {
+      let revoked = 0;
+      for (const t of targets) {
+        if (await store.revoke(t)) {
+          this.ui.success(`Revoked trust for ${t}`);
+          revoked++;
+        }
+      }
+      if (revoked === 0) {
+        this.ui.warning(`Nothing trusted at ${target}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ui.error(`Failed to revoke trust: ${message}`);
+    }
+  }
+
+  /**
+   * Uses an account for this session (the --account flag)
+   *
+   * @param name - The account name
+   * @returns true if the account exists and was selected
+   */
+  selectAccount(name: string): boolean {
+    try {
+      this.configManager.useAccount(name);
+      this.modelManager = null; // Fetch models with the account's credentials
+      return true;
+    } catch (error) {
+      this.reportAccountError(error);
+      return false;
+    }
+  }
+
+  /**
+   * Lists configured accounts with their key source and endpoints
+   *
+   * @returns Promise that resolves when the accounts are listed
+   */
+  async listAccounts(): Promise<void> {
+    const names = this.configManager.listAccounts();
+    if (names.length === 0) {
+      this.ui.info('No accounts configured. Add one with "synpick account add <name>".');
+      return;
+    }
+
+    const defaultAccount = this.configManager.getDefaultAccountName();
+    const selected = this.configManager.getSelectedAccountName();
+    this.ui.info('Accounts:');
+    this.ui.info('=========');
+    for (const name of names) {
+      const account = this.configManager.getAccount(name)!;
+      const marker = name === selected ? '➤' : ' ';
+      const labels = [
+        name === defaultAccount ? 'default' : '',
+        name === selected && name !== defaultAccount ? 'selected' : '',
+      ].filter(Boolean);
+      const suffix = labels.length > 0 ? ` (${labels.join(', ')})` : '';
+      const description = account.description ? ` - ${account.description}` : '';
+      this.ui.info(`${marker} ${name}${suffix}${description}`);
+      this.ui.info(`    API key: ${this.describeApiKey(account)}`);
+      if (account.baseUrl) this.ui.info(`    base URL: ${account.baseUrl}`);
+      if (account.anthropicBaseUrl) this.ui.info(`    anthropic URL: ${account.anthropicBaseUrl}`);
+      if (account.modelsApiUrl) this.ui.info(`    models API: ${account.modelsApiUrl}`);
+    }
+  }
+
+  /**
+   * Adds an account
+   *
+   * Without --api-key or --api-key-command the key is prompted for. With
+   * --encrypt it is stored encrypted, unlocked by a passphrase or key file.
+   *
+   * @param name - The account name
+   * @param options - Account options
+   * @returns Promise that resolves when the account is added
+   */
+  async addAccount(
+    name: string,
+    options: {
+      description?: string;
+      apiKey?: string;
+      apiKeyCommand?: string;
+      encrypt?: boolean;
+      passphraseFile?: string;
+      baseUrl?: string;
+      anthropicBaseUrl?: string;
+      modelsApiUrl?: string;
+      default?: boolean;
+    } = {}
+  ): Promise<void> {
+    try {
+      let apiKey = options.apiKey;
+      if (!apiKey && !options.apiKeyCommand) {
+        if (!process.stdin.isTTY) {
+          this.ui.error('Give --api-key or --api-key-command when no terminal is attached');
+          return;
+        }
+        apiKey = await this.ui.askPassword(`Synthetic API key for "${name}"`);
+        if (!apiKey) {
+          this.ui.error('API key is required');
+          return;
+        }
+      }
+
+      let encryptedApiKey: string | undefined;
+      if (apiKey && options.encrypt) {
+        const passphrase = options.passphraseFile
+          ? await readPassphraseFile(options.passphraseFile)
+          : await this.ui.promptPasswordCreate({ prompt: 'Passphrase for the API key' });
+        if (!passphrase) {
+          this.ui.error('A passphrase is required');
+          return;
+        }
+        encryptedApiKey = encryptApiKey(apiKey, passphrase);
+        apiKey = undefined;
+      }
+
+      await this.configManager.addAccount(name, {
+        description: options.description,
+        apiKey,
+        apiKeyCommand: options.apiKeyCommand,
+        encryptedApiKey,
+        apiKeyPassphraseFile: encryptedApiKey ? options.passphraseFile : undefined,
+        baseUrl: options.baseUrl,
+        anthropicBaseUrl: options.anthropicBaseUrl,
+        modelsApiUrl: options.modelsApiUrl,
+      });
+      if (options.default) {
+        await this.configManager.setDefaultAccount(name);
+      }
+      this.ui.success(`Account "${name}" added${options.default ? ' as the default' : ''}`);
+      this.ui.info(
+        `Select it with "synpick --account ${name}", "account": "${name}" in .synpick.json, or "synpick profile create <profile> --account ${name}".`
+      );
+    } catch (error) {
+      this.reportAccountError(error);
+    }
+  }
+
+  /**
+   * Removes an account
+   *
+   * @param name - The account name
+   * @returns Promise that resolves when the account is removed
+   */
+  async removeAccount(name: string): Promise<void> {
+    try {
+      await this.configManager.removeAccount(name);
+      this.ui.success(`Account "${name}" removed`);
+    } catch (error) {
+      this.reportAccountError(error);
+    }
+  }
+
+  /**
+   * Shows or changes the default account
+   *
+   * @param name - The account to make the default; omit to show the current one
+   * @param options - Options
+   * @param options.clear - If true, goes back to the base credentials
+   * @returns Promise that resolves when the default is shown or changed
+   */
+  async defaultAccount(name?: string, options: { clear?: boolean } = {}): Promise<void> {
+    if (!name && !options.clear) {
+      const current = this.configManager.getDefaultAccountName();
+      this.ui.info(current ? `Default account: ${current}` : 'No default account');
+      return;
+    }
+    try {
+      await this.configManager.setDefaultAccount(options.clear ? undefined : name);
+      this.ui.success(
+        options.clear
+          ? 'No default account; using the base credentials'
+          : `Default account is now "${name}"`
+      );
+    } catch (error) {
+      this.reportAccountError(error);
+    }
+  }
+
+  /**
+   * Lists model aliases
+   *
+   * With an API key the aliases are checked against the model catalogue, and
+   * those pointing at a model that is no longer offered are flagged.
+   *
+   * @returns Promise that resolves when the aliases are listed
+   */
+  async listModelAliases(): Promise<void> {
+    const aliases = this.configManager.getModelAliases();
+    const names = Object.keys(aliases).sort((a, b) => a.localeCompare(b));
+    if (names.length === 0) {
+      this.ui.info('No model aliases. Add one with "synpick alias add <name> <model>".');
+      return;
+    }
+
+    const catalogue = await this.fetchAliasCatalogue();
+    const missing = catalogue ? names.filter(name => !catalogue.has(aliases[name]!)) : [];
+    this.ui.info('Model aliases:');
+    this.ui.info('==============');
+    for (const name of names) {
+      this.ui.info(`${missing.includes(name) ? '⚠' : ' '} ${name} → ${aliases[name]}`);
+    }
+    if (missing.length > 0) {
+      this.ui.warning(
+        `${missing.join(', ')} ${missing.length === 1 ? 'points' : 'point'} at a model no longer in the model list`
+      );
+    }
+  }
+
+  /**
+   * Adds a model alias
+   *
+   * @param name - The alias, e.g. "fast"
+   * @param modelId - The model ID it stands for
+   * @param options - Options
+   * @param options.force - If true, replaces an existing alias of the same name
+   * @returns Promise that resolves when the alias is added
+   */
+  async addModelAlias(
+    name: string,
+    modelId: string,
+    options: { force?: boolean } = {}
+  ): Promise<void> {
+    try {
+      const target = await this.configManager.addModelAlias(name, modelId, options.force);
+      this.ui.success(`Alias "${name}" → ${target}`);
+
+      const catalogue = await this.fetchAliasCatalogue();
+      if (catalogue && !catalogue.has(target)) {
+        this.ui.warning(`${target} is not in the model list; check the ID with "synpick search"`);
+      }
+    } catch (error) {
+      this.reportModelAliasError(error);
+    }
+  }
+
+  /**
+   * Removes a model alias
+   *
+   * @param name - The alias
+   * @returns Promise that resolves when the alias is removed
+   */
+  async removeModelAlias(name: string): Promise<void> {
+    try {
+      await this.configManager.removeModelAlias(name);
+      this.ui.success(`Alias "${name}" removed`);
+    } catch (error) {
+      this.reportModelAliasError(error);
+    }
+  }
+
+  /**
+   * Gets the IDs in the model catalogue to check aliases against
+   *
+   * @returns The model IDs, or null if there is no usable API key or the models cannot be fetched
+   */
+  private async fetchAliasCatalogue(): Promise<Set<string> | null> {
+    if (!this.configManager.hasApiKey(this.profileName) || !(await this.unlockApiKey())) {
+      return null;
+    }
+    try {
+      const models = await this.getModelManager({ quiet: true }).fetchModels();
+      return new Set(models.map(model => model.id));
+    } catch (error) {
+      log.warn('Could not fetch models to check aliases', { error });
+      return null;
+    }
+  }
+
+  private reportModelAliasError(error: unknown): void {
+    if (error instanceof ModelAliasError) {
+      this.ui.error(error.message);
+      return;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    this.ui.error(`Failed to update model aliases: ${message}`);
+  }
+
+  private reportAccountError(error: unknown): void {
+    if (error instanceof AccountError) {
+      this.ui.error(error.message);
+      return;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    this.ui.error(`Failed to update accounts: ${message}`);
+  }
+
+  private reportProfileError(error: unknown): void {
+    if (error instanceof ProfileError) {
+      this.ui.error(error.message);
+      return;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    this.ui.error(`Failed to update profiles: ${message}`);
+  }
+
   /**
    * Install synpick from local directory to system-wide
    * Builds the project and uses npm link -g for system-wide installation
@@ -1000,13 +3214,26 @@ export class SyntheticClaudeApp {
     }
   }
 
+  /**
+   * Gets the tier models of a launch from the config (or the session profile)
+   *
+   * @param options - Launch options; an explicit --model or --thinking-model wins over the saved tiers
+   * @returns The tier models, with aliases resolved
+   */
+  private getLaunchTierModels(options: LaunchOptions): TierLaunchModels {
+    const config = this.getEffectiveConfig();
+    return {
+      ...resolveTierAliases(config.modelAliases, config.models || {}),
+      ...(options.model ? { default: options.model } : {}),
+      ...(options.thinkingModel ? { thinking: options.thinkingModel } : {}),
+    };
+  }
+
   private async launchClaudeCode(
-    model: string,
-    options: LaunchOptions,
-    thinkingModel?: string | null
+    { model, thinkingModel, tierModels: configModels }: LaunchModels,
+    options: LaunchOptions
   ): Promise<void> {
-    // Get tier models from config if configured
-    const configModels = this.configManager.config.models || {};
+    const config = this.getEffectiveConfig();
     const hasTierModels = Object.values(configModels).some(v => v && v.length > 0);
 
     let launchInfo = '';
@@ -1031,17 +3258,34 @@ export class SyntheticClaudeApp {
       launchInfo = `Launching with ${model}. Use "synpick model" to change model.`;
     }
 
+    const projectPath = this.configManager.getProjectConfigPath();
+    if (projectPath && !this.configManager.getProjectConfigError()) {
+      this.ui.info(`Using project config: ${projectPath}`);
+    }
+    if (this.profileName) {
+      this.ui.info(`Using profile: ${this.profileName}`);
+    }
     this.ui.highlightInfo(launchInfo, hasTierModels ? ['synpick tiers'] : ['synpick model']);
 
+    // Recent models rank higher in searches; failing to record them is not worth stopping for
+    try {
+      await this.configManager.addRecentModels(
+        hasTierModels ? [model, ...Object.values(configModels)] : [model, thinkingModel || '']
+      );
+    } catch (error) {
+      log.warn('Failed to record recent models', { error });
+    }
+
     const result = await this.launcher.launchClaudeCode({
       model,
       thinkingModel: thinkingModel || undefined,
       tierModels: hasTierModels ? configModels : undefined,
       additionalArgs: options.additionalArgs,
-      maxTokenSize: this.configManager.config.maxTokenSize,
-      systemPrompt: this.configManager.config.systemPrompt,
+      maxTokenSize: config.maxTokenSize,
+      systemPrompt: config.systemPrompt,
+      anthropicBaseUrl: config.anthropicBaseUrl,
       env: {
-        ANTHROPIC_AUTH_TOKEN: this.configManager.getApiKey(),
+        ANTHROPIC_AUTH_TOKEN: this.configManager.getApiKey(this.profileName),
       },
     });
 
@@ -17,6 +17,7 @@ export class FullConfigInstaller {
   private configRoot: string;
   private dryRun: boolean = false;
   private confirm: boolean = false;
+  private trusted: boolean = true;
 
   constructor(config: SynpickConfig, configRoot: string = '') {
     this.config = config;
@@ -39,6 +40,17 @@ export class FullConfigInstaller {
     return this;
   }
 
+  /**
+   * Set whether the configuration source is trusted
+   *
+   * Untrusted sources must have scripts, MCP commands and API key changes
+   * confirmed one by one, even in auto-confirm mode.
+   */
+  setTrusted(trusted: boolean): this {
+    this.trusted = trusted;
+    return this;
+  }
+
   /**
    * Execute the full installation
    */
@@ -103,6 +115,13 @@ export class FullConfigInstaller {
       console.log(`  Custom scripts: ${this.config.scripts.length}`);
     }
 
+    if (!this.trusted) {
+      console.log('');
+      console.log('  ⚠️  This configuration source is not trusted.');
+      console.log('     Scripts, MCP commands and API key changes need confirmation.');
+      console.log('     Use "synpick trust add <file>" to trust it.');
+    }
+
     console.log('');
   }
 
@@ -144,7 +163,10 @@ export class FullConfigInstaller {
       await this.runCommand('synpick', ['sysprompt', 'set', this.config.synpick.systemPrompt]);
     }
 
-    if (this.config.synpick.apiKey) {
+    if (
+      this.config.synpick.apiKey &&
+      (await this.confirmUntrusted('Replace your Synthetic API key with the one in this config?'))
+    ) {
       await this.runCommand('synpick', ['config', 'set', 'apiKey', this.config.synpick.apiKey]);
     }
   }
@@ -188,6 +210,16 @@ export class FullConfigInstaller {
     for (const [name, serverConfig] of Object.entries(this.config.mcp)) {
       if (!serverConfig.enabled) continue;
 
+      if (
+        serverConfig.type !== 'builtin' &&
+        !(await this.confirmUntrusted(
+          `Install MCP server ${name} (${this.describeMcp(name, serverConfig)})?`
+        ))
+      ) {
+        console.log(`  Skipping: ${name}`);
+        continue;
+      }
+
       console.log(`  Installing ${name}...`);
 
       switch (serverConfig.type) {
@@ -210,6 +242,25 @@ export class FullConfigInstaller {
     }
   }
 
+  /**
+   * Describe what installing an MCP server will execute
+   */
+  private describeMcp(
+    name: string,
+    config: { type: string; package?: string; url?: string; command?: string; args?: string[] }
+  ): string {
+    switch (config.type) {
+      case 'npm':
+        return `npm install -g ${config.package || name}`;
+      case 'python':
+        return `pip install -U ${config.package || name}`;
+      case 'go':
+        return `go install ${config.url || config.package || name}`;
+      default:
+        return [config.command || name, ...(config.args || [])].join(' ');
+    }
+  }
+
   /**
    * Install an npm-based MCP server
    */
@@ -442,7 +493,7 @@ export class FullConfigInstaller {
     console.log('\nRunning custom scripts...');
 
     for (const script of this.config.scripts) {
-      if (!this.confirm) {
+      if (!this.confirm || !this.trusted) {
         const confirmed = await this.askScriptConfirmation(script);
         if (!confirmed) {
           console.log(`  Skipping: ${script.name}`);
@@ -471,6 +522,31 @@ export class FullConfigInstaller {
     }
   }
 
+  /**
+   * Ask user to confirm a sensitive step from an untrusted source
+   * Without a terminal the step is skipped.
+   */
+  private async confirmUntrusted(question: string): Promise<boolean> {
+    if (this.trusted || this.dryRun) return true;
+
+    if (!process.stdin.isTTY) {
+      console.log(`  ⚠️  Untrusted source, skipped: ${question}`);
+      return false;
+    }
+
+    const readline = (await import('readline')).createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+
+    return new Promise(resolve => {
+      readline.question(`⚠️  ${question} [y/N] `, answer => {
+        readline.close();
+        resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
+      });
+    });
+  }
+
   /**
    * Ask user for script confirmation
    */
@@ -478,6 +554,11 @@ export class FullConfigInstaller {
     name: string;
     description?: string;
   }): Promise<boolean> {
+    if (!this.trusted && !process.stdin.isTTY) {
+      console.log(`  ⚠️  Untrusted source, skipped script: ${script.name}`);
+      return false;
+    }
+
     const readline = (await import('readline')).createInterface({
       input: process.stdin,
       output: process.stdout,
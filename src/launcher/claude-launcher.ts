@@ -9,6 +9,7 @@ export interface LaunchOptions {
   maxTokenSize?: number;
   thinkingModel?: string;
   systemPrompt?: string;
+  anthropicBaseUrl?: string;
 }
 
 export interface TierLaunchModels {
@@ -67,6 +68,7 @@ export class ClaudeLauncher {
    * @param options.env - Additional environment variables
    * @param.options.tierModels - Optional tier-specific model overrides
    * @param options.maxTokenSize - Optional max token size (default: 128000)
+   * @param options.anthropicBaseUrl - Optional Anthropic-compatible endpoint (default: Synthetic)
    * @returns Promise resolving to the launch result
    */
   async launchClaudeCode(options: LaunchOptions): Promise<LaunchResult> {
@@ -145,7 +147,7 @@ export class ClaudeLauncher {
     const defaultModel = this.normalizeModelId(tiers.default || options.model) || '';
 
     // Set Anthropic-compatible endpoint
-    env.ANTHROPIC_BASE_URL = 'https://api.synthetic.new/anthropic';
+    env.ANTHROPIC_BASE_URL = options.anthropicBaseUrl || 'https://api.synthetic.new/anthropic';
 
     // Set tier-specific models, falling back to default tier
     // Normalize all model IDs to ensure they have the hf: prefix
@@ -1,34 +1,93 @@
-import { readFile, writeFile, mkdir, stat, unlink } from 'fs/promises';
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { readFile, mkdir, unlink } from 'fs/promises';
 import { dirname } from 'path';
+import { z } from 'zod';
 import { CacheInfo, ModelInfo } from './types';
 import { ModelInfoImpl } from './info';
+import { withFileLock, writeFileAtomic } from '../utils/file-lock';
+
+/**
+ * Version of the cache file format; files of other versions are rebuilt
+ */
+export const MODEL_CACHE_FORMAT_VERSION = 2;
+
+/**
+ * Number of endpoint and credential combinations kept in one cache file
+ */
+const MAX_CACHE_ENTRIES = 5;
+
+const CacheEntrySchema = z.object({
+  endpoint: z.string().describe('Models endpoint the list came from'),
+  credentialHash: z.string().describe('Hash of the API key the list was fetched with'),
+  fetchedAt: z.string().describe('When the list was last fetched or confirmed (ISO 8601)'),
+  etag: z.string().optional().describe('ETag response header, for If-None-Match'),
+  lastModified: z.string().optional().describe('Last-Modified response header'),
+  count: z.number().int().min(0),
+  checksum: z.string().describe('SHA-256 of the models, to detect corruption'),
+  models: z.array(z.unknown()),
+});
+
+const CacheFileSchema = z.object({
+  formatVersion: z.number().int(),
+  entries: z.record(z.string(), CacheEntrySchema),
+});
+
+type CacheEntry = z.infer<typeof CacheEntrySchema>;
+
+/**
+ * HTTP validators of a cached response, sent back on refresh
+ */
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
 
 export interface ModelCacheOptions {
   cacheFile: string;
   cacheDurationHours: number;
+  /** Models endpoint; lists from different endpoints are cached separately */
+  endpoint?: string;
+  /** API key; lists fetched with different keys are cached separately */
+  apiKey?: string;
 }
 
+/**
+ * Model list cache, with one entry per endpoint and API key
+ *
+ * Entries carry the response validators for conditional requests and a
+ * checksum; an entry that fails its checksum and a file of another format
+ * version are treated as missing, so the next fetch rebuilds them.
+ */
 export class ModelCache {
   private cacheFile: string;
   private cacheDurationMs: number;
+  private endpoint: string;
+  private credentialHash: string;
+  private key: string;
 
   constructor(options: ModelCacheOptions) {
     this.cacheFile = options.cacheFile;
     this.cacheDurationMs = options.cacheDurationHours * 60 * 60 * 1000;
+    this.endpoint = options.endpoint || '';
+    // Only a short hash of the key is stored, never the key itself
+    this.credentialHash = sha256(options.apiKey || '').slice(0, 16);
+    this.key = `${this.endpoint}#${this.credentialHash}`;
   }
 
   async isValid(): Promise<boolean> {
-    try {
-      const stats = await stat(this.cacheFile);
-      const mtime = stats.mtime;
-      const now = new Date();
-      const age = now.getTime() - mtime.getTime();
+    const age = await this.getAge();
+    return age !== undefined && age < this.cacheDurationMs;
+  }
 
-      return age < this.cacheDurationMs;
-    } catch {
-      // File doesn't exist or can't be accessed
-      return false;
-    }
+  /**
+   * Gets the time since the cached list was last fetched or confirmed
+   *
+   * @returns The age in milliseconds, or undefined if nothing is cached
+   */
+  async getAge(): Promise<number | undefined> {
+    const entry = await this.readEntry();
+    return entry ? getEntryAge(entry) : undefined;
   }
 
   async load(): Promise<ModelInfoImpl[]> {
@@ -36,32 +95,77 @@ export class ModelCache {
       return [];
     }
 
-    try {
-      const data = await readFile(this.cacheFile, 'utf-8');
-      const cacheData = JSON.parse(data);
+    return this.loadSnapshot();
+  }
+
+  /**
+   * Loads the cached models even if the cache has expired
+   *
+   * @returns The models of the last saved list, or an empty list if there is none
+   */
+  async loadSnapshot(): Promise<ModelInfoImpl[]> {
+    const entry = await this.readEntry();
+    if (!entry) {
+      return [];
+    }
 
-      const modelsData = cacheData.models || [];
-      return modelsData.map((modelData: ModelInfo) => new ModelInfoImpl(modelData));
+    try {
+      return entry.models.map(modelData => new ModelInfoImpl(modelData as ModelInfo));
     } catch (error) {
       console.error('Error loading cache:', error);
       return [];
     }
   }
 
-  async save(models: ModelInfoImpl[]): Promise<boolean> {
+  /**
+   * Loads the most recently fetched list of the endpoint, whatever API key fetched it
+   *
+   * For when no API key is configured, so the entry of this cache's own key
+   * cannot exist.
+   *
+   * @returns The models and their age in milliseconds, or undefined if the endpoint has none
+   */
+  async loadLatestForEndpoint(): Promise<{ models: ModelInfoImpl[]; age: number } | undefined> {
+    const entry = Object.values(await this.readEntries())
+      .filter(candidate => candidate.endpoint === this.endpoint)
+      .sort((a, b) => b.fetchedAt.localeCompare(a.fetchedAt))[0];
+    if (!entry) {
+      return undefined;
+    }
+
     try {
-      // Ensure parent directory exists
-      const parentDir = dirname(this.cacheFile);
-      await mkdir(parentDir, { recursive: true });
-
-      const cacheData = {
-        models: models.map(model => model.toJSON()),
-        timestamp: new Date().toISOString(),
-        count: models.length,
-      };
+      const models = entry.models.map(modelData => new ModelInfoImpl(modelData as ModelInfo));
+      return { models, age: getEntryAge(entry) };
+    } catch (error) {
+      console.error('Error loading cache:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Gets the validators of the cached response
+   *
+   * @returns The ETag and Last-Modified values, empty if nothing is cached
+   */
+  async getValidators(): Promise<CacheValidators> {
+    const entry = await this.readEntry();
+    return entry ? { etag: entry.etag, lastModified: entry.lastModified } : {};
+  }
 
-      const data = JSON.stringify(cacheData, null, 2);
-      await writeFile(this.cacheFile, data, 'utf-8');
+  async save(models: ModelInfoImpl[], validators: CacheValidators = {}): Promise<boolean> {
+    try {
+      const modelsData = models.map(model => model.toJSON());
+      await this.updateEntries(entries => {
+        entries[this.key] = {
+          endpoint: this.endpoint,
+          credentialHash: this.credentialHash,
+          fetchedAt: new Date().toISOString(),
+          ...validators,
+          count: models.length,
+          checksum: sha256(JSON.stringify(modelsData)),
+          models: modelsData,
+        };
+      });
 
       console.debug(`Cached ${models.length} models to ${this.cacheFile}`);
       return true;
@@ -71,6 +175,28 @@ export class ModelCache {
     }
   }
 
+  /**
+   * Marks the cached list as just fetched, after the API reported it unchanged
+   *
+   * @returns Promise resolving to true if a cached list was updated
+   */
+  async touch(): Promise<boolean> {
+    try {
+      let touched = false;
+      await this.updateEntries(entries => {
+        const entry = entries[this.key];
+        if (entry) {
+          entry.fetchedAt = new Date().toISOString();
+          touched = true;
+        }
+      });
+      return touched;
+    } catch (error) {
+      console.error('Error saving cache:', error);
+      return false;
+    }
+  }
+
   async clear(): Promise<boolean> {
     try {
       await unlink(this.cacheFile);
@@ -84,16 +210,30 @@ export class ModelCache {
 
   async getInfo(): Promise<CacheInfo> {
     try {
-      const stats = await stat(this.cacheFile);
-      const models = await this.load();
+      const data = await readFile(this.cacheFile, 'utf-8');
+      const entries = await this.readEntries();
+      const entry = entries[this.key];
+      const base = {
+        filePath: this.cacheFile,
+        sizeBytes: Buffer.byteLength(data),
+        endpoint: this.endpoint,
+        entryCount: Object.keys(entries).length,
+      };
+      if (!entry) {
+        return { exists: false, ...base };
+      }
 
+      const ageMs = getEntryAge(entry);
+      const fetchedAt = new Date(entry.fetchedAt).getTime();
       return {
         exists: true,
-        filePath: this.cacheFile,
-        modifiedTime: stats.mtime.toISOString(),
-        sizeBytes: stats.size,
-        modelCount: models.length,
-        isValid: await this.isValid(),
+        ...base,
+        modifiedTime: entry.fetchedAt,
+        modelCount: entry.count,
+        isValid: ageMs < this.cacheDurationMs,
+        ageMs,
+        expiresTime: new Date(fetchedAt + this.cacheDurationMs).toISOString(),
+        hasValidators: Boolean(entry.etag || entry.lastModified),
       };
     } catch (error) {
       return {
@@ -102,4 +242,90 @@ export class ModelCache {
       };
     }
   }
+
+  private async readEntry(): Promise<CacheEntry | undefined> {
+    return (await this.readEntries())[this.key];
+  }
+
+  /**
+   * Reads the cache entries, leaving out any that fail their checksum
+   */
+  private async readEntries(): Promise<Record<string, CacheEntry>> {
+    if (!existsSync(this.cacheFile)) {
+      return {};
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await readFile(this.cacheFile, 'utf-8'));
+    } catch {
+      console.warn(`Model cache ${this.cacheFile} is corrupt; it will be rebuilt`);
+      return {};
+    }
+
+    const result = CacheFileSchema.safeParse(parsed);
+    if (!result.success || result.data.formatVersion !== MODEL_CACHE_FORMAT_VERSION) {
+      // Older formats are not keyed by endpoint, so they cannot be reused
+      console.debug(`Model cache ${this.cacheFile} has an unknown format; it will be rebuilt`);
+      return {};
+    }
+
+    const entries: Record<string, CacheEntry> = {};
+    for (const [key, entry] of Object.entries(result.data.entries)) {
+      if (sha256(JSON.stringify(entry.models)) === entry.checksum) {
+        entries[key] = entry;
+      } else {
+        console.warn(`Cached models from ${entry.endpoint} are corrupt; they will be refetched`);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Changes the cache entries under the cache lock, keeping the most recent ones
+   */
+  private async updateEntries(
+    change: (entries: Record<string, CacheEntry>) => void
+  ): Promise<void> {
+    await mkdir(dirname(this.cacheFile), { recursive: true });
+
+    // Another synpick process may be refreshing the cache at the same time
+    await withFileLock(this.cacheFile, async () => {
+      const entries = await this.readEntries();
+      change(entries);
+
+      const kept = Object.entries(entries)
+        .sort(([, a], [, b]) => b.fetchedAt.localeCompare(a.fetchedAt))
+        .slice(0, MAX_CACHE_ENTRIES);
+      const data = { formatVersion: MODEL_CACHE_FORMAT_VERSION, entries: Object.fromEntries(kept) };
+      await writeFileAtomic(this.cacheFile, JSON.stringify(data, null, 2), { mode: 0o644 });
+    });
+  }
+}
+
+function sha256(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function getEntryAge(entry: CacheEntry): number {
+  // An unparseable timestamp makes the entry infinitely old
+  const fetchedAt = new Date(entry.fetchedAt).getTime();
+  return Number.isNaN(fetchedAt) ? Infinity : Math.max(0, Date.now() - fetchedAt);
+}
+
+/**
+ * Formats a cache age for display
+ *
+ * @param ms - The age in milliseconds
+ * @returns e.g. "45 minutes", "3 hours" or "2 days"
+ */
+export function formatCacheAge(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  const [count, unit] =
+    minutes < 60
+      ? [minutes, 'minute']
+      : minutes < 48 * 60
+        ? [Math.floor(minutes / 60), 'hour']
+        : [Math.floor(minutes / (24 * 60)), 'day'];
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
 }
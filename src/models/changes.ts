@@ -0,0 +1,191 @@
+import { existsSync, readFileSync } from 'fs';
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { z } from 'zod';
+import { ModelInfoImpl } from './info';
+import { ModelChangeLogError } from './types';
+import { writeFileAtomic } from '../utils/file-lock';
+
+export const ModelCatalogChangeSchema = z.object({
+  timestamp: z.string().describe('When the change was detected (ISO 8601)'),
+  added: z.array(z.string()).default([]).describe('IDs of models that appeared'),
+  removed: z.array(z.string()).default([]).describe('IDs of models that disappeared'),
+});
+
+export const ModelChangeLogSchema = z.object({
+  changes: z.array(ModelCatalogChangeSchema).default([]),
+  notifiedAt: z
+    .string()
+    .optional()
+    .describe('Time of the last change already reported on launch (ISO 8601)'),
+});
+
+export type ModelCatalogChange = z.infer<typeof ModelCatalogChangeSchema>;
+
+/**
+ * Compares two model catalogues
+ *
+ * @param previous - The earlier models
+ * @param current - The later models
+ * @returns Sorted IDs of the models added and removed
+ */
+export function diffModelCatalogs(
+  previous: ModelInfoImpl[],
+  current: ModelInfoImpl[]
+): { added: string[]; removed: string[] } {
+  const before = new Set(previous.map(model => model.id));
+  const after = new Set(current.map(model => model.id));
+  return {
+    added: [...after].filter(id => !before.has(id)).sort(),
+    removed: [...before].filter(id => !after.has(id)).sort(),
+  };
+}
+
+/**
+ * Combines consecutive changes into their net effect
+ *
+ * A model that was removed and later added back (or the other way round)
+ * only counts as its latest state.
+ *
+ * @param changes - Changes, oldest first
+ * @returns Sorted IDs of the models added and removed overall
+ */
+export function mergeModelChanges(changes: ModelCatalogChange[]): {
+  added: string[];
+  removed: string[];
+} {
+  const state = new Map<string, 'added' | 'removed'>();
+  for (const change of changes) {
+    for (const id of change.added) {
+      if (state.get(id) === 'removed') state.delete(id);
+      else state.set(id, 'added');
+    }
+    for (const id of change.removed) {
+      if (state.get(id) === 'added') state.delete(id);
+      else state.set(id, 'removed');
+    }
+  }
+
+  const ids = (kind: 'added' | 'removed') =>
+    [...state].flatMap(([id, value]) => (value === kind ? [id] : [])).sort();
+  return { added: ids('added'), removed: ids('removed') };
+}
+
+/**
+ * Bounded, persistent log of model catalogue changes
+ *
+ * Each refresh of the model list that adds or removes models is recorded, so
+ * changes can be reported on the next launch and listed later. The oldest
+ * entries are dropped once the limit is reached.
+ */
+export class ModelChangeLog {
+  static readonly DEFAULT_LIMIT = 100;
+
+  private logPath: string;
+  private limit: number;
+  private data: z.infer<typeof ModelChangeLogSchema> | null = null;
+
+  /**
+   * Creates a new ModelChangeLog instance
+   *
+   * @param logPath - Path of the change log JSON file
+   * @param limit - Maximum number of changes kept (default: 100)
+   */
+  constructor(logPath: string, limit = ModelChangeLog.DEFAULT_LIMIT) {
+    this.logPath = logPath;
+    this.limit = limit;
+  }
+
+  /**
+   * Lists the recorded changes
+   *
+   * @param since - Only list changes detected at or after this time
+   * @returns Changes, oldest first
+   */
+  list(since?: Date): ModelCatalogChange[] {
+    const changes = this.load().changes;
+    return since ? changes.filter(change => new Date(change.timestamp) >= since) : [...changes];
+  }
+
+  /**
+   * Lists the changes that have not been reported on launch yet
+   *
+   * @returns Changes, oldest first
+   */
+  listUnnotified(): ModelCatalogChange[] {
+    const notifiedAt = this.load().notifiedAt;
+    return this.list().filter(change => !notifiedAt || change.timestamp > notifiedAt);
+  }
+
+  /**
+   * Records a change, unless nothing was added or removed
+   *
+   * The log file is re-read first so changes written by other synpick
+   * processes are kept.
+   *
+   * @param added - IDs of models that appeared
+   * @param removed - IDs of models that disappeared
+   * @returns Promise resolving to the recorded change, or null if there was none
+   * @throws ModelChangeLogError if the log cannot be written
+   */
+  async record(added: string[], removed: string[]): Promise<ModelCatalogChange | null> {
+    if (added.length === 0 && removed.length === 0) {
+      return null;
+    }
+
+    this.data = null;
+    const data = this.load();
+    const change: ModelCatalogChange = { timestamp: new Date().toISOString(), added, removed };
+    this.data = { ...data, changes: [...data.changes, change].slice(-this.limit) };
+    await this.save();
+    return change;
+  }
+
+  /**
+   * Marks all recorded changes as reported
+   *
+   * @returns Promise that resolves when the log is saved
+   * @throws ModelChangeLogError if the log cannot be written
+   */
+  async markNotified(): Promise<void> {
+    this.data = null;
+    const data = this.load();
+    const latest = data.changes[data.changes.length - 1];
+    if (!latest || latest.timestamp === data.notifiedAt) {
+      return;
+    }
+    this.data = { ...data, notifiedAt: latest.timestamp };
+    await this.save();
+  }
+
+  private load(): z.infer<typeof ModelChangeLogSchema> {
+    if (this.data) {
+      return this.data;
+    }
+
+    try {
+      if (existsSync(this.logPath)) {
+        const result = ModelChangeLogSchema.safeParse(
+          JSON.parse(readFileSync(this.logPath, 'utf-8'))
+        );
+        if (result.success) {
+          this.data = result.data;
+          return this.data;
+        }
+      }
+    } catch {
+      // An unreadable log starts over
+    }
+    this.data = { changes: [] };
+    return this.data;
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await mkdir(dirname(this.logPath), { recursive: true });
+      await writeFileAtomic(this.logPath, JSON.stringify(this.data, null, 2));
+    } catch (error) {
+      throw new ModelChangeLogError(`Failed to save model change log: ${this.logPath}`, error);
+    }
+  }
+}
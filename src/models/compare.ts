@@ -0,0 +1,76 @@
+import { ModelInfoImpl } from './info';
+import {
+  MODEL_COLUMNS,
+  ModelColumn,
+  ModelColumnValue,
+  formatModelColumnValue,
+  getModelColumnValue,
+} from './listing';
+
+/**
+ * How the best value of a comparison row is chosen
+ */
+type BestRule = 'highest' | 'lowest' | 'most';
+
+/**
+ * The rows of a model comparison, and how each one picks its best value
+ */
+const COMPARISON_ROWS: Array<{ column: ModelColumn; best?: BestRule }> = [
+  { column: 'context', best: 'highest' },
+  { column: 'max_output', best: 'highest' },
+  { column: 'price', best: 'lowest' },
+  { column: 'completion_price', best: 'lowest' },
+  { column: 'modalities', best: 'most' },
+  { column: 'features', best: 'most' },
+  { column: 'quantization' },
+  { column: 'thinking' },
+];
+
+export interface ModelComparisonRow {
+  column: ModelColumn;
+  label: string;
+  /** Raw values, one per model */
+  values: ModelColumnValue[];
+  /** Display text, one per model */
+  text: string[];
+  /** Indexes of the models holding the best value (empty when all are equal) */
+  best: number[];
+}
+
+/**
+ * Compares models attribute by attribute
+ *
+ * A row has no best value when it has no ordering (quantization, thinking),
+ * when all models are equal, or when fewer than two models report it.
+ *
+ * @param models - The models to compare, in column order
+ * @returns One row per compared attribute
+ */
+export function compareModels(models: ModelInfoImpl[]): ModelComparisonRow[] {
+  return COMPARISON_ROWS.map(({ column, best }) => {
+    const values = models.map(model => getModelColumnValue(model, column));
+    return {
+      column,
+      label: MODEL_COLUMNS[column].header,
+      values,
+      text: values.map(value => formatModelColumnValue(column, value) || '-'),
+      best: best ? findBest(values, best) : [],
+    };
+  });
+}
+
+function findBest(values: ModelColumnValue[], rule: BestRule): number[] {
+  const scores = values.map(value => {
+    if (rule === 'most') return Array.isArray(value) ? value.length : undefined;
+    if (typeof value !== 'number') return undefined;
+    return rule === 'lowest' ? -value : value;
+  });
+
+  const known = scores.filter((score): score is number => score !== undefined);
+  if (known.length < 2 || known.every(score => score === known[0])) {
+    return [];
+  }
+
+  const top = Math.max(...known);
+  return scores.flatMap((score, index) => (score === top ? [index] : []));
+}
@@ -0,0 +1,284 @@
+import { ModelInfoImpl } from './info';
+import { ModelFilterError } from './types';
+import { getModelPricing, getPricePerMillion } from './pricing';
+import { scoreModel, tokenizeQuery } from './fuzzy';
+import { isThinkingCapable } from './thinking';
+
+/**
+ * A predicate built from a filter expression
+ */
+export type ModelFilter = (model: ModelInfoImpl) => boolean;
+
+/**
+ * A parsed filter expression and the free text it searches for
+ */
+export interface ModelQuery {
+  filter: ModelFilter;
+  /** The plain (non-negated, unstructured) words, for ranking; empty if none */
+  text: string;
+}
+
+type Comparison = '>=' | '<=' | '>' | '<' | '=';
+
+const UNIT_SUFFIXES: Record<string, number> = { k: 1000, m: 1000 * 1000 };
+
+/**
+ * Numeric fields that can be compared, e.g. ctx>=128k or price.prompt<0.5
+ */
+const NUMERIC_FIELDS: Record<string, (model: ModelInfoImpl) => number | undefined> = {
+  ctx: model => model.context_length,
+  context: model => model.context_length,
+  out: model => model.max_output_length,
+  max_output: model => model.max_output_length,
+  created: model => model.created,
+  'price.prompt': model => getPricePerMillion(model, 'prompt'),
+  'price.completion': model => getPricePerMillion(model, 'completion'),
+  'price.cache_read': model => getPricePerMillion(model, 'cacheRead'),
+  'price.cache_write': model => getPricePerMillion(model, 'cacheWrite'),
+  'price.image': model => getModelPricing(model).perImage,
+  'price.request': model => getModelPricing(model).perRequest,
+};
+
+/**
+ * Text fields matched with field:value
+ */
+const TEXT_FIELDS: Record<string, (model: ModelInfoImpl, value: string) => boolean> = {
+  id: (model, value) => model.id.toLowerCase().includes(value),
+  name: (model, value) => model.getModelName().toLowerCase().includes(value),
+  provider: (model, value) => matchesProvider(model, value),
+  modality: (model, value) => includesValue(model.input_modalities, value),
+  output_modality: (model, value) => includesValue(model.output_modalities, value),
+  feature: (model, value) => includesValue(model.supported_features, value),
+  param: (model, value) => includesValue(model.supported_sampling_parameters, value),
+  quant: (model, value) => model.quantization?.toLowerCase() === value,
+  quantization: (model, value) => model.quantization?.toLowerCase() === value,
+  dc: (model, value) =>
+    (model.datacenters || []).some(dc => dc.country_code?.toLowerCase() === value),
+};
+
+/**
+ * Flags that stand on their own, e.g. always_on
+ */
+const FLAGS: Record<string, ModelFilter> = {
+  always_on: model => model.always_on === true,
+  thinking: model => isThinkingCapable(model),
+};
+
+/**
+ * Parses a model filter expression
+ *
+ * Terms are separated by spaces and must all match:
+ * - `field:value` for id, name, provider, modality, output_modality, feature, param, quant, dc
+ * - `field<op>number` for ctx, out, created and price.* (op is >=, <=, >, < or =;
+ *   numbers accept k and m suffixes; token prices are dollars per million tokens,
+ *   price.image and price.request are dollars per image and per request)
+ * - `always_on` and `thinking` flags
+ * - anything else is matched as text against the id, provider and name, fuzzily
+ *   (see scoreModel) so "dpseek" finds DeepSeek; negated text must not appear exactly.
+ *   A prefix that is not a field name is part of the text, so full IDs such as
+ *   hf:deepseek-ai/DeepSeek-V3 work as terms
+ *
+ * Prefix a term with "!" to negate it. Double quotes keep spaces in a value.
+ *
+ * @param expression - The filter expression, e.g. "ctx>=128k feature:tools always_on"
+ * @returns A predicate that tells whether a model matches
+ * @throws ModelFilterError if the expression is invalid
+ */
+export function parseModelFilter(expression: string): ModelFilter {
+  return parseModelQuery(expression).filter;
+}
+
+/**
+ * Parses a model filter expression, keeping its free text for ranking
+ *
+ * @param expression - The filter expression (see parseModelFilter)
+ * @returns The predicate and the plain words of the expression
+ * @throws ModelFilterError if the expression is invalid
+ */
+export function parseModelQuery(expression: string): ModelQuery {
+  const words: string[] = [];
+  const terms = tokenize(expression).map(token => parseTerm(token, words));
+  return { filter: model => terms.every(term => term(model)), text: words.join(' ') };
+}
+
+/**
+ * Filters models with a filter expression
+ *
+ * @param models - The models to filter
+ * @param expression - The filter expression (see parseModelFilter)
+ * @returns The matching models, in their original order
+ * @throws ModelFilterError if the expression is invalid
+ */
+export function filterModels(models: ModelInfoImpl[], expression: string): ModelInfoImpl[] {
+  const filter = parseModelFilter(expression);
+  return models.filter(filter);
+}
+
+function includesValue(values: string[] | undefined, value: string): boolean {
+  return (values || []).some(item => item.toLowerCase() === value);
+}
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quoted = false;
+  let started = false;
+
+  for (const char of expression) {
+    if (char === '"') {
+      quoted = !quoted;
+      started = true;
+    } else if (/\s/.test(char) && !quoted) {
+      if (started) tokens.push(current);
+      current = '';
+      started = false;
+    } else {
+      current += char;
+      started = true;
+    }
+  }
+
+  if (quoted) {
+    throw new ModelFilterError(`Invalid filter: unterminated quote in "${expression}"`);
+  }
+  if (started) tokens.push(current);
+  return tokens;
+}
+
+/**
+ * Parses one term, adding its words to `words` if it is positive free text
+ */
+function parseTerm(token: string, words: string[]): ModelFilter {
+  const negated = token.startsWith('!');
+  const body = negated ? token.slice(1) : token;
+  if (!body) {
+    throw new ModelFilterError('Invalid filter "!": expected a term after "!"');
+  }
+
+  const term = parsePositiveTerm(body, token) ?? parseText(body, negated, words);
+  return negated ? model => !term(model) : term;
+}
+
+function parseText(body: string, negated: boolean, words: string[]): ModelFilter {
+  const lower = body.toLowerCase();
+  if (negated) {
+    return model =>
+      [model.id, model.getProvider(), model.getModelName()].some(text =>
+        text.toLowerCase().includes(lower)
+      );
+  }
+
+  const textWords = tokenizeQuery(lower);
+  words.push(...textWords);
+  return model => scoreModel(model, textWords) !== null;
+}
+
+/**
+ * Parses a flag, comparison or field:value term; returns null for free text
+ */
+function parsePositiveTerm(body: string, token: string): ModelFilter | null {
+  const lower = body.toLowerCase();
+
+  const flag = FLAGS[lower];
+  if (flag) {
+    return flag;
+  }
+
+  const comparison = /^([a-z_.]+)(>=|<=|>|<|=)(.*)$/.exec(lower);
+  if (comparison) {
+    const [, field = '', op = '=', value = ''] = comparison;
+    const getValue = NUMERIC_FIELDS[field];
+    if (!getValue) {
+      throw new ModelFilterError(
+        `Invalid filter "${token}": "${field}" cannot be compared; ` +
+          `numeric fields are ${Object.keys(NUMERIC_FIELDS).join(', ')}`
+      );
+    }
+
+    const expected = parseNumber(value, token);
+    return model => {
+      const actual = getValue(model);
+      return actual !== undefined && compare(actual, op as Comparison, expected);
+    };
+  }
+
+  const colon = lower.indexOf(':');
+  if (colon > 0) {
+    const field = lower.slice(0, colon);
+    const value = lower.slice(colon + 1);
+    if (NUMERIC_FIELDS[field]) {
+      throw new ModelFilterError(
+        `Invalid filter "${token}": "${field}" is numeric; ` +
+          `use a comparison such as ${field}>=${value || '128k'}`
+      );
+    }
+    const matches = TEXT_FIELDS[field];
+    if (!matches) {
+      // Not a field, e.g. the hf: prefix of a model ID
+      return null;
+    }
+    if (!value) {
+      throw new ModelFilterError(`Invalid filter "${token}": missing a value after "${field}:"`);
+    }
+    return model => matches(model, value);
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether a model comes from a provider, as the provider: filter does
+ *
+ * @param model - The model
+ * @param provider - Part of the provider, owner or Hugging Face organization, lowercase
+ * @returns true if any of them contains the value
+ */
+export function matchesProvider(model: ModelInfoImpl, provider: string): boolean {
+  return [model.getProvider(), model.owned_by, model.hugging_face_id?.split('/')[0]].some(text =>
+    text?.toLowerCase().includes(provider)
+  );
+}
+
+/**
+ * Parses a number as filter comparisons accept it, e.g. 128k or 0.5
+ *
+ * Suffixes are decimal (k = 1,000, m = 1,000,000), so 128k also matches models
+ * that report 128,000 tokens of context rather than 131,072.
+ *
+ * @param value - The number, lowercase
+ * @returns The number, or undefined if the value is not one
+ */
+export function parseFilterNumber(value: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?|\.\d+)([km]?)$/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, digits = '', suffix = ''] = match;
+  return Number(digits) * (UNIT_SUFFIXES[suffix] ?? 1);
+}
+
+function parseNumber(value: string, token: string): number {
+  const number = parseFilterNumber(value);
+  if (number === undefined) {
+    throw new ModelFilterError(
+      `Invalid filter "${token}": expected a number such as 128k or 0.5, got "${value}"`
+    );
+  }
+  return number;
+}
+
+function compare(actual: number, op: Comparison, expected: number): boolean {
+  switch (op) {
+    case '>=':
+      return actual >= expected;
+    case '<=':
+      return actual <= expected;
+    case '>':
+      return actual > expected;
+    case '<':
+      return actual < expected;
+    case '=':
+      return actual === expected;
+  }
+}
@@ -0,0 +1,219 @@
+import { ModelInfoImpl } from './info';
+
+/**
+ * A half-open character range [start, end) in a piece of text
+ */
+export type MatchRange = [number, number];
+
+export interface FuzzyRankOptions {
+  /** Recently used model IDs, most recent first; they get a boost */
+  recentModels?: string[];
+}
+
+/**
+ * How well a query word matched a piece of text, best first
+ */
+const MATCH_SCORES = { prefix: 100, substring: 70, typo: 40, subsequence: 25 } as const;
+
+/**
+ * Weights of the fields a word can match; a name prefix beats a provider match
+ */
+const FIELD_WEIGHTS = { name: 1, id: 0.8, provider: 0.5 } as const;
+
+const RECENT_BOOST = 30;
+
+interface WordMatch {
+  score: number;
+  ranges: MatchRange[];
+}
+
+/**
+ * Splits a search query into lower-cased words
+ *
+ * @param query - The query
+ * @returns The words, without empty ones
+ */
+export function tokenizeQuery(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Scores how well a model matches every word of a query
+ *
+ * Each word may match the model name, ID or provider as a word prefix, a
+ * substring, a near miss with one or two typos, or its letters in order
+ * ("dpseek" for "deepseek"). Words match in any order.
+ *
+ * @param model - The model
+ * @param words - The query words (see tokenizeQuery)
+ * @returns The score, or null if some word does not match at all
+ */
+export function scoreModel(model: ModelInfoImpl, words: string[]): number | null {
+  const fields = {
+    name: getShortName(model).toLowerCase(),
+    id: model.id.toLowerCase(),
+    provider: [model.getProvider(), model.owned_by, model.hugging_face_id?.split('/')[0]]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase(),
+  };
+
+  let total = 0;
+  for (const word of words) {
+    let best = 0;
+    for (const [field, text] of Object.entries(fields) as Array<[keyof typeof fields, string]>) {
+      const match = matchWord(text, word);
+      if (match) best = Math.max(best, match.score * FIELD_WEIGHTS[field]);
+    }
+    if (best === 0) return null;
+    total += best;
+  }
+  return total;
+}
+
+/**
+ * Ranks the models that match a query, best first
+ *
+ * Recently used models get a boost that shrinks with age. Ties are broken by ID.
+ *
+ * @param models - The models to rank
+ * @param query - The query, e.g. "qwen coder"
+ * @param options - Ranking options
+ * @returns The matching models, best first; all models by ID for an empty query
+ */
+export function rankModels(
+  models: ModelInfoImpl[],
+  query: string,
+  options: FuzzyRankOptions = {}
+): ModelInfoImpl[] {
+  const words = tokenizeQuery(query);
+  const recent = options.recentModels || [];
+  const scored: Array<{ model: ModelInfoImpl; score: number }> = [];
+
+  for (const model of models) {
+    const score = words.length > 0 ? scoreModel(model, words) : 0;
+    if (score === null) continue;
+
+    const age = recent.indexOf(model.id);
+    const boost = age === -1 ? 0 : RECENT_BOOST * (1 - age / recent.length);
+    scored.push({ model, score: score + boost });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.model.id.localeCompare(b.model.id))
+    .map(item => item.model);
+}
+
+/**
+ * Finds the characters of a text that a query matched, for highlighting
+ *
+ * @param text - The displayed text, e.g. the model's display name
+ * @param query - The query
+ * @returns Sorted, merged ranges of matched characters
+ */
+export function getMatchRanges(text: string, query: string): MatchRange[] {
+  const lower = text.toLowerCase();
+  const ranges = tokenizeQuery(query).flatMap(word => matchWord(lower, word)?.ranges || []);
+
+  const merged: MatchRange[] = [];
+  for (const [start, end] of ranges.sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Gets the model name without provider prefix or organization
+ */
+function getShortName(model: ModelInfoImpl): string {
+  const name = model.getModelName();
+  return name.slice(name.lastIndexOf('/') + 1);
+}
+
+/**
+ * Matches one lower-cased word against lower-cased text
+ */
+function matchWord(text: string, word: string): WordMatch | null {
+  const index = text.indexOf(word);
+  if (index !== -1) {
+    const atWordStart = index === 0 || !/[a-z0-9]/.test(text[index - 1]!);
+    return {
+      score: atWordStart ? MATCH_SCORES.prefix : MATCH_SCORES.substring,
+      ranges: [[index, index + word.length]],
+    };
+  }
+
+  const maxTypos = word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+  const segments = [...text.matchAll(/[a-z0-9]+/g)];
+
+  if (maxTypos > 0) {
+    for (const segment of segments) {
+      const start = segment.index!;
+      // Compare against the segment's prefixes around the word's length
+      for (const length of [word.length, word.length - 1, word.length + 1]) {
+        if (length <= 0 || length > segment[0].length) continue;
+        if (editDistance(word, segment[0].slice(0, length)) <= maxTypos) {
+          return { score: MATCH_SCORES.typo, ranges: [[start, start + length]] };
+        }
+      }
+    }
+  }
+
+  if (word.length >= 3) {
+    for (const segment of segments) {
+      const positions = subsequencePositions(segment[0], word);
+      if (positions) {
+        const start = segment.index!;
+        return {
+          score: MATCH_SCORES.subsequence,
+          ranges: positions.map(position => [start + position, start + position + 1]),
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Finds the word's letters in order within a segment starting with the same letter
+ */
+function subsequencePositions(segment: string, word: string): number[] | null {
+  if (segment[0] !== word[0]) return null;
+
+  const positions: number[] = [];
+  let from = 0;
+  for (const char of word) {
+    const position = segment.indexOf(char, from);
+    if (position === -1) return null;
+    positions.push(position);
+    from = position + 1;
+  }
+  return positions;
+}
+
+/**
+ * Optimal string alignment distance: edits, with adjacent swaps counting as one
+ */
+function editDistance(a: string, b: string): number {
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let best = Math.min(rows[i - 1]![j]! + 1, rows[i]![j - 1]! + 1, rows[i - 1]![j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        best = Math.min(best, rows[i - 2]![j - 2]! + 1);
+      }
+      rows[i]![j] = best;
+    }
+  }
+  return rows[a.length]![b.length]!;
+}
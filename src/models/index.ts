@@ -1,4 +1,16 @@
 export * from './types';
 export * from './info';
 export * from './cache';
+export * from './changes';
+export * from './pricing';
+export * from './fuzzy';
+export * from './filter';
+export * from './listing';
+export * from './lookup';
+export * from './compare';
+export * from './replacements';
+export * from './sections';
+export * from './recommend';
+export * from './probe';
+export * from './thinking';
 export * from './manager';
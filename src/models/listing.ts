@@ -0,0 +1,228 @@
+import { ModelInfoImpl } from './info';
+import { ModelInfo, ModelListingError } from './types';
+import { getPricePerMillion } from './pricing';
+import { isThinkingCapable } from './thinking';
+
+/**
+ * Keys that model listings can be sorted by
+ */
+export const MODEL_SORT_KEYS = ['id', 'name', 'provider', 'context', 'price', 'created'] as const;
+
+export type ModelSortKey = (typeof MODEL_SORT_KEYS)[number];
+
+/**
+ * Output formats for model listings
+ */
+export const MODEL_OUTPUT_FORMATS = ['table', 'json', 'csv', 'ids'] as const;
+
+export type ModelOutputFormat = (typeof MODEL_OUTPUT_FORMATS)[number];
+
+export interface ModelSortOptions {
+  /** Sort key (default: id) */
+  sort?: ModelSortKey;
+  /** Reverse the order; models missing the sort value stay last */
+  reverse?: boolean;
+}
+
+export type ModelColumnValue = string | number | boolean | string[] | undefined;
+
+interface ModelColumnDefinition {
+  header: string;
+  value: (model: ModelInfoImpl) => ModelColumnValue;
+}
+
+/**
+ * Columns available to --columns, in the order they are documented
+ */
+export const MODEL_COLUMNS = {
+  id: { header: 'ID', value: model => model.id },
+  name: { header: 'Name', value: model => model.getModelName() },
+  provider: { header: 'Provider', value: model => model.getProvider() },
+  context: { header: 'Context', value: model => model.context_length },
+  max_output: { header: 'Max Output', value: model => model.max_output_length },
+  price: { header: 'Prompt $/M', value: model => getPricePerMillion(model, 'prompt') },
+  completion_price: {
+    header: 'Completion $/M',
+    value: model => getPricePerMillion(model, 'completion'),
+  },
+  quantization: { header: 'Quantization', value: model => model.quantization },
+  modalities: { header: 'Modalities', value: model => model.input_modalities },
+  features: { header: 'Features', value: model => model.supported_features },
+  always_on: { header: 'Always On', value: model => model.always_on },
+  thinking: { header: 'Thinking', value: model => isThinkingCapable(model) },
+  created: { header: 'Created', value: model => model.created },
+} satisfies Record<string, ModelColumnDefinition>;
+
+export type ModelColumn = keyof typeof MODEL_COLUMNS;
+
+/**
+ * Columns used by csv output, and by table output once --columns is given
+ */
+export const DEFAULT_MODEL_COLUMNS: ModelColumn[] = ['id', 'provider', 'context', 'price'];
+
+const SORT_VALUES: Record<ModelSortKey, (model: ModelInfoImpl) => string | number | undefined> = {
+  id: model => model.id,
+  name: model => model.getModelName(),
+  provider: model => model.getProvider(),
+  context: model => model.context_length,
+  price: model => getPricePerMillion(model, 'prompt'),
+  created: model => model.created,
+};
+
+/**
+ * Checks a --sort value
+ *
+ * @param value - The value given on the command line
+ * @returns The sort key
+ * @throws ModelListingError if the key is not one of MODEL_SORT_KEYS
+ */
+export function parseModelSortKey(value: string): ModelSortKey {
+  const key = value.toLowerCase();
+  if (!(MODEL_SORT_KEYS as readonly string[]).includes(key)) {
+    throw new ModelListingError(
+      `Invalid sort key "${value}". Use one of: ${MODEL_SORT_KEYS.join(', ')}`
+    );
+  }
+  return key as ModelSortKey;
+}
+
+/**
+ * Checks a --format value
+ *
+ * @param value - The value given on the command line
+ * @returns The output format
+ * @throws ModelListingError if the format is not one of MODEL_OUTPUT_FORMATS
+ */
+export function parseModelOutputFormat(value: string): ModelOutputFormat {
+  const format = value.toLowerCase();
+  if (!(MODEL_OUTPUT_FORMATS as readonly string[]).includes(format)) {
+    throw new ModelListingError(
+      `Invalid format "${value}". Use one of: ${MODEL_OUTPUT_FORMATS.join(', ')}`
+    );
+  }
+  return format as ModelOutputFormat;
+}
+
+/**
+ * Parses a comma-separated --columns value
+ *
+ * @param value - e.g. "id,context,price"
+ * @returns The columns, in the given order
+ * @throws ModelListingError if a column is unknown or none are given
+ */
+export function parseModelColumns(value: string): ModelColumn[] {
+  const columns = value
+    .split(',')
+    .map(column => column.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (columns.length === 0) {
+    throw new ModelListingError('No columns given');
+  }
+
+  for (const column of columns) {
+    if (!(column in MODEL_COLUMNS)) {
+      throw new ModelListingError(
+        `Unknown column "${column}". Available columns: ${Object.keys(MODEL_COLUMNS).join(', ')}`
+      );
+    }
+  }
+  return columns as ModelColumn[];
+}
+
+/**
+ * Sorts models for display
+ *
+ * Ties are broken by model ID so the order is stable between runs.
+ *
+ * @param models - The models to sort
+ * @param options - Sort key and direction
+ * @returns A new, sorted array
+ */
+export function sortModels(
+  models: ModelInfoImpl[],
+  options: ModelSortOptions = {}
+): ModelInfoImpl[] {
+  const getValue = SORT_VALUES[options.sort || 'id'];
+  const direction = options.reverse ? -1 : 1;
+
+  return [...models].sort((a, b) => {
+    const left = getValue(a);
+    const right = getValue(b);
+
+    if (left === undefined || right === undefined) {
+      if (left !== right) return left === undefined ? 1 : -1;
+    } else if (left !== right) {
+      const order =
+        typeof left === 'number' && typeof right === 'number'
+          ? left - right
+          : String(left).localeCompare(String(right));
+      if (order !== 0) return order * direction;
+    }
+    return a.id.localeCompare(b.id) * direction;
+  });
+}
+
+/**
+ * Gets a column's value for a model
+ *
+ * @param model - The model
+ * @param column - The column
+ * @returns The raw value, as used in JSON output
+ */
+export function getModelColumnValue(model: ModelInfoImpl, column: ModelColumn): ModelColumnValue {
+  return MODEL_COLUMNS[column].value(model);
+}
+
+/**
+ * Formats a column value as text for tables and csv
+ *
+ * @param column - The column
+ * @param value - The raw value
+ * @returns The text, or an empty string for missing values
+ */
+export function formatModelColumnValue(column: ModelColumn, value: ModelColumnValue): string {
+  if (value === undefined) return '';
+  if (Array.isArray(value)) return value.join(' ');
+  if (column === 'created' && typeof value === 'number') {
+    return new Date(value * 1000).toISOString().slice(0, 10);
+  }
+  return String(value);
+}
+
+/**
+ * Formats models as a JSON array
+ *
+ * @param models - The models
+ * @param columns - Optional columns; without them each model is written in full
+ * @returns Pretty-printed JSON
+ */
+export function formatModelsJson(models: ModelInfoImpl[], columns?: ModelColumn[]): string {
+  const data: Array<ModelInfo | Record<string, ModelColumnValue>> = models.map(model =>
+    columns
+      ? Object.fromEntries(columns.map(column => [column, getModelColumnValue(model, column)]))
+      : model.toJSON()
+  );
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Formats models as CSV with a header row
+ *
+ * @param models - The models
+ * @param columns - The columns to write
+ * @returns CSV text (RFC 4180 quoting) without a trailing newline
+ */
+export function formatModelsCsv(models: ModelInfoImpl[], columns: ModelColumn[]): string {
+  const rows = [
+    columns,
+    ...models.map(model =>
+      columns.map(column => formatModelColumnValue(column, getModelColumnValue(model, column)))
+    ),
+  ];
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\n');
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
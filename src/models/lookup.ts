@@ -0,0 +1,68 @@
+import { ModelInfoImpl } from './info';
+import { rankModels, scoreModel, tokenizeQuery } from './fuzzy';
+
+/**
+ * How many times the second best score the best fuzzy match needs to win outright
+ */
+const CLEAR_LEAD = 2;
+
+/**
+ * Gets the names a model can be referred to by besides its full ID
+ *
+ * These are the ID without its provider prefix (e.g. "deepseek-ai/DeepSeek-V3"
+ * for "hf:deepseek-ai/DeepSeek-V3"), the Hugging Face ID, the display name and
+ * the OpenRouter slug.
+ *
+ * @param model - The model
+ * @returns Lower-cased aliases
+ */
+export function getModelAliases(model: ModelInfoImpl): string[] {
+  const aliases = [
+    model.id.includes(':') ? model.id.slice(model.id.indexOf(':') + 1) : undefined,
+    model.hugging_face_id,
+    model.name,
+    model.openrouter?.slug,
+  ];
+  return aliases.filter((alias): alias is string => !!alias).map(alias => alias.toLowerCase());
+}
+
+/**
+ * Finds the models a user-typed reference could mean
+ *
+ * An exact ID wins, then a case-insensitive ID or alias, then a fuzzy match
+ * as search ranks them (see rankModels), so "dpseek v3" finds DeepSeek-V3.
+ * A fuzzy match is only returned alone if it is the single hit or scores
+ * clearly higher than the next one; otherwise all hits are returned, best first.
+ *
+ * @param models - The models to search
+ * @param query - An ID, alias or a few words of the name
+ * @returns The matching models, best kind of match only
+ */
+export function findModelMatches(models: ModelInfoImpl[], query: string): ModelInfoImpl[] {
+  const exact = models.filter(model => model.id === query);
+  if (exact.length > 0) {
+    return exact;
+  }
+
+  const lower = query.trim().toLowerCase();
+  if (!lower) {
+    return [];
+  }
+
+  const aliased = models.filter(
+    model => model.id.toLowerCase() === lower || getModelAliases(model).includes(lower)
+  );
+  if (aliased.length > 0) {
+    return aliased;
+  }
+
+  const ranked = rankModels(models, lower);
+  const [best, next] = ranked;
+  if (best && next) {
+    const words = tokenizeQuery(lower);
+    if (scoreModel(best, words)! >= scoreModel(next, words)! * CLEAR_LEAD) {
+      return [best];
+    }
+  }
+  return ranked;
+}
@@ -1,7 +1,12 @@
 import axios, { AxiosResponse } from 'axios';
 import { ApiModelsResponse, ApiError, CacheInfo } from './types';
 import { ModelInfoImpl } from './info';
-import { ModelCache } from './cache';
+import { CacheValidators, ModelCache, formatCacheAge } from './cache';
+import { ModelCatalogChange, ModelChangeLog, diffModelCatalogs } from './changes';
+import { parseModelQuery } from './filter';
+import { rankModels } from './fuzzy';
+import { ModelSortOptions, sortModels } from './listing';
+import { findModelMatches } from './lookup';
 
 export interface ModelManagerOptions {
   apiKey: string;
@@ -10,6 +15,28 @@ export interface ModelManagerOptions {
   cacheDurationHours?: number;
   /** API request timeout in milliseconds (default: 30000) */
   apiTimeoutMs?: number;
+  /** If true, does not print progress messages (for machine-readable output) */
+  quiet?: boolean;
+  /** Path of the model change log; changes are not tracked without one */
+  changeLogFile?: string;
+  /** Serve an expired cache right away and refresh it in the background (default: false) */
+  backgroundRefresh?: boolean;
+  /** How long after expiring a cache may still be served while refreshing (default: 168) */
+  maxStaleHours?: number;
+}
+
+export interface ModelSearchOptions extends ModelSortOptions {
+  /** Recently used model IDs, most recent first; they rank higher */
+  recentModels?: string[];
+}
+
+type ApiFetchResult =
+  | { notModified: true }
+  | { notModified: false; models: ModelInfoImpl[]; validators: CacheValidators };
+
+function readHeader(response: AxiosResponse, name: string): string | undefined {
+  const value: unknown = response.headers?.[name];
+  return typeof value === 'string' && value ? value : undefined;
 }
 
 export class ModelManager {
@@ -17,6 +44,11 @@ export class ModelManager {
   private modelsApiUrl: string;
   private cache: ModelCache;
   private apiTimeoutMs: number;
+  private quiet: boolean;
+  private changeLog: ModelChangeLog | null;
+  private backgroundRefresh: boolean;
+  private maxStaleMs: number;
+  private pendingRefresh: Promise<void> | null = null;
 
   /**
    * Creates a new ModelManager instance
@@ -27,14 +59,25 @@ export class ModelManager {
    * @param options.cacheFile - Path to the cache file
    * @param options.cacheDurationHours - Cache duration in hours (default: 24)
    * @param options.apiTimeoutMs - API request timeout in milliseconds (default: 30000)
+   * @param options.quiet - If true, does not print progress messages
+   * @param options.changeLogFile - Path of the model change log (optional)
+   * @param options.backgroundRefresh - If true, serves an expired cache while refreshing it
+   * @param options.maxStaleHours - Hours after expiry that a cache may still be served (default: 168)
    */
   constructor(options: ModelManagerOptions) {
     this.apiKey = options.apiKey;
     this.modelsApiUrl = options.modelsApiUrl;
     this.apiTimeoutMs = options.apiTimeoutMs || 30000;
+    this.quiet = options.quiet || false;
+    this.changeLog = options.changeLogFile ? new ModelChangeLog(options.changeLogFile) : null;
+    this.backgroundRefresh = options.backgroundRefresh || false;
+    this.maxStaleMs =
+      ((options.cacheDurationHours || 24) + (options.maxStaleHours ?? 168)) * 60 * 60 * 1000;
     this.cache = new ModelCache({
       cacheFile: options.cacheFile,
       cacheDurationHours: options.cacheDurationHours || 24,
+      endpoint: options.modelsApiUrl,
+      apiKey: options.apiKey,
     });
   }
 
@@ -42,27 +85,66 @@ export class ModelManager {
    * Fetches models from the API or cache
    *
    * Uses cached models if available and valid, otherwise fetches from API.
+   * Models added or removed since the previous cached list are recorded in the
+   * change log.
+   *
+   * With background refresh enabled, a cache that expired less than
+   * maxStaleHours ago is returned right away and refreshed without waiting.
+   * If the API cannot be reached, or no API key is configured, an expired cache
+   * is returned with a warning.
    *
    * @param forceRefresh - If true, bypasses cache and fetches from API
    * @returns Promise resolving to the list of models
+   * @throws ApiError if the API fails and there is no cached list to fall back to
    */
   async fetchModels(forceRefresh = false): Promise<ModelInfoImpl[]> {
     if (!forceRefresh && (await this.cache.isValid())) {
-      console.info('Loading models from cache');
+      this.progress('Loading models from cache');
       return this.cache.load();
     }
 
     if (!this.apiKey) {
-      console.warn('No API key configured');
-      return [];
+      // The cache is keyed by API key, so fall back to any key's list of this endpoint
+      const stale = await this.cache.loadLatestForEndpoint();
+      if (!stale || stale.models.length === 0) {
+        console.warn('No API key configured');
+        return [];
+      }
+      console.warn(
+        `No API key configured. Using cached models from ${formatCacheAge(stale.age)} ago.`
+      );
+      return stale.models;
+    }
+
+    if (!forceRefresh && this.backgroundRefresh) {
+      const age = await this.cache.getAge();
+      const stale =
+        age !== undefined && age < this.maxStaleMs ? await this.cache.loadSnapshot() : [];
+      if (stale.length > 0) {
+        this.progress('Loading models from cache (refreshing in the background)');
+        this.refreshInBackground();
+        return stale;
+      }
     }
 
-    console.info('Fetching models from API');
-    const models = await this.fetchFromApi();
+    this.progress('Fetching models from API');
+    let models: ModelInfoImpl[];
+    try {
+      models = await this.refresh();
+    } catch (error) {
+      const stale = error instanceof ApiError ? await this.cache.loadSnapshot() : [];
+      if (stale.length === 0) {
+        throw error;
+      }
+      const age = await this.cache.getAge();
+      console.warn(
+        `${(error as Error).message}. Using cached models from ${formatCacheAge(age || 0)} ago.`
+      );
+      return stale;
+    }
 
     if (models.length > 0) {
-      await this.cache.save(models);
-      console.info(`Fetched ${models.length} models`);
+      this.progress(`Fetched ${models.length} models`);
     } else {
       console.warn('No models received from API');
     }
@@ -70,18 +152,134 @@ export class ModelManager {
     return models;
   }
 
-  private async fetchFromApi(): Promise<ModelInfoImpl[]> {
+  /**
+   * Gets the cached models without contacting the API, even if the cache has expired
+   *
+   * @returns Promise resolving to the cached models, or an empty list if nothing is cached
+   */
+  async getCachedModels(): Promise<ModelInfoImpl[]> {
+    return this.cache.loadSnapshot();
+  }
+
+  /**
+   * Waits for a background refresh started by fetchModels, if any
+   *
+   * @returns Promise that resolves when no refresh is running; refresh errors are ignored
+   */
+  async waitForBackgroundRefresh(): Promise<void> {
+    await this.pendingRefresh;
+  }
+
+  /**
+   * Lists the recorded model catalogue changes
+   *
+   * @param since - Only list changes detected at or after this time
+   * @returns Changes, oldest first; empty if changes are not tracked
+   */
+  getModelChanges(since?: Date): ModelCatalogChange[] {
+    return this.changeLog ? this.changeLog.list(since) : [];
+  }
+
+  /**
+   * Lists the changes that have not been reported on launch yet
+   *
+   * @returns Changes, oldest first; empty if changes are not tracked
+   */
+  getUnnotifiedModelChanges(): ModelCatalogChange[] {
+    return this.changeLog ? this.changeLog.listUnnotified() : [];
+  }
+
+  /**
+   * Marks all recorded changes as reported
+   *
+   * @returns Promise that resolves when the change log is saved
+   * @throws ModelChangeLogError if the change log cannot be written
+   */
+  async markModelChangesNotified(): Promise<void> {
+    await this.changeLog?.markNotified();
+  }
+
+  /**
+   * Fetches models from the API and saves them to the cache
+   */
+  private async refresh(): Promise<ModelInfoImpl[]> {
+    // Validators are only worth sending while there is a list to keep
+    const cached = await this.cache.loadSnapshot();
+    const response = await this.fetchFromApi(
+      cached.length > 0 ? await this.cache.getValidators() : {}
+    );
+
+    if (response.notModified) {
+      await this.cache.touch();
+      return cached;
+    }
+
+    const { models, validators } = response;
+    if (models.length > 0) {
+      await this.recordChanges(cached, models);
+      await this.cache.save(models, validators);
+    }
+    return models;
+  }
+
+  private refreshInBackground(): void {
+    if (this.pendingRefresh) {
+      return;
+    }
+
+    // The stale list has been served already; a failure just waits for the next run
+    this.pendingRefresh = this.refresh()
+      .then(() => undefined)
+      .catch(() => undefined)
+      .finally(() => {
+        this.pendingRefresh = null;
+      });
+  }
+
+  private async recordChanges(previous: ModelInfoImpl[], models: ModelInfoImpl[]): Promise<void> {
+    // The first list has nothing to compare with
+    if (!this.changeLog || previous.length === 0) {
+      return;
+    }
+
+    try {
+      const { added, removed } = diffModelCatalogs(previous, models);
+      await this.changeLog.record(added, removed);
+    } catch (error) {
+      console.warn('Failed to record model changes:', error);
+    }
+  }
+
+  private progress(message: string): void {
+    if (!this.quiet) {
+      console.info(message);
+    }
+  }
+
+  /**
+   * Requests the model list, conditionally if validators are given
+   *
+   * @returns notModified for a 304 response, otherwise the models and their validators
+   */
+  private async fetchFromApi(validators: CacheValidators): Promise<ApiFetchResult> {
     try {
-      const headers = {
+      const headers: Record<string, string> = {
         Authorization: `Bearer ${this.apiKey}`,
         'Content-Type': 'application/json',
       };
+      if (validators.etag) headers['If-None-Match'] = validators.etag;
+      if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
 
       const response: AxiosResponse<ApiModelsResponse> = await axios.get(this.modelsApiUrl, {
         headers,
         timeout: this.apiTimeoutMs,
+        validateStatus: status => (status >= 200 && status < 300) || status === 304,
       });
 
+      if (response.status === 304) {
+        return { notModified: true };
+      }
+
       if (response.status === 200) {
         const modelsData = response.data.data || [];
 
@@ -96,7 +294,14 @@ export class ModelManager {
           }
         }
 
-        return models;
+        return {
+          notModified: false,
+          models,
+          validators: {
+            etag: readHeader(response, 'etag'),
+            lastModified: readHeader(response, 'last-modified'),
+          },
+        };
       } else {
         throw new ApiError(
           `API error: ${response.status} - ${response.statusText}`,
@@ -126,70 +331,72 @@ export class ModelManager {
    * Gets a sorted list of models
    *
    * @param models - Optional list of models to sort. If not provided, throws error
-   * @returns Sorted list of models by ID
+   * @param options - Sort key and direction (default: by ID)
+   * @returns Sorted list of models
    * @throws Error if models parameter is not provided
    */
-  getModels(models?: ModelInfoImpl[]): ModelInfoImpl[] {
+  getModels(models?: ModelInfoImpl[], options?: ModelSortOptions): ModelInfoImpl[] {
     if (!models) {
       throw new Error('Models must be provided or fetched first');
     }
 
-    // Sort models by ID for consistent display
-    return [...models].sort((a, b) => a.id.localeCompare(b.id));
+    return sortModels(models, options);
   }
 
   /**
-   * Searches for models matching the query
+   * Searches for models matching a filter expression
    *
-   * Searches across model ID, provider, and model name.
+   * Plain words fuzzily match the model ID, provider and model name; structured
+   * terms such as ctx>=128k or feature:tools are described in parseModelFilter.
    * If no models are provided, fetches them first.
    *
-   * @param query - Search query string
+   * Without a sort key, queries with plain words are ranked by relevance
+   * (see rankModels) and others are sorted by ID.
+   *
+   * @param query - Filter expression
    * @param models - Optional list of models to search. If not provided, fetches from cache/API
-   * @returns Promise resolving to matching models sorted by ID
+   * @param options - Sort key and direction, and recent models for ranking
+   * @returns Promise resolving to the sorted matching models
+   * @throws ModelFilterError if the expression is invalid
    */
-  async searchModels(query: string, models?: ModelInfoImpl[]): Promise<ModelInfoImpl[]> {
+  async searchModels(
+    query: string,
+    models?: ModelInfoImpl[],
+    options: ModelSearchOptions = {}
+  ): Promise<ModelInfoImpl[]> {
+    // Parse first so an invalid expression fails before any network request
+    const { filter, text } = parseModelQuery(query);
+
     if (!models) {
       models = await this.fetchModels();
     }
 
-    if (!query) {
-      return this.getModels(models);
+    const matches = models.filter(filter);
+    if (options.sort || !text) {
+      return this.getModels(matches, options);
     }
 
-    const queryLower = query.toLowerCase();
-    const matchingModels: ModelInfoImpl[] = [];
-
-    for (const model of models) {
-      // Search in model ID and components
-      const searchText = [
-        model.id.toLowerCase(),
-        model.getProvider().toLowerCase(),
-        model.getModelName().toLowerCase(),
-      ].join(' ');
-
-      if (searchText.includes(queryLower)) {
-        matchingModels.push(model);
-      }
-    }
-
-    // Sort results by ID
-    return matchingModels.sort((a, b) => a.id.localeCompare(b.id));
+    const ranked = rankModels(matches, text, { recentModels: options.recentModels });
+    return options.reverse ? ranked.reverse() : ranked;
   }
 
   /**
-   * Finds a model by its ID
+   * Finds a model by its ID, an alias or a fuzzy match
+   *
+   * Aliases are the ID without its provider prefix, the Hugging Face ID, the
+   * display name and the OpenRouter slug (see findModelMatches).
    *
-   * @param modelId - The model ID to search for
+   * @param modelId - The model ID, alias or a few words of its name
    * @param models - Optional list of models to search. If not provided, fetches from cache/API
-   * @returns Promise resolving to the model, or null if not found
+   * @returns Promise resolving to the model, or null if nothing or more than one model matches
    */
   async getModelById(modelId: string, models?: ModelInfoImpl[]): Promise<ModelInfoImpl | null> {
     if (!models) {
       models = await this.fetchModels();
     }
 
-    return models.find(model => model.id === modelId) || null;
+    const matches = findModelMatches(models, modelId);
+    return matches.length === 1 ? matches[0]! : null;
   }
 
   /**
@@ -0,0 +1,184 @@
+import { ModelInfoImpl } from './info';
+import { ModelPricingError } from './types';
+
+/**
+ * Tokens per "million tokens" price unit
+ */
+export const TOKENS_PER_MILLION = 1_000_000;
+
+/**
+ * A model's prices as numbers, in dollars
+ *
+ * Token prices are per token; fields are undefined when the API does not
+ * report them or reports something that is not a price.
+ */
+export interface ModelPricing {
+  prompt?: number;
+  completion?: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+  perRequest?: number;
+  perImage?: number;
+}
+
+export type TokenPriceKey = 'prompt' | 'completion' | 'cacheRead' | 'cacheWrite';
+
+/**
+ * Token counts and requests to estimate the cost of
+ */
+export interface TokenUsage {
+  /** Uncached input tokens */
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens read from the prompt cache */
+  cachedTokens?: number;
+  /** Input tokens written to the prompt cache */
+  cacheWriteTokens?: number;
+  /** Number of requests, for per-request fees (default: 1) */
+  requests?: number;
+}
+
+export interface CostEstimate {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  requests: number;
+  total: number;
+  /** Prices the estimate needed but the model does not report */
+  missing: string[];
+}
+
+/**
+ * Parses a price string from the models API
+ *
+ * Prices look like "$0.00000055"; thousands separators and spaces are ignored.
+ *
+ * @param raw - The price string
+ * @returns The price in dollars, or undefined if it is missing or not a number
+ */
+export function parsePrice(raw: string | undefined): number | undefined {
+  if (!raw || !raw.trim()) {
+    return undefined;
+  }
+
+  const value = Number(raw.replace(/[$,\s]/g, ''));
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Converts a per-token price to dollars per million tokens
+ *
+ * @param perToken - The price per token
+ * @returns The price per million tokens, without floating point noise
+ */
+export function toPerMillion(perToken: number | undefined): number | undefined {
+  return perToken === undefined ? undefined : roundDollars(perToken * TOKENS_PER_MILLION);
+}
+
+/**
+ * Reads all of a model's prices
+ *
+ * @param model - The model
+ * @returns The parsed prices
+ */
+export function getModelPricing(model: ModelInfoImpl): ModelPricing {
+  const pricing = model.pricing || {};
+  return {
+    prompt: parsePrice(pricing.prompt),
+    completion: parsePrice(pricing.completion),
+    cacheRead: parsePrice(pricing.input_cache_reads),
+    cacheWrite: parsePrice(pricing.input_cache_writes),
+    perRequest: parsePrice(pricing.request),
+    perImage: parsePrice(pricing.image),
+  };
+}
+
+/**
+ * Gets a model's token price in dollars per million tokens
+ *
+ * @param model - The model
+ * @param key - Which token price to read
+ * @returns The price per million tokens, or undefined if the model does not report it
+ */
+export function getPricePerMillion(model: ModelInfoImpl, key: TokenPriceKey): number | undefined {
+  return toPerMillion(getModelPricing(model)[key]);
+}
+
+/**
+ * Estimates what a workload would cost on a model
+ *
+ * Cache reads and writes fall back to the prompt price when the model has no
+ * separate cache price. A missing per-request fee counts as free.
+ *
+ * @param model - The model
+ * @param usage - Token counts and requests
+ * @returns The cost broken down by kind, in dollars
+ */
+export function estimateCost(model: ModelInfoImpl, usage: TokenUsage): CostEstimate {
+  const pricing = getModelPricing(model);
+  const missing: string[] = [];
+  const charge = (tokens: number, price: number | undefined, name: string): number => {
+    if (tokens === 0) return 0;
+    if (price === undefined) {
+      missing.push(name);
+      return 0;
+    }
+    return roundDollars(tokens * price);
+  };
+
+  const cachedTokens = usage.cachedTokens || 0;
+  const cacheWriteTokens = usage.cacheWriteTokens || 0;
+  const input = charge(usage.inputTokens, pricing.prompt, 'prompt');
+  const output = charge(usage.outputTokens, pricing.completion, 'completion');
+  const cacheRead = charge(cachedTokens, pricing.cacheRead ?? pricing.prompt, 'cache read');
+  const cacheWrite = charge(cacheWriteTokens, pricing.cacheWrite ?? pricing.prompt, 'cache write');
+  const requests = roundDollars((usage.requests ?? 1) * (pricing.perRequest || 0));
+
+  return {
+    input,
+    output,
+    cacheRead,
+    cacheWrite,
+    requests,
+    total: roundDollars(input + output + cacheRead + cacheWrite + requests),
+    missing: [...new Set(missing)],
+  };
+}
+
+/**
+ * Parses a token count such as 12000, 120k or 1.5m
+ *
+ * Suffixes are decimal (k = 1,000, m = 1,000,000) to match per-million pricing.
+ *
+ * @param value - The value given on the command line
+ * @returns The token count
+ * @throws ModelPricingError if the value is not a non-negative count
+ */
+export function parseTokenCount(value: string): number {
+  const match = /^(\d+(?:\.\d+)?|\.\d+)([km]?)$/i.exec(value.trim().replace(/_/g, ''));
+  if (!match) {
+    throw new ModelPricingError(
+      `Invalid token count "${value}". Use a number such as 12000, 120k or 1.5m`
+    );
+  }
+
+  const [, digits = '', suffix = ''] = match;
+  const multiplier = { '': 1, k: 1_000, m: 1_000_000 }[suffix.toLowerCase()] ?? 1;
+  return Math.round(Number(digits) * multiplier);
+}
+
+/**
+ * Formats a dollar amount for display
+ *
+ * @param dollars - The amount
+ * @returns e.g. "$12.34", or "$0.0042" for amounts under a dollar
+ */
+export function formatCost(dollars: number): string {
+  return `$${dollars.toFixed(dollars !== 0 && Math.abs(dollars) < 1 ? 4 : 2)}`;
+}
+
+function roundDollars(dollars: number): number {
+  // toPrecision drops floating point noise such as 0.09999999999999999
+  return Number(dollars.toPrecision(12));
+}
@@ -0,0 +1,371 @@
+import axios from 'axios';
+import { existsSync, readFileSync } from 'fs';
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { z } from 'zod';
+import { ModelProbeError } from './types';
+import { writeFileAtomic } from '../utils/file-lock';
+
+/**
+ * Anthropic API version sent with probe requests
+ */
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const PROBE_PROMPT = 'Reply with the word OK.';
+
+/**
+ * Tool the model is forced to call to check tool use
+ */
+const PROBE_TOOL = {
+  name: 'get_current_time',
+  description: 'Returns the current time',
+  input_schema: { type: 'object', properties: {} },
+};
+
+/**
+ * Error bodies longer than this are not read further
+ */
+const MAX_ERROR_BODY_LENGTH = 4096;
+
+export const ModelProbeResultSchema = z.object({
+  model: z.string(),
+  endpoint: z.string().describe('Anthropic-compatible endpoint that was probed'),
+  probedAt: z.string().describe('When the probe started (ISO 8601)'),
+  status: z
+    .number()
+    .int()
+    .optional()
+    .describe('HTTP status of the streaming request; missing if no response came'),
+  timeToFirstTokenMs: z.number().optional().describe('Time until the first streamed token'),
+  latencyMs: z.number().optional().describe('Time until the streamed response ended'),
+  streaming: z.boolean().describe('Whether the response streamed through to message_stop'),
+  toolUse: z
+    .boolean()
+    .optional()
+    .describe('Whether a forced tool call came back as tool_use; missing if not checked'),
+  error: z.string().optional().describe('Why the probe failed, if it did'),
+});
+
+export const ModelProbeCacheSchema = z.object({
+  results: z.array(ModelProbeResultSchema).default([]),
+});
+
+export type ModelProbeResult = z.infer<typeof ModelProbeResultSchema>;
+
+export interface ModelProbeOptions {
+  /** Anthropic-compatible base URL; requests go to <endpoint>/v1/messages */
+  endpoint: string;
+  apiKey: string;
+  /** Time limit for each request, including reading the stream (default: 30000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Sends minimal messages requests for a model to see whether it really works
+ *
+ * A streamed request measures the HTTP status, the time to the first token
+ * and the total latency, and checks that the stream ends with message_stop.
+ * If it succeeds, a second request forces a tool call to check tool use.
+ * Failures are reported in the result rather than thrown.
+ *
+ * @param modelId - The model to probe
+ * @param options - The endpoint, API key and time limit
+ * @returns Promise resolving to the probe result
+ */
+export async function probeModel(
+  modelId: string,
+  options: ModelProbeOptions
+): Promise<ModelProbeResult> {
+  const url = `${options.endpoint.replace(/\/+$/, '')}/v1/messages`;
+  const timeoutMs = options.timeoutMs || 30000;
+  const headers = {
+    Authorization: `Bearer ${options.apiKey}`,
+    'Content-Type': 'application/json',
+    'anthropic-version': ANTHROPIC_VERSION,
+  };
+  const started = Date.now();
+  const result: ModelProbeResult = {
+    model: modelId,
+    endpoint: options.endpoint,
+    probedAt: new Date(started).toISOString(),
+    streaming: false,
+  };
+
+  // axios' own timeout stops at the response headers; the stream needs a limit too
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await axios.post<NodeJS.ReadableStream>(
+      url,
+      {
+        model: modelId,
+        max_tokens: 16,
+        stream: true,
+        messages: [{ role: 'user', content: PROBE_PROMPT }],
+      },
+      {
+        headers,
+        timeout: timeoutMs,
+        responseType: 'stream',
+        signal: controller.signal,
+        validateStatus: () => true,
+      }
+    );
+    result.status = response.status;
+
+    const stream = await readEventStream(response.data, started);
+    result.latencyMs = Date.now() - started;
+    if (!isSuccess(response.status)) {
+      result.error = `HTTP ${response.status}: ${readErrorMessage(stream.body) || 'request failed'}`;
+      return result;
+    }
+    result.timeToFirstTokenMs = stream.firstTokenMs;
+    result.streaming = stream.stopped;
+    if (stream.error) {
+      result.error = `Stream error: ${stream.error}`;
+      return result;
+    }
+    if (!stream.stopped) {
+      result.error = 'The stream ended without a message_stop event';
+    }
+  } catch (error) {
+    result.error = controller.signal.aborted
+      ? `Timed out after ${timeoutMs / 1000}s`
+      : describeRequestError(error);
+    return result;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  try {
+    const response = await axios.post<{ content?: Array<{ type?: string }> }>(
+      url,
+      {
+        model: modelId,
+        max_tokens: 64,
+        messages: [{ role: 'user', content: 'What time is it?' }],
+        tools: [PROBE_TOOL],
+        tool_choice: { type: 'tool', name: PROBE_TOOL.name },
+      },
+      { headers, timeout: timeoutMs, validateStatus: () => true }
+    );
+    const content = isSuccess(response.status) ? response.data?.content : undefined;
+    result.toolUse = Array.isArray(content) && content.some(block => block?.type === 'tool_use');
+    if (!isSuccess(response.status)) {
+      const message = readErrorMessage(JSON.stringify(response.data ?? ''));
+      result.error ??= `Tool use request failed with HTTP ${response.status}: ${message}`;
+    }
+  } catch (error) {
+    result.toolUse = false;
+    result.error ??= `Tool use request failed: ${describeRequestError(error)}`;
+  }
+  return result;
+}
+
+/**
+ * Summarizes what is wrong with a model according to its probe
+ *
+ * @param result - The probe result
+ * @returns e.g. "HTTP 500" or "no tool use", or null if the probe passed
+ */
+export function describeProbeProblem(result: ModelProbeResult): string | null {
+  if (result.status === undefined) {
+    return result.error?.startsWith('Timed out') ? 'timed out' : 'unreachable';
+  }
+  if (!isSuccess(result.status)) {
+    return `HTTP ${result.status}`;
+  }
+  if (!result.streaming) {
+    return 'streaming failed';
+  }
+  if (result.toolUse === false) {
+    return 'no tool use';
+  }
+  return null;
+}
+
+/**
+ * Persistent store of the latest probe result of each model
+ *
+ * Results are kept per endpoint, so probing another account's endpoint does
+ * not overwrite them. The oldest results are dropped once the limit is reached.
+ */
+export class ModelProbeCache {
+  static readonly DEFAULT_LIMIT = 500;
+
+  private cachePath: string;
+  private limit: number;
+  private data: z.infer<typeof ModelProbeCacheSchema> | null = null;
+
+  /**
+   * Creates a new ModelProbeCache instance
+   *
+   * @param cachePath - Path of the probe cache JSON file
+   * @param limit - Maximum number of results kept (default: 500)
+   */
+  constructor(cachePath: string, limit = ModelProbeCache.DEFAULT_LIMIT) {
+    this.cachePath = cachePath;
+    this.limit = limit;
+  }
+
+  /**
+   * Lists the latest probe result of each model probed on an endpoint
+   *
+   * @param endpoint - The Anthropic-compatible endpoint
+   * @returns Results, oldest first
+   */
+  list(endpoint: string): ModelProbeResult[] {
+    return this.load().results.filter(result => result.endpoint === endpoint);
+  }
+
+  /**
+   * Lists the models whose latest probe on an endpoint failed
+   *
+   * @param endpoint - The Anthropic-compatible endpoint
+   * @returns What is wrong with each failing model, by model ID
+   */
+  getProblems(endpoint: string): Record<string, string> {
+    const problems: Record<string, string> = {};
+    for (const result of this.list(endpoint)) {
+      const problem = describeProbeProblem(result);
+      if (problem) {
+        problems[result.model] = problem;
+      }
+    }
+    return problems;
+  }
+
+  /**
+   * Saves probe results, replacing earlier results for the same models
+   *
+   * The cache file is re-read first so results written by other synpick
+   * processes are kept.
+   *
+   * @param results - The new results
+   * @returns Promise that resolves when the cache is saved
+   * @throws ModelProbeError if the cache cannot be written
+   */
+  async record(results: ModelProbeResult[]): Promise<void> {
+    if (results.length === 0) {
+      return;
+    }
+
+    this.data = null;
+    const replaced = new Set(results.map(result => `${result.endpoint}\n${result.model}`));
+    const kept = this.load().results.filter(
+      result => !replaced.has(`${result.endpoint}\n${result.model}`)
+    );
+    this.data = { results: [...kept, ...results].slice(-this.limit) };
+    await this.save();
+  }
+
+  private load(): z.infer<typeof ModelProbeCacheSchema> {
+    if (this.data) {
+      return this.data;
+    }
+
+    try {
+      if (existsSync(this.cachePath)) {
+        const result = ModelProbeCacheSchema.safeParse(
+          JSON.parse(readFileSync(this.cachePath, 'utf-8'))
+        );
+        if (result.success) {
+          this.data = result.data;
+          return this.data;
+        }
+      }
+    } catch {
+      // An unreadable cache starts over
+    }
+    this.data = { results: [] };
+    return this.data;
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await mkdir(dirname(this.cachePath), { recursive: true });
+      await writeFileAtomic(this.cachePath, JSON.stringify(this.data, null, 2));
+    } catch (error) {
+      throw new ModelProbeError(`Failed to save model probe cache: ${this.cachePath}`, error);
+    }
+  }
+}
+
+function isSuccess(status: number): boolean {
+  return status >= 200 && status < 300;
+}
+
+/**
+ * Reads a server-sent event stream of the messages API
+ *
+ * Error responses are not event streams; their text is returned as the body.
+ */
+async function readEventStream(
+  stream: NodeJS.ReadableStream,
+  started: number
+): Promise<{ firstTokenMs?: number; stopped: boolean; error?: string; body: string }> {
+  let body = '';
+  let buffer = '';
+  let firstTokenMs: number | undefined;
+  let stopped = false;
+  let error: string | undefined;
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data:')) {
+      return;
+    }
+    let event: { type?: string; error?: { message?: string } };
+    try {
+      event = JSON.parse(line.slice('data:'.length).trim());
+    } catch {
+      return;
+    }
+    if (event.type === 'content_block_delta' && firstTokenMs === undefined) {
+      firstTokenMs = Date.now() - started;
+    } else if (event.type === 'message_stop') {
+      stopped = true;
+    } else if (event.type === 'error') {
+      error = event.error?.message || 'unknown error';
+    }
+  };
+
+  for await (const chunk of stream) {
+    const text = chunk.toString();
+    if (body.length < MAX_ERROR_BODY_LENGTH) {
+      body += text;
+    }
+    buffer += text;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  return { firstTokenMs, stopped, error, body };
+}
+
+/**
+ * Gets the message of an Anthropic or OpenAI style error body
+ */
+function readErrorMessage(body: string): string {
+  try {
+    const data = JSON.parse(body);
+    const message = data?.error?.message ?? data?.message ?? data?.error;
+    if (typeof message === 'string' && message) {
+      return message;
+    }
+  } catch {
+    // Not JSON; fall back to the text itself
+  }
+  return body.trim().slice(0, 200);
+}
+
+function describeRequestError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return 'Timed out';
+    }
+    return error.code ? `${error.code}: ${error.message}` : error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
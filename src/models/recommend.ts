@@ -0,0 +1,240 @@
+import { ModelInfoImpl } from './info';
+import { TierRecommendationError } from './types';
+import { getPricePerMillion } from './pricing';
+import { isThinkingCapable } from './thinking';
+import { matchesProvider, parseFilterNumber } from './filter';
+
+/**
+ * How much weight the recommender gives to price
+ */
+export const TIER_BUDGETS = ['low', 'balanced', 'max'] as const;
+
+export type TierBudget = (typeof TIER_BUDGETS)[number];
+
+/**
+ * The tiers the recommender fills, in TierSelector order
+ */
+export const RECOMMENDED_TIERS = [
+  'default',
+  'opus',
+  'sonnet',
+  'haiku',
+  'subagent',
+  'thinking',
+] as const;
+
+export type RecommendedTier = (typeof RECOMMENDED_TIERS)[number];
+
+type ScoreFactor = 'context' | 'output' | 'price' | 'tools' | 'thinking';
+
+/**
+ * What each tier values; factor scores run from 0 to 1 before weighting
+ */
+const SONNET_WEIGHTS: Record<ScoreFactor, number> = {
+  context: 2,
+  output: 2,
+  price: 2,
+  tools: 3,
+  thinking: 0,
+};
+
+const TIER_WEIGHTS: Record<RecommendedTier, Record<ScoreFactor, number>> = {
+  default: SONNET_WEIGHTS,
+  opus: { context: 3, output: 3, price: 1, tools: 3, thinking: 1 },
+  sonnet: SONNET_WEIGHTS,
+  haiku: { context: 1, output: 0.5, price: 4, tools: 2, thinking: 0 },
+  subagent: { context: 1.5, output: 1, price: 3, tools: 4, thinking: 0 },
+  thinking: { context: 2, output: 3, price: 1, tools: 1, thinking: 0 },
+};
+
+/**
+ * Multiplies the price weight of every tier
+ */
+const BUDGET_PRICE_FACTORS: Record<TierBudget, number> = {
+  low: 2.5,
+  balanced: 1,
+  max: 0.2,
+};
+
+const FACTOR_LABELS: Record<ScoreFactor, string> = {
+  context: 'long context',
+  output: 'long output',
+  price: 'low price',
+  tools: 'tool use',
+  thinking: 'thinking',
+};
+
+/**
+ * Factor scores at or above this are listed as a recommendation's strengths
+ */
+const STRENGTH_THRESHOLD = 0.75;
+
+export interface TierRecommendationOptions {
+  /** How much price matters (default: balanced) */
+  budget?: TierBudget;
+  /** Only consider models from this provider, matched like the provider: filter */
+  provider?: string;
+  /** Only consider models with at least this many context tokens */
+  minContext?: number;
+}
+
+export interface TierRecommendation {
+  tier: RecommendedTier;
+  model: ModelInfoImpl;
+  /** The weighted score the model won the tier with */
+  score: number;
+  /** What the model scored well on, e.g. ["low price", "tool use"] */
+  strengths: string[];
+}
+
+/**
+ * Checks a --budget value
+ *
+ * @param value - The value given on the command line
+ * @returns The budget
+ * @throws TierRecommendationError if the value is not one of TIER_BUDGETS
+ */
+export function parseTierBudget(value: string): TierBudget {
+  const budget = value.toLowerCase();
+  if (!(TIER_BUDGETS as readonly string[]).includes(budget)) {
+    throw new TierRecommendationError(
+      `Unknown budget "${value}". Use one of: ${TIER_BUDGETS.join(', ')}`
+    );
+  }
+  return budget as TierBudget;
+}
+
+/**
+ * Parses a --min-context value such as 128000 or 128k
+ *
+ * Suffixes are decimal, as in the ctx>= filter, so 128k is 128,000 tokens.
+ *
+ * @param value - The value given on the command line
+ * @returns The token count
+ * @throws TierRecommendationError if the value is not a token count
+ */
+export function parseMinContext(value: string): number {
+  const tokens = parseFilterNumber(value.trim().toLowerCase());
+  if (tokens === undefined) {
+    throw new TierRecommendationError(
+      `Invalid minimum context "${value}": expected a token count such as 128k`
+    );
+  }
+  return tokens;
+}
+
+/**
+ * Proposes a model for every tier
+ *
+ * Models are scored on context length, max output, price, tool support and
+ * thinking capability, each scaled against the other candidates and weighted
+ * by what the tier needs: opus favours capability, haiku and subagent favour
+ * price and tools. The thinking tier only considers thinking models when
+ * there are any. Lengths and prices are compared on a log scale, so one huge
+ * outlier does not flatten the rest; a missing price scores as average.
+ *
+ * @param models - The catalogue
+ * @param options - The budget and the constraints on candidates
+ * @returns One recommendation per tier, in RECOMMENDED_TIERS order
+ * @throws TierRecommendationError if no model meets the constraints
+ */
+export function recommendTiers(
+  models: ModelInfoImpl[],
+  options: TierRecommendationOptions = {}
+): TierRecommendation[] {
+  const provider = options.provider?.toLowerCase();
+  const minContext = options.minContext;
+  const candidates = models.filter(
+    model =>
+      (!provider || matchesProvider(model, provider)) &&
+      (minContext === undefined || (model.context_length ?? 0) >= minContext)
+  );
+  if (candidates.length === 0) {
+    const constraints = [
+      provider && `provider "${options.provider}"`,
+      minContext !== undefined && `at least ${minContext} context tokens`,
+    ].filter(Boolean);
+    throw new TierRecommendationError(
+      constraints.length > 0
+        ? `No models match ${constraints.join(' and ')}`
+        : 'No models to recommend from'
+    );
+  }
+
+  const factors = scoreFactors(candidates);
+  const priceFactor = BUDGET_PRICE_FACTORS[options.budget || 'balanced'];
+  const thinkingModels = candidates.filter(model => factors.get(model)!.thinking === 1);
+
+  return RECOMMENDED_TIERS.map(tier => {
+    const pool = tier === 'thinking' && thinkingModels.length > 0 ? thinkingModels : candidates;
+    const weights = { ...TIER_WEIGHTS[tier], price: TIER_WEIGHTS[tier].price * priceFactor };
+
+    let best: TierRecommendation | undefined;
+    for (const model of pool) {
+      const scores = factors.get(model)!;
+      const score = (Object.keys(weights) as ScoreFactor[]).reduce(
+        (total, factor) => total + weights[factor] * scores[factor],
+        0
+      );
+      // Ties go to the model listed first
+      if (!best || score > best.score) {
+        const strengths = (Object.keys(weights) as ScoreFactor[])
+          .filter(factor => weights[factor] > 0 && scores[factor] >= STRENGTH_THRESHOLD)
+          .map(factor => FACTOR_LABELS[factor]);
+        best = { tier, model, score, strengths };
+      }
+    }
+    return best!;
+  });
+}
+
+/**
+ * Scores every candidate from 0 to 1 on each factor
+ */
+function scoreFactors(models: ModelInfoImpl[]): Map<ModelInfoImpl, Record<ScoreFactor, number>> {
+  const context = scaleLog(models.map(model => model.context_length));
+  const output = scaleLog(models.map(model => model.max_output_length));
+  const price = scaleLog(models.map(blendedPrice));
+
+  return new Map(
+    models.map((model, index) => [
+      model,
+      {
+        context: context[index] ?? 0,
+        output: output[index] ?? 0,
+        // Cheaper is better
+        price: price[index] === undefined ? 0.5 : 1 - price[index],
+        tools: model.supported_features?.some(feature => feature.toLowerCase() === 'tools') ? 1 : 0,
+        thinking: isThinkingCapable(model) ? 1 : 0,
+      },
+    ])
+  );
+}
+
+/**
+ * Prices a model the way Claude Code uses it: mostly prompt tokens
+ */
+function blendedPrice(model: ModelInfoImpl): number | undefined {
+  const prompt = getPricePerMillion(model, 'prompt');
+  const completion = getPricePerMillion(model, 'completion');
+  if (prompt === undefined || completion === undefined) {
+    return prompt ?? completion;
+  }
+  return prompt * 0.75 + completion * 0.25;
+}
+
+/**
+ * Scales values to 0..1 on a log scale; all-equal values scale to 1
+ */
+function scaleLog(values: Array<number | undefined>): Array<number | undefined> {
+  // log1p keeps free (zero) prices and tiny values finite
+  const logs = values.map(value =>
+    value === undefined || value < 0 ? undefined : Math.log1p(value)
+  );
+  const known = logs.filter((value): value is number => value !== undefined);
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+  return logs.map(value =>
+    value === undefined ? undefined : max === min ? 1 : (value - min) / (max - min)
+  );
+}
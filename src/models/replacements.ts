@@ -0,0 +1,90 @@
+import { ModelInfoImpl } from './info';
+
+/**
+ * Score of a candidate from the same model family, e.g. another DeepSeek model
+ */
+const SAME_FAMILY_SCORE = 3;
+
+/**
+ * Score of a candidate from the same organization, e.g. another deepseek-ai model
+ */
+const SAME_ORGANIZATION_SCORE = 2;
+
+interface ModelIdentity {
+  organization: string;
+  family: string;
+  tokens: string[];
+}
+
+/**
+ * Suggests available models to replace one that is no longer offered
+ *
+ * Candidates must share the missing model's family (the leading word of its
+ * name, like "qwen" or "deepseek") or its organization. They are ranked by
+ * family, organization and how much of their names they share, so
+ * "DeepSeek-V2" suggests "DeepSeek-V3" before "DeepSeek-R1".
+ *
+ * @param modelId - The ID of the missing model
+ * @param models - The available models
+ * @param limit - The maximum number of suggestions
+ * @returns The suggestions, best first; empty if nothing is related
+ */
+export function suggestReplacements(
+  modelId: string,
+  models: ModelInfoImpl[],
+  limit = 3
+): ModelInfoImpl[] {
+  const missing = identify(modelId);
+  const scored: Array<{ model: ModelInfoImpl; score: number }> = [];
+
+  for (const model of models) {
+    if (model.id === modelId) continue;
+
+    const candidate = identify(model.id);
+    const sameFamily = missing.family !== '' && candidate.family === missing.family;
+    const sameOrganization =
+      missing.organization !== '' && candidate.organization === missing.organization;
+    if (!sameFamily && !sameOrganization) continue;
+
+    const shared = missing.tokens.reduce(
+      (sum, token) => sum + Math.max(0, ...candidate.tokens.map(other => similarity(token, other))),
+      0
+    );
+    scored.push({
+      model,
+      score:
+        (sameFamily ? SAME_FAMILY_SCORE : 0) +
+        (sameOrganization ? SAME_ORGANIZATION_SCORE : 0) +
+        shared,
+    });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.model.id.localeCompare(b.model.id))
+    .slice(0, limit)
+    .map(item => item.model);
+}
+
+/**
+ * Splits a model ID like "hf:deepseek-ai/DeepSeek-V3.1" into organization, family and name parts
+ */
+function identify(modelId: string): ModelIdentity {
+  const path = modelId.slice(modelId.indexOf(':') + 1).toLowerCase();
+  const slash = path.lastIndexOf('/');
+  const name = path.slice(slash + 1);
+  return {
+    organization: slash === -1 ? '' : path.slice(0, slash),
+    family: name.match(/^[a-z]+/)?.[0] || '',
+    tokens: name.match(/[a-z0-9]+/g) || [],
+  };
+}
+
+/**
+ * How alike two name parts are: 1 if equal, else at most half for a common prefix
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  let common = 0;
+  while (common < a.length && a[common] === b[common]) common++;
+  return common / Math.max(a.length, b.length) / 2;
+}
@@ -0,0 +1,54 @@
+import { ModelInfoImpl } from './info';
+
+/**
+ * The sections of a model selector, top to bottom
+ */
+export type ModelSection = 'pinned' | 'recent' | 'all';
+
+export const MODEL_SECTION_TITLES: Record<ModelSection, string> = {
+  pinned: 'Pinned',
+  recent: 'Recent',
+  all: 'All models',
+};
+
+export interface SectionedModel {
+  section: ModelSection;
+  model: ModelInfoImpl;
+}
+
+/**
+ * Lists pinned and recently used models ahead of the others
+ *
+ * Each model appears once: a pinned model is not repeated under Recent, and
+ * neither is repeated under All models. IDs that are not in the list are skipped.
+ *
+ * @param models - The models, in the order of the All models section
+ * @param options - The pinned model IDs, in pin order, and the recent ones, most recent first
+ * @returns The models with their sections, in display order
+ */
+export function sectionModels(
+  models: ModelInfoImpl[],
+  options: { pinned?: string[]; recent?: string[] }
+): SectionedModel[] {
+  const byId = new Map(models.map(model => [model.id, model]));
+  const placed = new Set<string>();
+  const result: SectionedModel[] = [];
+
+  const place = (section: ModelSection, ids: string[]) => {
+    for (const id of ids) {
+      const model = byId.get(id);
+      if (model && !placed.has(id)) {
+        placed.add(id);
+        result.push({ section, model });
+      }
+    }
+  };
+
+  place('pinned', options.pinned || []);
+  place('recent', options.recent || []);
+  place(
+    'all',
+    models.map(model => model.id)
+  );
+  return result;
+}
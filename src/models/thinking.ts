@@ -0,0 +1,118 @@
+import { ModelInfo } from './types';
+import { findThinkingHeuristic } from '../utils/model-utils';
+
+/**
+ * Features and sampling parameters the API lists for reasoning models
+ */
+const THINKING_FEATURES = ['reasoning', 'thinking'];
+const THINKING_PARAMETERS = ['reasoning', 'reasoning_effort', 'include_reasoning'];
+
+/**
+ * User rules that decide whether a model without reasoning metadata is a thinking model
+ */
+export interface ThinkingRules {
+  /** Model ID patterns treated as thinking models, e.g. "hf:*-r1*" */
+  include: string[];
+  /** Model ID patterns never treated as thinking models; these win over include */
+  exclude: string[];
+}
+
+export interface ThinkingClassification {
+  thinking: boolean;
+  /** What decided the classification */
+  source: 'metadata' | 'rule' | 'heuristic';
+  /** Why, e.g. 'supported_features lists "reasoning"' */
+  reason: string;
+}
+
+let activeRules: ThinkingRules = { include: [], exclude: [] };
+
+/**
+ * Sets the rules used when no rules are passed to classifyThinkingModel
+ *
+ * The app sets them from the config once it is loaded, so listings, filters
+ * and selectors all classify models the same way.
+ *
+ * @param rules - The rules from the config
+ */
+export function setThinkingRules(rules: ThinkingRules): void {
+  activeRules = rules;
+}
+
+/**
+ * Decides whether a model is a thinking model, and why
+ *
+ * Reasoning metadata from the API decides first. Without it, the exclude and
+ * then the include rules apply, and finally the built-in ID heuristics.
+ *
+ * @param model - The model
+ * @param rules - The user rules (default: those set with setThinkingRules)
+ * @returns The classification and its reason
+ */
+export function classifyThinkingModel(
+  model: Pick<ModelInfo, 'id' | 'supported_features' | 'supported_sampling_parameters'>,
+  rules: ThinkingRules = activeRules
+): ThinkingClassification {
+  const feature = model.supported_features?.find(value =>
+    THINKING_FEATURES.includes(value.toLowerCase())
+  );
+  if (feature) {
+    return { thinking: true, source: 'metadata', reason: `supported_features lists "${feature}"` };
+  }
+  const parameter = model.supported_sampling_parameters?.find(value =>
+    THINKING_PARAMETERS.includes(value.toLowerCase())
+  );
+  if (parameter) {
+    return { thinking: true, source: 'metadata', reason: `accepts the "${parameter}" parameter` };
+  }
+
+  const exclude = rules.exclude.find(pattern => matchesIdPattern(model.id, pattern));
+  if (exclude) {
+    return { thinking: false, source: 'rule', reason: `matches exclude rule "${exclude}"` };
+  }
+  const include = rules.include.find(pattern => matchesIdPattern(model.id, pattern));
+  if (include) {
+    return { thinking: true, source: 'rule', reason: `matches include rule "${include}"` };
+  }
+
+  const heuristic = findThinkingHeuristic(model.id);
+  return heuristic
+    ? { thinking: true, source: 'heuristic', reason: `the ID ${heuristic}` }
+    : {
+        thinking: false,
+        source: 'heuristic',
+        reason: 'no reasoning metadata, rule or known thinking model name',
+      };
+}
+
+/**
+ * Checks whether a model is a thinking model (see classifyThinkingModel)
+ *
+ * @param model - The model
+ * @returns true for thinking models
+ */
+export function isThinkingCapable(
+  model: Pick<ModelInfo, 'id' | 'supported_features' | 'supported_sampling_parameters'>
+): boolean {
+  return classifyThinkingModel(model).thinking;
+}
+
+/**
+ * Matches a model ID against a rule pattern
+ *
+ * Patterns match the whole ID, ignoring case; "*" matches any run of
+ * characters and "?" a single one.
+ *
+ * @param modelId - The model ID
+ * @param pattern - The pattern, e.g. "hf:deepseek-ai/*-R1*"
+ * @returns true if the pattern matches
+ */
+export function matchesIdPattern(modelId: string, pattern: string): boolean {
+  const source = pattern
+    .split('')
+    .map(char =>
+      char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    )
+    .join('');
+  return new RegExp(`^${source}$`, 'i').test(modelId);
+}
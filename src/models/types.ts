@@ -55,6 +55,16 @@ export interface CacheInfo {
   sizeBytes?: number;
   modelCount?: number;
   isValid?: boolean;
+  /** Time since the cache was written, in milliseconds */
+  ageMs?: number;
+  /** When the cache expires (or expired) and is refreshed from the API */
+  expiresTime?: string;
+  /** Models endpoint of the current entry */
+  endpoint?: string;
+  /** Number of endpoint and API key combinations cached in the file */
+  entryCount?: number;
+  /** Whether refreshes can be conditional (ETag or Last-Modified was received) */
+  hasValidators?: boolean;
   error?: string;
 }
 
@@ -83,3 +93,63 @@ export class ApiError extends Error {
     this.name = 'ApiError';
   }
 }
+
+export class ModelFilterError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'ModelFilterError';
+  }
+}
+
+export class ModelListingError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'ModelListingError';
+  }
+}
+
+export class ModelPricingError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'ModelPricingError';
+  }
+}
+
+export class ModelChangeLogError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'ModelChangeLogError';
+  }
+}
+
+export class TierRecommendationError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'TierRecommendationError';
+  }
+}
+
+export class ModelProbeError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'ModelProbeError';
+  }
+}
@@ -1,6 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { Box, Text, useInput, useApp, useStdout } from 'ink';
-import { ModelInfoImpl } from '../../models';
+import {
+  MODEL_SECTION_TITLES,
+  ModelFilterError,
+  ModelInfoImpl,
+  ModelSection,
+  classifyThinkingModel,
+  getMatchRanges,
+  isThinkingCapable,
+  parseModelQuery,
+  rankModels,
+  sectionModels,
+} from '../../models';
 import {
   BYTES_PER_KB,
   LIST_VISIBLE_BEFORE,
@@ -8,7 +19,7 @@ import {
   UI_INDENT_SPACES,
   UI_MARGIN_BOTTOM,
 } from '../../utils/constants';
-import { isThinkingModel } from '../../utils';
+import { findModelAliases } from '../../config';
 
 interface ModelSelectorProps {
   models: ModelInfoImpl[];
@@ -17,8 +28,37 @@ interface ModelSelectorProps {
   searchPlaceholder?: string;
   initialRegularModel?: ModelInfoImpl | null;
   initialThinkingModel?: ModelInfoImpl | null;
+  /** Recently used model IDs, most recent first; they rank higher in searches */
+  recentModels?: string[];
+  /** Model aliases, shown next to the models they point at */
+  aliases?: Record<string, string>;
+  /** Pinned model IDs; they are listed first */
+  favoriteModels?: string[];
+  /** Called when a model is pinned or unpinned */
+  onToggleFavorite?: (modelId: string, pinned: boolean) => void;
+  /** What the last probe found wrong with failing models, by model ID */
+  probeProblems?: Record<string, string>;
 }
 
+/**
+ * Renders text with the characters matched by a search highlighted
+ */
+const HighlightedText: React.FC<{ text: string; query: string }> = ({ text, query }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  for (const [start, end] of getMatchRanges(text, query)) {
+    parts.push(text.slice(position, start));
+    parts.push(
+      <Text key={start} color="magenta" underline>
+        {text.slice(start, end)}
+      </Text>
+    );
+    position = end;
+  }
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
 export const ModelSelector: React.FC<ModelSelectorProps> = ({
   models,
   onSelect,
@@ -26,14 +66,25 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
   searchPlaceholder: _searchPlaceholder = 'Search models...',
   initialRegularModel = null,
   initialThinkingModel = null,
+  recentModels,
+  aliases,
+  favoriteModels,
+  onToggleFavorite,
+  probeProblems,
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
+  const [matchedText, setMatchedText] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [filteredModels, setFilteredModels] = useState<ModelInfoImpl[]>(models);
+  const [filterError, setFilterError] = useState<string | null>(null);
+  const [pinned, setPinned] = useState<string[]>(favoriteModels || []);
+  // Sections of the listed models; null while searching, as results are ranked instead
+  const [sections, setSections] = useState<ModelSection[] | null>(null);
   const [selectedRegularModel] = useState<ModelInfoImpl | null>(initialRegularModel);
   const [selectedThinkingModel, setSelectedThinkingModel] = useState<ModelInfoImpl | null>(
     initialThinkingModel
   );
+  const [thinkingWarning, setThinkingWarning] = useState<string | null>(null);
 
   const { exit } = useApp();
   useStdout();
@@ -41,24 +92,48 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
   // Filter models based on search query
   useEffect(() => {
     if (!searchQuery) {
-      setFilteredModels(models);
+      const sectioned = sectionModels(models, { pinned, recent: recentModels });
+      setFilteredModels(sectioned.map(entry => entry.model));
+      setSections(sectioned.map(entry => entry.section));
+      setMatchedText('');
+      setFilterError(null);
       return;
     }
 
-    const query = searchQuery.toLowerCase();
-    const filtered = models.filter(model => {
-      const searchText = [
-        model.id.toLowerCase(),
-        model.getProvider().toLowerCase(),
-        model.getModelName().toLowerCase(),
-      ].join(' ');
-
-      return searchText.includes(query);
-    });
+    // Keep the last matches while a half-typed expression does not parse
+    let query;
+    try {
+      query = parseModelQuery(searchQuery);
+    } catch (error) {
+      if (!(error instanceof ModelFilterError)) throw error;
+      setFilterError(error.message);
+      return;
+    }
 
-    setFilteredModels(filtered);
+    // Plain words rank the matches by relevance; structured terms only filter
+    const matches = models.filter(query.filter);
+    setSections(null);
+    setFilterError(null);
+    setMatchedText(query.text);
+    setFilteredModels(query.text ? rankModels(matches, query.text, { recentModels }) : matches);
     setSelectedIndex(0); // Reset selection when filter changes
-  }, [searchQuery, models]);
+  }, [searchQuery, models, recentModels, pinned]);
+
+  const togglePinned = (model: ModelInfoImpl) => {
+    const wasPinned = pinned.includes(model.id);
+    const next = wasPinned ? pinned.filter(id => id !== model.id) : [...pinned, model.id];
+    setPinned(next);
+    onToggleFavorite?.(model.id, !wasPinned);
+
+    // Keep the cursor on the model as it moves between sections
+    if (!searchQuery) {
+      setSelectedIndex(
+        sectionModels(models, { pinned: next, recent: recentModels }).findIndex(
+          entry => entry.model.id === model.id
+        )
+      );
+    }
+  };
 
   // Calculate visible range for better scrolling
   const visibleStartIndex = Math.max(0, selectedIndex - LIST_VISIBLE_BEFORE);
@@ -67,6 +142,15 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
 
   // Handle keyboard input
   useInput((input, key) => {
+    // 'p' pins or unpins the highlighted model; Ctrl+P also works while searching
+    if (input === 'p' && (key.ctrl || (!searchQuery && !key.meta))) {
+      const selectedModel = filteredModels[selectedIndex];
+      if (selectedModel) {
+        togglePinned(selectedModel);
+      }
+      return;
+    }
+
     // Handle special 't' key for thinking model selection when no search query exists
     if (input === 't' && !searchQuery && !key.ctrl && !key.meta) {
       if (filteredModels.length > 0 && selectedIndex < filteredModels.length) {
@@ -75,8 +159,15 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
           // Toggle thinking model selection
           if (selectedThinkingModel?.id === selectedModel.id) {
             setSelectedThinkingModel(null);
+            setThinkingWarning(null);
           } else {
             setSelectedThinkingModel(selectedModel);
+            const classification = classifyThinkingModel(selectedModel);
+            setThinkingWarning(
+              classification.thinking
+                ? null
+                : `${selectedModel.getDisplayName()} is not known to be a thinking model (${classification.reason})`
+            );
           }
         }
       }
@@ -97,7 +188,8 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
       !key.rightArrow &&
       !key.delete &&
       !key.backspace &&
-      input !== 'q' &&
+      !(input === 'q' && !searchQuery) &&
+      !(input === 'p' && !searchQuery) &&
       !(input === 't' && !searchQuery)
     ) {
       setSearchQuery(prev => prev + input);
@@ -177,10 +269,25 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
         </Text>
       </Box>
 
+      {thinkingWarning && (
+        <Box marginBottom={UI_MARGIN_BOTTOM}>
+          <Text color="yellow">⚠ {thinkingWarning}</Text>
+        </Box>
+      )}
+
       <Box marginBottom={UI_MARGIN_BOTTOM}>
-        <Text color="gray">Search: {searchQuery || '(type to search)'} </Text>
+        <Text color="gray">
+          Search:{' '}
+          {searchQuery || '(type to search, or filter with ctx>=128k feature:tools ...)'}{' '}
+        </Text>
       </Box>
 
+      {filterError && (
+        <Box marginBottom={UI_MARGIN_BOTTOM}>
+          <Text color="red">{filterError}</Text>
+        </Box>
+      )}
+
       {filteredModels.length > 0 ? (
         <>
           <Box marginBottom={UI_MARGIN_BOTTOM}>
@@ -209,9 +316,19 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
               return '    ';
             };
 
+            const modelAliases = aliases ? findModelAliases(aliases, model.id) : [];
+            const section = sections?.[actualIndex];
+            const startsSection =
+              section !== undefined && (index === 0 || sections?.[actualIndex - 1] !== section);
+
             return (
               <Box key={model.id} marginBottom={UI_MARGIN_BOTTOM}>
                 <Box flexDirection="column">
+                  {startsSection && (
+                    <Text color="cyan" bold>
+                      {MODEL_SECTION_TITLES[section]}
+                    </Text>
+                  )}
                   <Box>
                     <Text
                       color={
@@ -229,7 +346,14 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
                     >
                       {actualIndex === selectedIndex ? '▸ ' : '  '}
                       {getSelectionIndicator()}
-                      {actualIndex + 1}. {model.getDisplayName()}
+                      {actualIndex + 1}. {pinned.includes(model.id) ? '★ ' : ''}
+                      <HighlightedText text={model.getDisplayName()} query={matchedText} />
+                      {modelAliases.length > 0 && (
+                        <Text color="gray"> (alias: {modelAliases.join(', ')})</Text>
+                      )}
+                      {probeProblems?.[model.id] && (
+                        <Text color="red"> ⚠ {probeProblems[model.id]}</Text>
+                      )}
                     </Text>
                   </Box>
                   <Box marginLeft={UI_INDENT_SPACES}>
@@ -239,7 +363,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
                         typeof model.context_length === 'number' &&
                         ` | Context: ${Math.round(model.context_length / BYTES_PER_KB)}K`}
                       {'quantization' in model && model.quantization && ` | ${model.quantization}`}
-                      {isThinkingModel(model.id) && ' | 🤔 Thinking'}
+                      {isThinkingCapable(model) && ' | 🤔 Thinking'}
                     </Text>
                   </Box>
                 </Box>
@@ -256,8 +380,8 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
 
           <Box marginTop={1}>
             <Text color="gray">
-              ↑↓ Navigate | Enter: Regular Model + Launch | t: Toggle Thinking Model | Space: Launch
-              | q: Quit
+              ↑↓ Navigate | Enter: Regular Model + Launch | t: Toggle Thinking Model | p: Pin |
+              Space: Launch | q: Quit
             </Text>
           </Box>
         </>
@@ -1,7 +1,8 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { ModelInfoImpl } from '../../models/info';
-import { isThinkingModel } from '../../utils/model-utils';
+import { MODEL_SECTION_TITLES, sectionModels } from '../../models/sections';
+import { isThinkingCapable } from '../../models/thinking';
 
 export type TierType = 'default' | 'opus' | 'sonnet' | 'haiku' | 'subagent' | 'thinking';
 
@@ -26,6 +27,14 @@ export interface TierSelectorProps {
   defaultModelId?: string;
   onSelect: (selection: TierSelection) => void;
   onCancel: () => void;
+  /** Recently used model IDs, most recent first; listed after the pinned ones */
+  recentModels?: string[];
+  /** Pinned model IDs; they are listed first */
+  favoriteModels?: string[];
+  /** Called when a model is pinned or unpinned */
+  onToggleFavorite?: (modelId: string, pinned: boolean) => void;
+  /** What the last probe found wrong with failing models, by model ID */
+  probeProblems?: Record<string, string>;
 }
 
 const TIER_ORDER: TierType[] = ['default', 'opus', 'sonnet', 'haiku', 'subagent', 'thinking'];
@@ -53,6 +62,10 @@ export function TierSelector({
   defaultModelId,
   onSelect,
   onCancel,
+  recentModels,
+  favoriteModels,
+  onToggleFavorite,
+  probeProblems,
 }: TierSelectorProps) {
   const [activeTier, setActiveTier] = useState<TierType>('default');
   const [selectedIndex, setSelectedIndex] = useState(0);
@@ -66,12 +79,20 @@ export function TierSelector({
     thinking: initialSelection.thinking || '',
   });
   const [confirmMode, setConfirmMode] = useState(false);
+  const [pinned, setPinned] = useState<string[]>(favoriteModels || []);
+
+  // Pinned and recent models come first
+  const sectioned = useMemo(
+    () => sectionModels(models, { pinned, recent: recentModels }),
+    [models, pinned, recentModels]
+  );
+  const listedModels = useMemo(() => sectioned.map(entry => entry.model), [sectioned]);
 
   // Initialize selectedIndex to point to the first selected model or 0
   useEffect(() => {
     const activeTierModelId = selections[activeTier];
     if (activeTierModelId) {
-      const idx = models.findIndex(m => m.id === activeTierModelId);
+      const idx = listedModels.findIndex(m => m.id === activeTierModelId);
       if (idx >= 0) setSelectedIndex(idx);
     }
   }, [activeTier, models]);
@@ -93,18 +114,36 @@ export function TierSelector({
   }, []);
 
   const handleArrowDown = useCallback(() => {
-    setSelectedIndex(idx => (idx < models.length - 1 ? idx + 1 : idx));
-  }, [models.length]);
+    setSelectedIndex(idx => (idx < listedModels.length - 1 ? idx + 1 : idx));
+  }, [listedModels.length]);
 
   const handleSpace = useCallback(() => {
-    const selectedModel = models[selectedIndex];
+    const selectedModel = listedModels[selectedIndex];
     if (selectedModel) {
       setSelections(prev => ({
         ...prev,
         [activeTier]: selectedModel.id,
       }));
     }
-  }, [selectedIndex, activeTier, models]);
+  }, [selectedIndex, activeTier, listedModels]);
+
+  const handlePin = useCallback(() => {
+    const selectedModel = listedModels[selectedIndex];
+    if (!selectedModel) return;
+
+    const wasPinned = pinned.includes(selectedModel.id);
+    const next = wasPinned
+      ? pinned.filter(id => id !== selectedModel.id)
+      : [...pinned, selectedModel.id];
+    setPinned(next);
+    onToggleFavorite?.(selectedModel.id, !wasPinned);
+    // Keep the cursor on the model as it moves between sections
+    setSelectedIndex(
+      sectionModels(models, { pinned: next, recent: recentModels }).findIndex(
+        entry => entry.model.id === selectedModel.id
+      )
+    );
+  }, [listedModels, selectedIndex, pinned, onToggleFavorite, models, recentModels]);
 
   const handleEnter = useCallback(() => {
     setConfirmMode(true);
@@ -152,6 +191,8 @@ export function TierSelector({
       handleBack();
     } else if (input === ' ') {
       handleSpace();
+    } else if (input === 'p') {
+      handlePin();
     }
   });
 
@@ -182,7 +223,7 @@ export function TierSelector({
     return modelId.substring(0, 15);
   };
 
-  const isThinking = (model: ModelInfoImpl): boolean => isThinkingModel(model.id);
+  const isThinking = (model: ModelInfoImpl): boolean => isThinkingCapable(model);
 
   const renderTierRow = (tierKey: TierType) => {
     const isActive = activeTier === tierKey;
@@ -205,16 +246,27 @@ export function TierSelector({
     const isSelected = selectedIndex === index;
     const isTierSelected = selections[activeTier] === model.id;
     const thinking = isThinking(model);
+    const section = sectioned[index]!.section;
+    const startsSection = index === selectedIndex || sectioned[index - 1]?.section !== section;
 
     return (
-      <Box key={model.id}>
-        <Text bold={isSelected} color={isSelected ? 'cyan' : 'white'}>
-          {isSelected ? '> ' : '  '}
-        </Text>
-        <Text color={isSelected ? 'cyan' : 'white'}>{getModelDisplayName(model).padEnd(36)}</Text>
-        {getContextDisplay(model) && <Text dimColor>({getContextDisplay(model)} tokens)</Text>}
-        {thinking && <Text color="magenta"> 🤔</Text>}
-        {isTierSelected && <Text color="green"> ✓</Text>}
+      <Box key={model.id} flexDirection="column">
+        {startsSection && (
+          <Text color="cyan" bold>
+            {MODEL_SECTION_TITLES[section]}
+          </Text>
+        )}
+        <Box>
+          <Text bold={isSelected} color={isSelected ? 'cyan' : 'white'}>
+            {isSelected ? '> ' : '  '}
+            {pinned.includes(model.id) ? '★ ' : ''}
+          </Text>
+          <Text color={isSelected ? 'cyan' : 'white'}>{getModelDisplayName(model).padEnd(36)}</Text>
+          {getContextDisplay(model) && <Text dimColor>({getContextDisplay(model)} tokens)</Text>}
+          {thinking && <Text color="magenta"> 🤔</Text>}
+          {probeProblems?.[model.id] && <Text color="red"> ⚠ {probeProblems[model.id]}</Text>}
+          {isTierSelected && <Text color="green"> ✓</Text>}
+        </Box>
       </Box>
     );
   };
@@ -305,7 +357,7 @@ export function TierSelector({
       </Box>
 
       <Box flexDirection="column" marginBottom={1}>
-        {models
+        {listedModels
           .slice(selectedIndex, selectedIndex + 12)
           .map((model, idx) => renderModelRow(model, selectedIndex + idx))}
       </Box>
@@ -344,6 +396,11 @@ export function TierSelector({
           Confirm
         </Text>
         <Text color="white"> | </Text>
+        <Text color="white">[p] </Text>
+        <Text color="cyan" bold>
+          Pin
+        </Text>
+        <Text color="white"> | </Text>
         <Text color="white">[Esc] </Text>
         <Text color="red" bold>
           Cancel
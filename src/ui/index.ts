@@ -1,4 +1,4 @@
-export { UserInterface, type UIOptions } from './user-interface';
+export { UserInterface, type UIOptions, type ModelSelectionOptions } from './user-interface';
 export * from './components/ModelList';
 export * from './components/ModelSelector';
 export * from './components/TierSelector';
@@ -2,19 +2,50 @@ import { render } from 'ink';
 import React from 'react';
 import chalk from 'chalk';
 import { createInterface } from 'readline';
-import { ModelInfoImpl } from '../models';
+import {
+  CostEstimate,
+  MODEL_COLUMNS,
+  ModelColumn,
+  ModelComparisonRow,
+  ModelInfoImpl,
+  ModelProbeResult,
+  describeProbeProblem,
+  formatModelColumnValue,
+  TokenPriceKey,
+  formatCost,
+  getModelColumnValue,
+  getModelPricing,
+  getPricePerMillion,
+  isThinkingCapable,
+  ThinkingClassification,
+} from '../models';
 import { ModelSelector } from './components/ModelSelector';
 import { TierSelector, type TierSelection } from './components/TierSelector';
 import { StatusMessage } from './components/StatusMessage';
 import { PasswordInput } from './components/PasswordInput';
 import { BYTES_PER_KB, PERCENTAGE_MAX, DEFAULT_PROGRESS_BAR_LENGTH } from '../utils/constants';
-import { isThinkingModel } from '../utils';
 
 export interface UIOptions {
   verbose?: boolean;
   quiet?: boolean;
 }
 
+/**
+ * What the model selectors know about the user's models
+ */
+export interface ModelSelectionOptions {
+  /** Recently used model IDs, most recent first; listed early and ranked higher in searches */
+  recentModels?: string[];
+  /** Model aliases, shown next to the models they point at */
+  aliases?: Record<string, string>;
+  /** Pinned model IDs; they are listed first */
+  favoriteModels?: string[];
+  /** Called when a model is pinned or unpinned in the selector */
+  onToggleFavorite?: (modelId: string, pinned: boolean) => void;
+  /** What the last probe found wrong with failing models, by model ID */
+  probeProblems?: Record<string, string>;
+}
+
 /**
  * UserInterface handles all user interaction for the synpick CLI
  *
@@ -163,7 +194,7 @@ export class UserInterface {
     models.forEach((model, index) => {
       const marker = selectedIndex === index ? '➤' : ' ';
       const displayName = model.getDisplayName();
-      const thoughtsuffix = isThinkingModel(model.id) ? ' ' + chalk.yellow('🤔 Thinking') : '';
+      const thoughtsuffix = isThinkingCapable(model) ? ' ' + chalk.yellow('🤔 Thinking') : '';
 
       console.log(`${marker} ${index + 1}. ${chalk.cyan(displayName)}${thoughtsuffix}`);
       console.log(`    ${chalk.gray('Provider:')} ${model.getProvider()}`);
@@ -179,15 +210,247 @@ export class UserInterface {
     });
   }
 
+  /**
+   * Displays models as an aligned table
+   *
+   * @param models - The models to display
+   * @param columns - The columns to show, in order
+   */
+  showModelTable(models: ModelInfoImpl[], columns: ModelColumn[]): void {
+    const rows = models.map(model =>
+      columns.map(column => formatModelColumnValue(column, getModelColumnValue(model, column)))
+    );
+    const widths = columns.map((column, index) =>
+      Math.max(MODEL_COLUMNS[column].header.length, ...rows.map(row => row[index]!.length))
+    );
+    const line = (cells: string[]) =>
+      cells
+        .map((cell, index) => cell.padEnd(widths[index]!))
+        .join('  ')
+        .trimEnd();
+
+    console.log(chalk.bold(line(columns.map(column => MODEL_COLUMNS[column].header))));
+    for (const row of rows) {
+      const text = line(row);
+      console.log(
+        columns[0] === 'id' ? chalk.cyan(text.slice(0, widths[0])) + text.slice(widths[0]) : text
+      );
+    }
+  }
+
+  /**
+   * Displays everything known about one model
+   *
+   * @param model - The model to display
+   * @param details - What synpick knows about the model beyond the API data
+   * @param details.thinking - Whether the model is classified as a thinking model, and why
+   * @param details.tiers - The tiers the model is assigned to
+   */
+  showModelDetails(
+    model: ModelInfoImpl,
+    details: { thinking: ThinkingClassification; tiers: string[] }
+  ): void {
+    const field = (label: string, value: string | number | undefined) =>
+      console.log(
+        `  ${chalk.gray(`${label}:`)} ${value === undefined || value === '' ? '-' : value}`
+      );
+    const list = (values?: string[]) => (values?.length ? values.join(', ') : undefined);
+    const tokens = (value?: number) =>
+      value === undefined ? undefined : `${value} (${Math.round(value / BYTES_PER_KB)}K)`;
+    const pricing = getModelPricing(model);
+    const perMillion = (key: TokenPriceKey) => {
+      const price = getPricePerMillion(model, key);
+      return price === undefined ? undefined : `$${price} per million tokens`;
+    };
+
+    console.log(`\n${chalk.cyan.bold(model.id)}`);
+    field('Name', model.getDisplayName());
+    field('Provider', model.getProvider());
+    field('Owned by', model.owned_by);
+    field('Hugging Face ID', model.hugging_face_id);
+    field('OpenRouter slug', model.openrouter?.slug);
+    field('Created', model.created && new Date(model.created * 1000).toISOString().slice(0, 10));
+    field('Always on', model.always_on === undefined ? undefined : model.always_on ? 'Yes' : 'No');
+    field('Context', tokens(model.context_length));
+    field('Max output', tokens(model.max_output_length));
+    field('Quantization', model.quantization);
+    field('Input modalities', list(model.input_modalities));
+    field('Output modalities', list(model.output_modalities));
+    field('Features', list(model.supported_features));
+    field('Sampling parameters', list(model.supported_sampling_parameters));
+    field('Datacenters', list(model.datacenters?.map(dc => dc.country_code || '?')));
+
+    console.log(`  ${chalk.gray('Pricing:')}`);
+    field('  Prompt', perMillion('prompt'));
+    field('  Completion', perMillion('completion'));
+    field('  Cache reads', perMillion('cacheRead'));
+    field('  Cache writes', perMillion('cacheWrite'));
+    field('  Image', pricing.perImage === undefined ? undefined : `$${pricing.perImage} per image`);
+    field(
+      '  Request',
+      pricing.perRequest === undefined ? undefined : `$${pricing.perRequest} per request`
+    );
+
+    field(
+      'Thinking model',
+      `${details.thinking.thinking ? chalk.yellow('Yes 🤔') : 'No'} (${details.thinking.reason})`
+    );
+    field('Tiers', details.tiers.length ? chalk.green(details.tiers.join(', ')) : 'Not assigned');
+    console.log('');
+  }
+
+  /**
+   * Displays models side by side, highlighting the best value of each row
+   *
+   * @param models - The compared models, one column each
+   * @param rows - The comparison rows from compareModels
+   */
+  showModelComparison(models: ModelInfoImpl[], rows: ModelComparisonRow[]): void {
+    const labelWidth = Math.max(...rows.map(row => row.label.length));
+    const widths = models.map((model, index) =>
+      Math.max(model.id.length, ...rows.map(row => row.text[index]!.length))
+    );
+
+    console.log(
+      [
+        ' '.repeat(labelWidth),
+        ...models.map((model, index) => chalk.cyan.bold(model.id.padEnd(widths[index]!))),
+      ]
+        .join('  ')
+        .trimEnd()
+    );
+    for (const row of rows) {
+      const cells = row.text.map((text, index) => {
+        const padded = text.padEnd(widths[index]!);
+        return row.best.includes(index) ? chalk.green.bold(padded) : padded;
+      });
+      console.log([chalk.gray(row.label.padEnd(labelWidth)), ...cells].join('  ').trimEnd());
+    }
+  }
+
+  /**
+   * Displays cost estimates as a table
+   *
+   * @param rows - One estimate per model, with the tiers it is assigned to if any
+   */
+  showCostEstimates(
+    rows: Array<{ model: ModelInfoImpl; tiers?: string[]; estimate: CostEstimate }>
+  ): void {
+    const showTiers = rows.some(row => row.tiers?.length);
+    const header = [
+      'Model',
+      ...(showTiers ? ['Tiers'] : []),
+      'Input',
+      'Output',
+      'Cache',
+      'Requests',
+      'Total',
+    ];
+    const cells = rows.map(({ model, tiers, estimate }) => [
+      model.id,
+      ...(showTiers ? [(tiers || []).join(', ')] : []),
+      formatCost(estimate.input),
+      formatCost(estimate.output),
+      formatCost(estimate.cacheRead + estimate.cacheWrite),
+      formatCost(estimate.requests),
+      formatCost(estimate.total) + (estimate.missing.length ? ' *' : ''),
+    ]);
+    const widths = header.map((title, index) =>
+      Math.max(title.length, ...cells.map(row => row[index]!.length))
+    );
+    // Left-align text columns, right-align amounts
+    const textColumns = showTiers ? 2 : 1;
+    const line = (row: string[]) =>
+      row
+        .map((cell, index) =>
+          index < textColumns ? cell.padEnd(widths[index]!) : cell.padStart(widths[index]!)
+        )
+        .join('  ')
+        .trimEnd();
+
+    console.log(chalk.bold(line(header)));
+    for (const row of cells) {
+      console.log(line(row));
+    }
+
+    const incomplete = rows.filter(row => row.estimate.missing.length);
+    if (incomplete.length > 0) {
+      console.log('');
+      for (const { model, estimate } of incomplete) {
+        console.log(
+          chalk.yellow(`* ${model.id} does not report a ${estimate.missing.join(', ')} price`)
+        );
+      }
+    }
+  }
+
+  /**
+   * Displays model probe results as a table
+   *
+   * Failing models are listed below the table with the reason.
+   *
+   * @param rows - One probe result per model, with the tiers it is assigned to if any
+   */
+  showProbeResults(rows: Array<{ result: ModelProbeResult; tiers?: string[] }>): void {
+    const showTiers = rows.some(row => row.tiers?.length);
+    const duration = (ms?: number) =>
+      ms === undefined ? '-' : ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+    const check = (value?: boolean) => (value === undefined ? '-' : value ? 'yes' : 'no');
+    const header = [
+      'Model',
+      ...(showTiers ? ['Tiers'] : []),
+      'Status',
+      'First token',
+      'Total',
+      'Streaming',
+      'Tools',
+    ];
+    const cells = rows.map(({ result, tiers }) => [
+      result.model,
+      ...(showTiers ? [(tiers || []).join(', ')] : []),
+      result.status === undefined ? '-' : String(result.status),
+      duration(result.timeToFirstTokenMs),
+      duration(result.latencyMs),
+      check(result.streaming),
+      check(result.toolUse),
+    ]);
+    const widths = header.map((title, index) =>
+      Math.max(title.length, ...cells.map(row => row[index]!.length))
+    );
+    const line = (row: string[]) =>
+      row
+        .map((cell, index) => cell.padEnd(widths[index]!))
+        .join('  ')
+        .trimEnd();
+
+    console.log(chalk.bold(line(header)));
+    rows.forEach(({ result }, index) => {
+      const text = line(cells[index]!);
+      console.log(describeProbeProblem(result) ? chalk.red(text) : text);
+    });
+
+    const failed = rows.filter(({ result }) => result.error);
+    if (failed.length > 0) {
+      console.log('');
+      for (const { result } of failed) {
+        console.log(chalk.yellow(`${result.model}: ${result.error}`));
+      }
+    }
+  }
+
   /**
    * Interactive model selection using Ink
    *
    * For backward compatibility - returns a single model (regular or thinking).
    *
    * @param models - The models to select from
+   * @param selection - Recent, pinned and aliased models
    * @returns Promise resolving to the selected model, or null if cancelled
    */
-  async selectModel(models: ModelInfoImpl[]): Promise<ModelInfoImpl | null> {
+  async selectModel(
+    models: ModelInfoImpl[],
+    selection: ModelSelectionOptions = {}
+  ): Promise<ModelInfoImpl | null> {
     if (models.length === 0) {
       this.error('No models available for selection');
       return null;
@@ -197,6 +460,11 @@ export class UserInterface {
       const { waitUntilExit } = render(
         <ModelSelector
           models={models}
+          recentModels={selection.recentModels}
+          aliases={selection.aliases}
+          favoriteModels={selection.favoriteModels}
+          onToggleFavorite={selection.onToggleFavorite}
+          probeProblems={selection.probeProblems}
           onSelect={(regularModel, thinkingModel) => {
             const selected = regularModel || thinkingModel;
             if (selected) {
@@ -226,10 +494,12 @@ export class UserInterface {
    * Allows selecting both regular and thinking models.
    *
    * @param models - The models to select from
+   * @param selection - Recent, pinned and aliased models
    * @returns Promise resolving to an object with regular and thinking models (may be null)
    */
   async selectDualModels(
-    models: ModelInfoImpl[]
+    models: ModelInfoImpl[],
+    selection: ModelSelectionOptions = {}
   ): Promise<{ regular: ModelInfoImpl | null; thinking: ModelInfoImpl | null }> {
     if (models.length === 0) {
       this.error('No models available for selection');
@@ -240,6 +510,11 @@ export class UserInterface {
       const { waitUntilExit } = render(
         <ModelSelector
           models={models}
+          recentModels={selection.recentModels}
+          aliases={selection.aliases}
+          favoriteModels={selection.favoriteModels}
+          onToggleFavorite={selection.onToggleFavorite}
+          probeProblems={selection.probeProblems}
           onSelect={(regularModel, thinkingModel) => {
             if (regularModel || thinkingModel) {
               if (regularModel) this.success(`Regular model: ${regularModel.getDisplayName()}`);
@@ -271,12 +546,14 @@ export class UserInterface {
    * @param models - The models to select from
    * @param initialSelection - Optional initial tier selections
    * @param defaultModelId - Optional default model ID to use as fallback
+   * @param selection - Recent and pinned models
    * @returns Promise resolving to tier selections, or null if cancelled
    */
   async selectTiers(
     models: ModelInfoImpl[],
     initialSelection?: TierSelection,
-    defaultModelId?: string
+    defaultModelId?: string,
+    selection: ModelSelectionOptions = {}
   ): Promise<TierSelection | null> {
     if (models.length === 0) {
       this.error('No models available for selection');
@@ -289,6 +566,10 @@ export class UserInterface {
           models={models}
           initialSelection={initialSelection}
           defaultModelId={defaultModelId}
+          recentModels={selection.recentModels}
+          favoriteModels={selection.favoriteModels}
+          onToggleFavorite={selection.onToggleFavorite}
+          probeProblems={selection.probeProblems}
           onSelect={selection => {
             this.coloredSuccess('Tier models saved successfully');
             resolve(selection);
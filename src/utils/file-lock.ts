@@ -0,0 +1,205 @@
+/**
+ * Advisory file locking and atomic writes
+ *
+ * Several synpick processes can run at once (one per terminal), so shared
+ * files such as config.json and models_cache.json are written through a
+ * lock file and a temporary file that is renamed into place.
+ */
+
+import { randomBytes } from 'crypto';
+import { readFile, rename, stat, unlink, writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { hostname } from 'os';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_STALE_MS = 30000;
+const DEFAULT_RETRY_INTERVAL_MS = 50;
+
+export class FileLockError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'FileLockError';
+  }
+}
+
+export interface FileLockOptions {
+  /** How long to wait for another process to release the lock (default 10s) */
+  timeoutMs?: number;
+  /** Age after which a lock is considered abandoned (default 30s) */
+  staleMs?: number;
+  /** Delay between attempts while waiting (default 50ms) */
+  retryIntervalMs?: number;
+}
+
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  token: string;
+  acquiredAt: string;
+}
+
+/**
+ * Gets the path of the lock file guarding a file
+ *
+ * @param path - The guarded file
+ * @returns The lock file path
+ */
+export function lockPathFor(path: string): string {
+  return `${path}.lock`;
+}
+
+/**
+ * Acquires an advisory lock on a file
+ *
+ * The lock is a sibling ".lock" file created exclusively. A lock left behind
+ * by a crashed process (its pid is gone, or it is older than staleMs) is
+ * removed; otherwise the call waits up to timeoutMs.
+ *
+ * @param path - The file to lock
+ * @param options - Lock options
+ * @returns Promise resolving to a function that releases the lock
+ * @throws FileLockError if the lock cannot be acquired in time
+ */
+export async function acquireFileLock(
+  path: string,
+  options: FileLockOptions = {}
+): Promise<() => Promise<void>> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const retryIntervalMs = options.retryIntervalMs ?? DEFAULT_RETRY_INTERVAL_MS;
+  const lockPath = lockPathFor(path);
+  const owner: LockOwner = {
+    pid: process.pid,
+    hostname: hostname(),
+    token: randomBytes(8).toString('hex'),
+    acquiredAt: new Date().toISOString(),
+  };
+  const content = JSON.stringify(owner);
+  const deadline = Date.now() + timeoutMs;
+
+  await mkdir(dirname(lockPath), { recursive: true });
+
+  for (;;) {
+    try {
+      await writeFile(lockPath, content, { flag: 'wx', mode: 0o600 });
+      return async () => {
+        try {
+          // Only remove the lock if it is still ours
+          if ((await readFile(lockPath, 'utf-8')) === content) {
+            await unlink(lockPath);
+          }
+        } catch {
+          // Already gone
+        }
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw new FileLockError(`Failed to create lock file: ${lockPath}`, error);
+      }
+    }
+
+    if (await removeStaleLock(lockPath, staleMs)) {
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new FileLockError(
+        `Timed out after ${timeoutMs}ms waiting for ${lockPath}. ` +
+          'If no other synpick process is running, delete the lock file.'
+      );
+    }
+    await new Promise(resolve => setTimeout(resolve, retryIntervalMs));
+  }
+}
+
+/**
+ * Runs a function while holding the lock on a file
+ *
+ * @param path - The file to lock
+ * @param fn - The work to do under the lock
+ * @param options - Lock options
+ * @returns Promise resolving to the function's result
+ * @throws FileLockError if the lock cannot be acquired in time
+ */
+export async function withFileLock<T>(
+  path: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const release = await acquireFileLock(path, options);
+  try {
+    return await fn();
+  } finally {
+    await release();
+  }
+}
+
+/**
+ * Writes a file by writing a temporary sibling and renaming it into place,
+ * so readers never see a partially written file
+ *
+ * @param path - The file to write
+ * @param data - The new content
+ * @param options - File mode for the new file (default 0600)
+ * @returns Promise that resolves when the file has been replaced
+ */
+export async function writeFileAtomic(
+  path: string,
+  data: string,
+  options: { mode?: number } = {}
+): Promise<void> {
+  const tempPath = `${path}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  try {
+    await writeFile(tempPath, data, { encoding: 'utf-8', mode: options.mode ?? 0o600 });
+    await rename(tempPath, path);
+  } catch (error) {
+    await unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+async function removeStaleLock(lockPath: string, staleMs: number): Promise<boolean> {
+  let content: string;
+  let ageMs: number;
+  try {
+    content = await readFile(lockPath, 'utf-8');
+    ageMs = Date.now() - (await stat(lockPath)).mtimeMs;
+  } catch {
+    return true; // Released in the meantime; try again straight away
+  }
+
+  let owner: Partial<LockOwner> = {};
+  try {
+    owner = JSON.parse(content);
+  } catch {
+    // Half-written lock file; only the age can tell
+  }
+
+  const ownerGone =
+    owner.hostname === hostname() && typeof owner.pid === 'number' && !isProcessAlive(owner.pid);
+  if (!ownerGone && ageMs < staleMs) {
+    return false;
+  }
+
+  try {
+    // Check it is still the same lock so a fresh one taken meanwhile survives
+    if ((await readFile(lockPath, 'utf-8')) === content) {
+      await unlink(lockPath);
+    }
+  } catch {
+    // Someone else cleaned it up
+  }
+  return true;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
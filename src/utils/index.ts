@@ -1,3 +1,4 @@
 export * from './logger';
 export * from './model-utils';
 export * from './encryption';
+export * from './file-lock';
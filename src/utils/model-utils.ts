@@ -2,6 +2,31 @@
  * Model utility functions
  */
 
+/**
+ * Built-in ID patterns of thinking models, with the reason each one gives
+ */
+const THINKING_ID_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /thinking/, reason: 'contains "thinking"' },
+  { pattern: /minimax.*[23]/, reason: 'is a MiniMax M2 or later model' },
+  { pattern: /deepseek-r[123]/, reason: 'is a DeepSeek R series model' },
+  { pattern: /deepseek.*3[.-]2/, reason: 'is a DeepSeek V3.2 model' },
+  { pattern: /qwq/, reason: 'is a QwQ model' },
+  // Whole name parts only, so "o1" does not match IDs like "pro1" or "v0.1"
+  { pattern: /(^|[^a-z0-9])o[13]([^a-z0-9]|$)/, reason: 'is an OpenAI o1 or o3 series model' },
+  { pattern: /qwen3/, reason: 'is a Qwen 3 model' },
+];
+
+/**
+ * Finds the built-in heuristic that marks a model ID as a thinking model
+ *
+ * @param modelId - The model identifier to check
+ * @returns Why the ID looks like a thinking model, or null if it does not
+ */
+export function findThinkingHeuristic(modelId: string): string | null {
+  const id = modelId.toLowerCase();
+  return THINKING_ID_PATTERNS.find(({ pattern }) => pattern.test(id))?.reason ?? null;
+}
+
 /**
  * Checks if a model ID represents a thinking-capable AI model.
  *
@@ -9,45 +34,12 @@
  * extended reasoning and complex problem-solving tasks,
  * often using chain-of-thought reasoning.
  *
+ * Only the built-in ID heuristics are applied; classifyThinkingModel in the
+ * models module also considers API metadata and the configured rules.
+ *
  * @param modelId - The model identifier to check
  * @returns true if the model is identified as a thinking model, false otherwise
  */
 export function isThinkingModel(modelId: string): boolean {
-  const id = modelId.toLowerCase();
-
-  // Direct "thinking" keyword
-  if (id.includes('thinking')) {
-    return true;
-  }
-
-  // Known thinking model patterns
-  if (id.includes('minimax') && (id.includes('2') || id.includes('3'))) {
-    return true;
-  }
-
-  if (id.includes('deepseek-r1') || id.includes('deepseek-r2') || id.includes('deepseek-r3')) {
-    return true;
-  }
-
-  if (id.includes('deepseek') && (id.includes('3.2') || id.includes('3-2'))) {
-    return true;
-  }
-
-  if (id.includes('qwq')) {
-    return true;
-  }
-
-  if (id.includes('o1')) {
-    return true; // OpenAI o1 series
-  }
-
-  if (id.includes('o3')) {
-    return true; // OpenAI o3 series
-  }
-
-  if (id.includes('qwen3')) {
-    return true; // Qwen 3 thinking variants
-  }
-
-  return false;
+  return findThinkingHeuristic(modelId) !== null;
 }
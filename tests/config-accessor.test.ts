@@ -0,0 +1,110 @@
+/**
+ * Config Accessor Tests
+ *
+ * Tests schema-driven get/set/unset of configuration keys.
+ */
+
+import {
+  ConfigManager,
+  ConfigValidationError,
+  listConfigKeys,
+  maskConfigCredentials,
+} from '../src/config';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('ConfigManager - Key accessor', () => {
+  let tempDir: string;
+  let manager: ConfigManager;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-accessor-'));
+    manager = new ConfigManager(join(tempDir, 'config'), tempDir, {});
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should set nested tier models', async () => {
+    await manager.setConfigValue('models.sonnet', 'hf:test/sonnet');
+
+    const reloaded = new ConfigManager(join(tempDir, 'config'), tempDir, {});
+    expect(reloaded.config.models.sonnet).toBe('hf:test/sonnet');
+    expect(reloaded.getConfigValue('models.sonnet')).toBe('hf:test/sonnet');
+    expect(reloaded.config.models.opus).toBe('');
+  });
+
+  it('should coerce numbers and booleans', async () => {
+    expect(await manager.setConfigValue('apiTimeoutMs', '45000')).toBe(45000);
+    expect(await manager.setConfigValue('autoUpdateClaudeCode', 'no')).toBe(false);
+
+    expect(manager.config.apiTimeoutMs).toBe(45000);
+    expect(manager.config.autoUpdateClaudeCode).toBe(false);
+  });
+
+  it('should reject out-of-range values with the schema message', async () => {
+    await expect(manager.setConfigValue('commandTimeoutMs', '500')).rejects.toThrow(
+      /commandTimeoutMs: .*>=1000/
+    );
+    await expect(manager.setConfigValue('maxTokenSize', 'lots')).rejects.toThrow(
+      ConfigValidationError
+    );
+    expect(manager.config.commandTimeoutMs).toBe(5000);
+  });
+
+  it('should reject unknown keys', async () => {
+    await expect(manager.setConfigValue('models.gpt', 'x')).rejects.toThrow(
+      'Unknown configuration key: models.gpt'
+    );
+    expect(() => manager.getConfigValue('nope')).toThrow(ConfigValidationError);
+  });
+
+  it('should restore defaults and remove optional keys on unset', async () => {
+    await manager.setConfigValue('cacheDurationHours', '48');
+    await manager.setConfigValue('systemPrompt', 'Be brief');
+    await manager.setConfigValue('models.haiku', 'hf:test/haiku');
+
+    expect(await manager.unsetConfigValue('cacheDurationHours')).toBe(24);
+    await manager.unsetConfigValue('systemPrompt');
+    await manager.unsetConfigValue('models.haiku');
+
+    const reloaded = new ConfigManager(join(tempDir, 'config'), tempDir, {});
+    expect(reloaded.config.cacheDurationHours).toBe(24);
+    expect(reloaded.config.systemPrompt).toBeUndefined();
+    expect(reloaded.config.models.haiku).toBe('');
+  });
+
+  it('should describe every key', () => {
+    const keys = listConfigKeys();
+    const timeout = keys.find(key => key.path === 'commandTimeoutMs');
+
+    expect(timeout).toMatchObject({ type: 'number', defaultValue: 5000 });
+    expect(timeout?.description).toBe('Command execution timeout in milliseconds');
+    expect(keys.every(key => key.description)).toBe(true);
+  });
+});
+
+describe('maskConfigCredentials', () => {
+  it('should mask credentials nested in records', () => {
+    const accounts = {
+      work: { apiKey: 'syn_WORKSECRETabcd', baseUrl: 'https://work.example' },
+      home: { encryptedApiKey: 'v1:salt:iv:tag:data9876', apiKeyCommand: 'pass show syn' },
+    };
+
+    expect(maskConfigCredentials('accounts', accounts)).toEqual({
+      work: { apiKey: '••••••••abcd', baseUrl: 'https://work.example' },
+      home: { encryptedApiKey: '••••••••9876', apiKeyCommand: 'pass show syn' },
+    });
+    expect(accounts.work.apiKey).toBe('syn_WORKSECRETabcd');
+  });
+
+  it('should mask credential keys and leave other values alone', () => {
+    expect(maskConfigCredentials('apiKey', 'syn_secret1234')).toBe('••••••••1234');
+    expect(maskConfigCredentials('profiles.cheap.apiKey', 'syn_other5678')).toBe('••••••••5678');
+    expect(maskConfigCredentials('apiKey', '')).toBe('');
+    expect(maskConfigCredentials('models.sonnet', 'hf:a/b')).toBe('hf:a/b');
+    expect(maskConfigCredentials('favoriteModels', ['hf:a/b'])).toEqual(['hf:a/b']);
+  });
+});
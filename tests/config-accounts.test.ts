@@ -0,0 +1,105 @@
+/**
+ * Account Tests
+ *
+ * Tests named accounts and how projects, profiles and --account select them.
+ */
+
+import { AccountError, ConfigManager, modelCacheFileName } from '../src/config';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('ConfigManager - Accounts', () => {
+  let tempDir: string;
+  let configDir: string;
+  let projectDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-accounts-'));
+    configDir = join(tempDir, 'config');
+    projectDir = join(tempDir, 'client-repo');
+    await mkdir(projectDir, { recursive: true });
+
+    const manager = new ConfigManager(configDir, tempDir, {});
+    await manager.updateConfig({ apiKey: 'internal-key' });
+    await manager.addAccount('client', {
+      description: 'Client billing',
+      apiKeyCommand: 'echo client-key',
+      baseUrl: 'https://client.example',
+    });
+    await manager.addAccount('lab', { apiKey: 'lab-key' });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should list accounts and reject duplicates and bad names', async () => {
+    const manager = new ConfigManager(configDir, tempDir, {});
+
+    expect(manager.listAccounts()).toEqual(['client', 'lab']);
+    await expect(manager.addAccount('lab', { apiKey: 'x' })).rejects.toThrow(
+      'Account "lab" already exists'
+    );
+    await expect(manager.addAccount('-bad', {})).rejects.toThrow(AccountError);
+  });
+
+  it('should use the base credentials until an account is selected', () => {
+    const manager = new ConfigManager(configDir, tempDir, {});
+
+    expect(manager.getSelectedAccountName()).toBeUndefined();
+    expect(manager.getApiKey()).toBe('internal-key');
+  });
+
+  it('should replace the whole credential with the default account', async () => {
+    const manager = new ConfigManager(configDir, tempDir, {});
+    await manager.setDefaultAccount('client');
+
+    const effective = manager.getEffectiveConfig();
+    expect(effective.account).toBe('client');
+    expect(effective.apiKey).toBe('');
+    expect(effective.baseUrl).toBe('https://client.example');
+    expect(manager.getApiKeySource()).toBe('command');
+    expect(await manager.resolveApiKey()).toBe('client-key');
+    expect(manager.getConfigSources()['baseUrl']).toBe('account');
+  });
+
+  it('should let a project, then a profile, then --account choose', async () => {
+    await writeFile(join(projectDir, '.synpick.json'), JSON.stringify({ account: 'client' }));
+    const manager = new ConfigManager(configDir, projectDir, {});
+    expect(manager.getSelectedAccountName()).toBe('client');
+
+    await manager.createProfile('research', { account: 'lab' });
+    expect(manager.getSelectedAccountName('research')).toBe('lab');
+    expect(manager.getApiKey('research')).toBe('lab-key');
+
+    manager.useAccount('client');
+    expect(manager.getSelectedAccountName('research')).toBe('client');
+    expect(() => manager.useAccount('missing')).toThrow(AccountError);
+  });
+
+  it('should cache resolved keys per account', async () => {
+    const manager = new ConfigManager(configDir, tempDir, {});
+    await manager.addAccount('other', { apiKeyCommand: 'echo other-key' });
+
+    manager.useAccount('client');
+    expect(await manager.resolveApiKey()).toBe('client-key');
+    manager.useAccount('other');
+    expect(manager.getApiKey()).toBe('');
+    expect(await manager.resolveApiKey()).toBe('other-key');
+  });
+
+  it('should clear the default when its account is removed', async () => {
+    const manager = new ConfigManager(configDir, tempDir, {});
+    await manager.setDefaultAccount('lab');
+    await manager.removeAccount('lab');
+
+    expect(manager.getDefaultAccountName()).toBeUndefined();
+    await expect(manager.removeAccount('lab')).rejects.toThrow('Account "lab" does not exist');
+  });
+
+  it('should keep a model cache per account', () => {
+    expect(modelCacheFileName()).toBe('models_cache.json');
+    expect(modelCacheFileName('client')).toBe('models_cache.client.json');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Model Alias Tests
+ *
+ * Tests model aliases and where they are resolved to model IDs.
+ */
+
+import {
+  ConfigManager,
+  ModelAliasError,
+  findModelAliases,
+  isModelConfigKey,
+  resolveTierAliases,
+} from '../src/config';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const DEEPSEEK = 'hf:deepseek-ai/DeepSeek-V3';
+const KIMI = 'hf:moonshotai/Kimi-K2-Thinking';
+
+describe('ConfigManager - Model aliases', () => {
+  let tempDir: string;
+  let configDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-aliases-'));
+    configDir = join(tempDir, 'config');
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should add, resolve and remove aliases', async () => {
+    const manager = new ConfigManager(configDir, tempDir, {});
+    await manager.addModelAlias('fast', DEEPSEEK);
+
+    expect(manager.getModelAliases()).toEqual({ fast: DEEPSEEK });
+    expect(manager.resolveModelAlias('fast')).toBe(DEEPSEEK);
+    expect(manager.resolveModelAlias(KIMI)).toBe(KIMI);
+    expect(manager.resolveModelAlias('constructor')).toBe('constructor');
+
+    await manager.removeModelAlias('fast');
+    expect(manager.resolveModelAlias('fast')).toBe('fast');
+    await expect(manager.removeModelAlias('fast')).rejects.toThrow(ModelAliasError);
+  });
+
+  it('should reject bad names and replace existing aliases only when forced', async () => {
+    const manager = new ConfigManager(configDir, tempDir, {});
+    await manager.addModelAlias('fast', DEEPSEEK);
+
+    await expect(manager.addModelAlias('hf:fast', DEEPSEEK)).rejects.toThrow(ModelAliasError);
+    await expect(manager.addModelAlias('fast', KIMI)).rejects.toThrow('already points at');
+    await manager.addModelAlias('fast', KIMI, true);
+    expect(manager.resolveModelAlias('fast')).toBe(KIMI);
+  });
+
+  it('should copy the target of an alias pointing at another alias', async () => {
+    const manager = new ConfigManager(configDir, tempDir, {});
+    await manager.addModelAlias('think', KIMI);
+
+    expect(await manager.addModelAlias('deep', 'think')).toBe(KIMI);
+    await manager.removeModelAlias('think');
+    expect(manager.resolveModelAlias('deep')).toBe(KIMI);
+  });
+
+  it('should store model IDs when model keys are set through an alias', async () => {
+    const manager = new ConfigManager(configDir, tempDir, {});
+    await manager.addModelAlias('fast', DEEPSEEK);
+
+    expect(await manager.setConfigValue('models.sonnet', 'fast')).toBe(DEEPSEEK);
+    expect(await manager.setConfigValue('selectedModel', 'fast')).toBe(DEEPSEEK);
+    expect(await manager.setConfigValue('anthropicBaseUrl', 'https://fast.example')).toBe(
+      'https://fast.example'
+    );
+  });
+});
+
+describe('Model alias helpers', () => {
+  const aliases = { fast: DEEPSEEK, quick: DEEPSEEK, think: KIMI };
+
+  it('should resolve aliases among tier models', () => {
+    expect(resolveTierAliases(aliases, { sonnet: 'fast', opus: KIMI, haiku: '' })).toEqual({
+      sonnet: DEEPSEEK,
+      opus: KIMI,
+      haiku: '',
+    });
+  });
+
+  it('should find the aliases of a model', () => {
+    expect(findModelAliases(aliases, DEEPSEEK)).toEqual(['fast', 'quick']);
+    expect(findModelAliases(aliases, 'hf:a/b')).toEqual([]);
+  });
+
+  it('should know which config keys hold model IDs', () => {
+    expect(isModelConfigKey('models.opus')).toBe(true);
+    expect(isModelConfigKey('selectedThinkingModel')).toBe(true);
+    expect(isModelConfigKey('apiKey')).toBe(false);
+  });
+});
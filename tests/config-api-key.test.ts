@@ -0,0 +1,113 @@
+/**
+ * API Key Source Tests
+ *
+ * Tests plain, command and encrypted-at-rest API keys.
+ */
+
+import {
+  ApiKeyError,
+  AppConfigSchema,
+  ConfigManager,
+  decryptApiKey,
+  encryptApiKey,
+  getApiKeySource,
+  stripSensitiveKeys,
+} from '../src/config';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('API key sources', () => {
+  it('should prefer a plain key, then a command, then an encrypted key', () => {
+    const base = AppConfigSchema.parse({ apiKeyCommand: 'echo key', encryptedApiKey: '{}' });
+
+    expect(getApiKeySource({ ...base, apiKey: 'plain' })).toBe('plain');
+    expect(getApiKeySource(base)).toBe('command');
+    expect(getApiKeySource({ ...base, apiKeyCommand: undefined })).toBe('encrypted');
+    expect(getApiKeySource(AppConfigSchema.parse({}))).toBe('none');
+  });
+
+  it('should round-trip an encrypted key and reject a wrong passphrase', () => {
+    const encrypted = encryptApiKey('syn-secret', 'correct horse');
+
+    expect(encrypted).not.toContain('syn-secret');
+    expect(decryptApiKey(encrypted, 'correct horse')).toBe('syn-secret');
+    expect(() => decryptApiKey(encrypted, 'wrong')).toThrow(ApiKeyError);
+  });
+
+  it('should never let an untrusted overlay set a key command', () => {
+    expect(stripSensitiveKeys({ apiKeyCommand: 'curl evil', maxTokenSize: 1000 })).toEqual({
+      maxTokenSize: 1000,
+    });
+  });
+});
+
+describe('ConfigManager - API key resolution', () => {
+  let tempDir: string;
+  let configDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-apikey-'));
+    configDir = join(tempDir, 'config');
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should read the key from a command', async () => {
+    const manager = new ConfigManager(configDir, tempDir, {});
+    await manager.setApiKeyCommand('echo cmd-key; echo second-line');
+
+    expect(manager.hasApiKey()).toBe(true);
+    expect(manager.getApiKey()).toBe('');
+    expect(await manager.resolveApiKey()).toBe('cmd-key');
+    expect(manager.getApiKey()).toBe('cmd-key');
+  });
+
+  it('should report failing and slow commands', async () => {
+    const manager = new ConfigManager(configDir, tempDir, {});
+    await manager.updateConfig({ apiKeyCommand: 'exit 3' });
+    await expect(manager.resolveApiKey()).rejects.toThrow('API key command failed: exit 3');
+
+    const slow = new ConfigManager(configDir, tempDir, {});
+    await slow.updateConfig({ apiKeyCommand: 'sleep 5', commandTimeoutMs: 1000 });
+    await expect(slow.resolveApiKey()).rejects.toThrow(/timed out after 1000ms/);
+  });
+
+  it('should store the key encrypted and unlock it from the environment', async () => {
+    await new ConfigManager(configDir, tempDir, {}).setEncryptedApiKey('syn-secret', 'pass');
+
+    const saved = await readFile(join(configDir, 'config.json'), 'utf-8');
+    expect(saved).not.toContain('syn-secret');
+
+    const manager = new ConfigManager(configDir, tempDir, { SYNPICK_API_KEY_PASSPHRASE: 'pass' });
+    expect(manager.getApiKeySource()).toBe('encrypted');
+    expect(await manager.resolveApiKey()).toBe('syn-secret');
+  });
+
+  it('should unlock with a key file or a prompt', async () => {
+    const keyFile = join(tempDir, 'synpick.key');
+    await writeFile(keyFile, 'file-pass\n', 'utf-8');
+    await new ConfigManager(configDir, tempDir, {}).setEncryptedApiKey('k1', 'file-pass', keyFile);
+    expect(await new ConfigManager(configDir, tempDir, {}).resolveApiKey()).toBe('k1');
+
+    await new ConfigManager(configDir, tempDir, {}).setEncryptedApiKey('k2', 'typed');
+    const prompted = new ConfigManager(configDir, tempDir, {});
+    expect(await prompted.resolveApiKey({ askPassphrase: async () => 'typed' })).toBe('k2');
+
+    await expect(new ConfigManager(configDir, tempDir, {}).resolveApiKey()).rejects.toThrow(
+      /SYNPICK_API_KEY_PASSPHRASE/
+    );
+  });
+
+  it('should clear other sources when a plain key is set', async () => {
+    const manager = new ConfigManager(configDir, tempDir, {});
+    await manager.setApiKeyCommand('echo cmd-key');
+    await manager.setApiKey('plain-key');
+
+    const reloaded = new ConfigManager(configDir, tempDir, {});
+    expect(reloaded.config.apiKeyCommand).toBeUndefined();
+    expect(await reloaded.resolveApiKey()).toBe('plain-key');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Environment Override Tests
+ *
+ * Tests SYNPICK_* variables: naming, coercion, validation and source tracking.
+ */
+
+import { ConfigManager, envVarName, listConfigKeys, readEnvOverrides } from '../src/config';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Environment overrides', () => {
+  it('should derive variable names from config keys', () => {
+    expect(envVarName('apiKey')).toBe('SYNPICK_API_KEY');
+    expect(envVarName('maxTokenSize')).toBe('SYNPICK_MAX_TOKEN_SIZE');
+    expect(envVarName('models.sonnet')).toBe('SYNPICK_MODELS_SONNET');
+    expect(envVarName('claudeCodeUpdateCheckInterval')).toBe(
+      'SYNPICK_CLAUDE_CODE_UPDATE_CHECK_INTERVAL'
+    );
+  });
+
+  it('should expose every schema field, including nested tiers', () => {
+    const paths = listConfigKeys().map(key => key.path);
+
+    expect(paths).toEqual(
+      expect.arrayContaining(['apiKey', 'apiTimeoutMs', 'models.sonnet', 'models.thinking'])
+    );
+    expect(paths).not.toContain('models');
+  });
+
+  it('should coerce numbers, booleans and JSON values', () => {
+    const overrides = readEnvOverrides({
+      SYNPICK_MAX_TOKEN_SIZE: '64000',
+      SYNPICK_AUTO_UPDATE_CLAUDE_CODE: 'false',
+      SYNPICK_MODELS_SONNET: 'hf:env/sonnet',
+      SYNPICK_PROFILES: '{"ci":{"maxTokenSize":4000}}',
+    });
+
+    expect(overrides.errors).toEqual([]);
+    expect(overrides.data).toEqual({
+      maxTokenSize: 64000,
+      autoUpdateClaudeCode: false,
+      models: { sonnet: 'hf:env/sonnet' },
+      profiles: { ci: expect.objectContaining({ maxTokenSize: 4000 }) },
+    });
+    expect(overrides.variables['models.sonnet']).toBe('SYNPICK_MODELS_SONNET');
+  });
+
+  it('should report invalid variables with zod messages and keep the valid ones', () => {
+    const overrides = readEnvOverrides({
+      SYNPICK_MAX_TOKEN_SIZE: '999999',
+      SYNPICK_API_TIMEOUT_MS: 'soon',
+      SYNPICK_FIRST_RUN_COMPLETED: 'maybe',
+      SYNPICK_API_KEY: 'env-key',
+    });
+
+    expect(overrides.data).toEqual({ apiKey: 'env-key' });
+    expect(overrides.errors).toHaveLength(3);
+    expect(overrides.errors.find(e => e.startsWith('SYNPICK_MAX_TOKEN_SIZE'))).toMatch(/200000/);
+  });
+
+  it('should honour legacy SYNTHETIC_* names unless the SYNPICK_ name is set', () => {
+    expect(readEnvOverrides({ SYNTHETIC_API_KEY: 'legacy' }).data).toEqual({ apiKey: 'legacy' });
+    expect(
+      readEnvOverrides({ SYNTHETIC_API_KEY: 'legacy', SYNPICK_API_KEY: 'current' }).data
+    ).toEqual({ apiKey: 'current' });
+  });
+});
+
+describe('ConfigManager - Environment layer', () => {
+  let tempDir: string;
+  let configDir: string;
+  let projectDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-env-'));
+    configDir = join(tempDir, 'config');
+    projectDir = join(tempDir, 'repo');
+    await mkdir(projectDir, { recursive: true });
+
+    await new ConfigManager(configDir, tempDir, {}).updateConfig({
+      apiKey: 'global-key',
+      maxTokenSize: 100000,
+    });
+    await writeFile(
+      join(projectDir, '.synpick.json'),
+      JSON.stringify({ systemPrompt: 'Project prompt', maxTokenSize: 50000 }),
+      'utf-8'
+    );
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should override the global file and project overlay without saving', async () => {
+    const manager = new ConfigManager(configDir, projectDir, {
+      SYNPICK_MAX_TOKEN_SIZE: '32000',
+      SYNPICK_API_KEY: 'env-key',
+    });
+
+    const effective = manager.getEffectiveConfig();
+    expect(effective.maxTokenSize).toBe(32000);
+    expect(effective.systemPrompt).toBe('Project prompt');
+    expect(manager.getApiKey()).toBe('env-key');
+
+    await manager.updateConfig({ cacheDurationHours: 12 });
+    expect(new ConfigManager(configDir, projectDir, {}).config.apiKey).toBe('global-key');
+  });
+
+  it('should trace each key to its source', () => {
+    const manager = new ConfigManager(configDir, projectDir, {
+      SYNPICK_MODELS_OPUS: 'hf:env/opus',
+    });
+    const sources = manager.getConfigSources();
+
+    expect(sources['models.opus']).toBe('env');
+    expect(sources['systemPrompt']).toBe('project');
+    expect(sources['apiKey']).toBe('global');
+    expect(sources['baseUrl']).toBe('default');
+  });
+
+  it('should let the environment complete first-run setup', () => {
+    const fresh = join(tempDir, 'fresh');
+    expect(new ConfigManager(fresh, tempDir, {}).isFirstRun()).toBe(true);
+    expect(
+      new ConfigManager(fresh, tempDir, { SYNPICK_FIRST_RUN_COMPLETED: 'true' }).isFirstRun()
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Config History Tests
+ *
+ * Tests revision recording, bounded history and rollback.
+ */
+
+import {
+  ConfigHistory,
+  ConfigHistoryError,
+  ConfigManager,
+  describeCommand,
+  diffConfigs,
+} from '../src/config';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Config history helpers', () => {
+  it('should hide secret arguments in recorded commands', () => {
+    expect(describeCommand(['config', 'set', 'apiKey', 'sk-123'])).toBe(
+      'synpick config set apiKey ***'
+    );
+    expect(describeCommand(['profile', 'create', 'work', '--api-key', 'sk-123'])).toBe(
+      'synpick profile create work --api-key ***'
+    );
+    expect(describeCommand(['config', 'set', 'models.sonnet', 'hf:a/b'])).toBe(
+      'synpick config set models.sonnet hf:a/b'
+    );
+  });
+
+  it('should list changed, added and removed keys', () => {
+    expect(
+      diffConfigs(
+        { maxTokenSize: 1000, models: { sonnet: 'a' }, systemPrompt: 'x' },
+        { maxTokenSize: 2000, models: { sonnet: 'a', opus: 'b' } }
+      )
+    ).toEqual([
+      { key: 'maxTokenSize', before: 1000, after: 2000 },
+      { key: 'systemPrompt', before: 'x', after: undefined },
+      { key: 'models.opus', before: undefined, after: 'b' },
+    ]);
+  });
+});
+
+describe('ConfigManager - History', () => {
+  let tempDir: string;
+  let configDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-history-'));
+    configDir = join(tempDir, 'config');
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  const createManager = (command: string): ConfigManager => {
+    const manager = new ConfigManager(configDir, tempDir, {});
+    manager.setChangeCommand(command);
+    return manager;
+  };
+
+  it('should record each save with its command', async () => {
+    await createManager('synpick setup').updateConfig({ apiKey: 'key' });
+    await createManager('synpick tiers').setConfigValue('models.sonnet', 'hf:a/sonnet');
+
+    const revisions = createManager('').getHistory();
+    expect(revisions.map(r => r.command)).toEqual(['synpick setup', 'synpick tiers']);
+    expect(revisions.map(r => r.id)).toEqual([1, 2]);
+    expect((revisions[1]!.config.models as Record<string, string>).sonnet).toBe('hf:a/sonnet');
+  });
+
+  it('should not record saves that only update recent models', async () => {
+    await createManager('synpick setup').updateConfig({ apiKey: 'key' });
+    const manager = createManager('synpick');
+    await manager.addRecentModels(['hf:a/one']);
+    await manager.addRecentModels(['hf:a/two', 'hf:a/one']);
+
+    expect(manager.getRecentModels()).toEqual(['hf:a/two', 'hf:a/one']);
+    expect(manager.getHistory().map(r => r.command)).toEqual(['synpick setup']);
+  });
+
+  it('should keep only the most recent revisions', async () => {
+    const history = new ConfigHistory(join(tempDir, 'history.json'), 3);
+    for (let i = 1; i <= 5; i++) {
+      await history.record({ maxTokenSize: i * 1000 }, `change ${i}`);
+    }
+
+    const reloaded = new ConfigHistory(join(tempDir, 'history.json'), 3);
+    expect(reloaded.list().map(r => r.id)).toEqual([3, 4, 5]);
+    expect(reloaded.get(1)).toBeUndefined();
+  });
+
+  it('should roll back by steps and by id', async () => {
+    await createManager('one').updateConfig({ maxTokenSize: 10000 });
+    await createManager('two').updateConfig({ maxTokenSize: 20000 });
+    await createManager('three').updateConfig({ maxTokenSize: 30000 });
+
+    const manager = createManager('synpick config rollback');
+    expect((await manager.rollbackConfig({ steps: 1 })).id).toBe(2);
+    expect(manager.config.maxTokenSize).toBe(20000);
+
+    await manager.rollbackConfig({ id: 1 });
+    const saved = JSON.parse(await readFile(join(configDir, 'config.json'), 'utf-8'));
+    expect(saved.maxTokenSize).toBe(10000);
+
+    const revisions = manager.getHistory();
+    expect(revisions[revisions.length - 1]!.command).toBe(
+      'synpick config rollback (restored revision 1)'
+    );
+  });
+
+  it('should reject revisions outside the history', async () => {
+    await createManager('one').updateConfig({ maxTokenSize: 10000 });
+    const manager = createManager('rollback');
+
+    await expect(manager.rollbackConfig({ id: 99 })).rejects.toThrow(ConfigHistoryError);
+    await expect(manager.rollbackConfig({ steps: 1 })).rejects.toThrow(/history holds 1/);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Config Migration Tests
+ *
+ * Tests configVersion upgrades, field-level recovery and config migrate.
+ */
+
+import {
+  CONFIG_VERSION,
+  ConfigManager,
+  AppConfigSchema,
+  migrateConfig,
+  recoverConfig,
+  syncLegacySelections,
+} from '../src/config';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Config migrations', () => {
+  it('should move legacy selections into the tiers and stamp the version', () => {
+    const result = migrateConfig({
+      selectedModel: 'hf:a/main',
+      selectedThinkingModel: 'hf:a/think',
+    });
+
+    expect(result.fromVersion).toBe(0);
+    expect(result.toVersion).toBe(CONFIG_VERSION);
+    expect(result.applied.map(m => m.version)).toEqual([1]);
+    expect(result.data.models).toEqual({ default: 'hf:a/main', thinking: 'hf:a/think' });
+    expect(result.data.configVersion).toBe(1);
+  });
+
+  it('should skip migrations the file already has', () => {
+    const data = { configVersion: CONFIG_VERSION, selectedModel: 'hf:a/main' };
+    const result = migrateConfig(data);
+
+    expect(result.applied).toEqual([]);
+    expect(result.data).toBe(data);
+  });
+
+  it('should drop only the invalid fields', () => {
+    const { config, dropped } = recoverConfig({
+      apiKey: 'kept',
+      maxTokenSize: 'huge',
+      models: { sonnet: 'hf:a/sonnet', opus: 42 },
+    });
+
+    expect(config.apiKey).toBe('kept');
+    expect(config.maxTokenSize).toBe(AppConfigSchema.parse({}).maxTokenSize);
+    expect(config.models.sonnet).toBe('hf:a/sonnet');
+    expect(dropped.map(field => field.path).sort()).toEqual(['maxTokenSize', 'models.opus']);
+  });
+
+  it('should mirror selection changes into the tiers and back', () => {
+    const previous = AppConfigSchema.parse({
+      selectedModel: 'hf:a/old',
+      models: { default: 'hf:a/old' },
+    });
+
+    const viaLegacy = syncLegacySelections(previous, { ...previous, selectedModel: 'hf:a/new' });
+    expect(viaLegacy.models.default).toBe('hf:a/new');
+
+    const viaTier = syncLegacySelections(previous, {
+      ...previous,
+      models: { ...previous.models, default: 'hf:a/tier' },
+    });
+    expect(viaTier.selectedModel).toBe('hf:a/tier');
+  });
+});
+
+describe('ConfigManager - Migrations', () => {
+  let tempDir: string;
+  let configDir: string;
+  let configPath: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-migrate-'));
+    configDir = join(tempDir, 'config');
+    configPath = join(configDir, 'config.json');
+    await mkdir(configDir, { recursive: true });
+    await writeFile(
+      configPath,
+      JSON.stringify({ apiKey: 'legacy-key', selectedModel: 'hf:a/main', cacheDurationHours: 999 }),
+      'utf-8'
+    );
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load an old file without losing its valid fields', () => {
+    const manager = new ConfigManager(configDir, tempDir, {});
+
+    expect(manager.config.apiKey).toBe('legacy-key');
+    expect(manager.config.models.default).toBe('hf:a/main');
+    expect(manager.config.cacheDurationHours).toBe(24);
+
+    const report = manager.getLoadReport();
+    expect(report.fromVersion).toBe(0);
+    expect(report.applied).toHaveLength(1);
+    expect(report.dropped.map(field => field.path)).toEqual(['cacheDurationHours']);
+  });
+
+  it('should preview a migration without writing on dry run', async () => {
+    const before = await readFile(configPath, 'utf-8');
+    const plan = await new ConfigManager(configDir, tempDir, {}).migrate(true);
+
+    expect(plan.changed).toBe(true);
+    expect(plan.after.configVersion).toBe(CONFIG_VERSION);
+    expect(await readFile(configPath, 'utf-8')).toBe(before);
+  });
+
+  it('should write the migrated file and keep a backup', async () => {
+    await new ConfigManager(configDir, tempDir, {}).migrate();
+
+    const saved = JSON.parse(await readFile(configPath, 'utf-8'));
+    expect(saved.configVersion).toBe(CONFIG_VERSION);
+    expect(saved.models.default).toBe('hf:a/main');
+    expect(saved.cacheDurationHours).toBe(24);
+    expect(existsSync(`${configPath}.backup`)).toBe(true);
+
+    const again = await new ConfigManager(configDir, tempDir, {}).migrate(true);
+    expect(again.changed).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Config Profile Tests
+ *
+ * Tests named profiles: CRUD operations, activation, and profile overlays.
+ */
+
+import { ConfigManager, ProfileError, applyProfile, AppConfigSchema } from '../src/config';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('ConfigManager - Profiles', () => {
+  let configManager: ConfigManager;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-profiles-'));
+    configManager = new ConfigManager(tempDir);
+    await configManager.updateConfig({
+      apiKey: 'base-key',
+      selectedModel: 'hf:base/default',
+      firstRunCompleted: true,
+      models: {
+        default: 'hf:base/default',
+        opus: 'hf:base/opus',
+        sonnet: '',
+        haiku: '',
+        subagent: '',
+        thinking: '',
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('createProfile', () => {
+    it('should create and persist a profile', async () => {
+      await configManager.createProfile('cheap', {
+        models: {
+          default: 'hf:cheap/model',
+          opus: '',
+          sonnet: '',
+          haiku: '',
+          subagent: '',
+          thinking: '',
+        },
+        maxTokenSize: 64000,
+      });
+
+      const reloaded = new ConfigManager(tempDir);
+      expect(reloaded.listProfiles()).toEqual(['cheap']);
+      expect(reloaded.getProfile('cheap')?.models.default).toBe('hf:cheap/model');
+      expect(reloaded.getProfile('cheap')?.maxTokenSize).toBe(64000);
+    });
+
+    it('should reject duplicate profile names', async () => {
+      await configManager.createProfile('heavy');
+      await expect(configManager.createProfile('heavy')).rejects.toThrow(ProfileError);
+    });
+
+    it('should reject invalid profile names', async () => {
+      await expect(configManager.createProfile('bad name')).rejects.toThrow(ProfileError);
+      await expect(configManager.createProfile('-dash')).rejects.toThrow(ProfileError);
+    });
+  });
+
+  describe('copyProfile and deleteProfile', () => {
+    it('should copy a profile under a new name', async () => {
+      await configManager.createProfile('heavy', { systemPrompt: 'Refactor carefully' });
+      await configManager.copyProfile('heavy', 'heavy-2');
+
+      expect(configManager.listProfiles()).toEqual(['heavy', 'heavy-2']);
+      expect(configManager.getProfile('heavy-2')?.systemPrompt).toBe('Refactor carefully');
+    });
+
+    it('should fail to copy a missing profile', async () => {
+      await expect(configManager.copyProfile('missing', 'other')).rejects.toThrow(ProfileError);
+    });
+
+    it('should deactivate a profile when it is deleted', async () => {
+      await configManager.createProfile('heavy');
+      await configManager.setActiveProfile('heavy');
+      expect(configManager.getActiveProfileName()).toBe('heavy');
+
+      await configManager.deleteProfile('heavy');
+
+      expect(configManager.listProfiles()).toEqual([]);
+      expect(configManager.getActiveProfileName()).toBeUndefined();
+    });
+  });
+
+  describe('getEffectiveConfig', () => {
+    it('should return the base config when no profile is active', () => {
+      expect(configManager.getEffectiveConfig().models.default).toBe('hf:base/default');
+    });
+
+    it('should apply the active profile', async () => {
+      await configManager.createProfile('cheap', {
+        models: {
+          default: 'hf:cheap/model',
+          opus: '',
+          sonnet: 'hf:cheap/sonnet',
+          haiku: '',
+          subagent: '',
+          thinking: '',
+        },
+        anthropicBaseUrl: 'https://example.test/anthropic',
+      });
+      await configManager.setActiveProfile('cheap');
+
+      const effective = configManager.getEffectiveConfig();
+      expect(effective.selectedModel).toBe('hf:cheap/model');
+      expect(effective.models.sonnet).toBe('hf:cheap/sonnet');
+      // Tiers the profile leaves empty fall back to the base configuration
+      expect(effective.models.opus).toBe('hf:base/opus');
+      expect(effective.anthropicBaseUrl).toBe('https://example.test/anthropic');
+      expect(effective.apiKey).toBe('base-key');
+
+      // The stored configuration is untouched
+      expect(configManager.config.selectedModel).toBe('hf:base/default');
+    });
+
+    it('should prefer an explicitly requested profile over the active one', async () => {
+      await configManager.createProfile('a', { systemPrompt: 'A' });
+      await configManager.createProfile('b', { systemPrompt: 'B' });
+      await configManager.setActiveProfile('a');
+
+      expect(configManager.getEffectiveConfig('b').systemPrompt).toBe('B');
+    });
+
+    it('should throw for an unknown profile', () => {
+      expect(() => configManager.getEffectiveConfig('missing')).toThrow(ProfileError);
+    });
+  });
+});
+
+describe('applyProfile', () => {
+  it('should override credentials and endpoints only when the profile sets them', () => {
+    const base = AppConfigSchema.parse({ apiKey: 'base-key' });
+    const withKey = applyProfile(base, {
+      models: { default: '', opus: '', sonnet: '', haiku: '', subagent: '', thinking: '' },
+      apiKey: 'client-key',
+    });
+
+    expect(withKey.apiKey).toBe('client-key');
+    expect(withKey.baseUrl).toBe(base.baseUrl);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Project Config Overlay Tests
+ *
+ * Tests discovery, merging, validation and source tracking of .synpick.json overlays.
+ */
+
+import { ConfigManager, deepMerge, findProjectConfigFile } from '../src/config';
+import { mkdtemp, mkdir, rm, writeFile, readFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('ConfigManager - Project overlay', () => {
+  let tempDir: string;
+  let configDir: string;
+  let projectDir: string;
+  let nestedDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-project-'));
+    configDir = join(tempDir, 'config');
+    projectDir = join(tempDir, 'repo');
+    nestedDir = join(projectDir, 'src', 'deep');
+    await mkdir(nestedDir, { recursive: true });
+
+    const globalManager = new ConfigManager(configDir, tempDir);
+    await globalManager.updateConfig({
+      apiKey: 'global-key',
+      systemPrompt: 'Global prompt',
+      models: {
+        default: 'hf:global/default',
+        opus: 'hf:global/opus',
+        sonnet: '',
+        haiku: '',
+        subagent: '',
+        thinking: '',
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function writeOverlay(data: unknown): Promise<void> {
+    await writeFile(join(projectDir, '.synpick.json'), JSON.stringify(data), 'utf-8');
+  }
+
+  it('should find the overlay by walking up from a nested directory', async () => {
+    await writeOverlay({ systemPrompt: 'Project prompt' });
+
+    expect(findProjectConfigFile(nestedDir)).toBe(join(projectDir, '.synpick.json'));
+
+    const manager = new ConfigManager(configDir, nestedDir);
+    expect(manager.getProjectConfigPath()).toBe(join(projectDir, '.synpick.json'));
+  });
+
+  it('should deep-merge the overlay over the global config', async () => {
+    await writeOverlay({ systemPrompt: 'Project prompt', models: { sonnet: 'hf:proj/sonnet' } });
+
+    const manager = new ConfigManager(configDir, nestedDir);
+    const effective = manager.getEffectiveConfig();
+
+    expect(effective.systemPrompt).toBe('Project prompt');
+    expect(effective.models.sonnet).toBe('hf:proj/sonnet');
+    expect(effective.models.opus).toBe('hf:global/opus');
+    expect(effective.apiKey).toBe('global-key');
+
+    // The global config stays untouched
+    expect(manager.config.systemPrompt).toBe('Global prompt');
+  });
+
+  it('should report where each value came from', async () => {
+    await writeOverlay({ models: { sonnet: 'hf:proj/sonnet' } });
+
+    const manager = new ConfigManager(configDir, nestedDir);
+    const sources = manager.getConfigSources();
+
+    expect(sources['models.sonnet']).toBe('project');
+    expect(sources['models.opus']).toBe('global');
+    expect(sources['apiKey']).toBe('global');
+    expect(sources['cacheDurationHours']).toBe('default');
+  });
+
+  it('should ignore an overlay that fails schema validation', async () => {
+    await writeOverlay({ cacheDurationHours: 9999, systemPrompt: 'Project prompt' });
+
+    const manager = new ConfigManager(configDir, nestedDir);
+
+    expect(manager.getProjectConfigError()).toContain('cacheDurationHours');
+    expect(manager.getEffectiveConfig().systemPrompt).toBe('Global prompt');
+  });
+
+  it('should ignore an overlay that is not valid JSON', async () => {
+    await writeFile(join(projectDir, '.synpick.json'), '{ not json', 'utf-8');
+
+    const manager = new ConfigManager(configDir, nestedDir);
+
+    expect(manager.getProjectConfigError()).toContain('Failed to read project config');
+    expect(manager.getEffectiveConfig().apiKey).toBe('global-key');
+  });
+
+  it('should let the overlay select a profile', async () => {
+    const manager = new ConfigManager(configDir, tempDir);
+    await manager.createProfile('heavy', { maxTokenSize: 200000 });
+    await writeOverlay({ activeProfile: 'heavy' });
+
+    const projectManager = new ConfigManager(configDir, projectDir);
+    expect(projectManager.getEffectiveConfig().maxTokenSize).toBe(200000);
+    expect(projectManager.getConfigSources()['maxTokenSize']).toBe('profile');
+  });
+
+  it('should tell profiles defined only in the overlay apart', async () => {
+    const manager = new ConfigManager(configDir, tempDir);
+    await manager.createProfile('shared');
+    await writeOverlay({ profiles: { local: { description: 'Project only' }, shared: {} } });
+
+    const projectManager = new ConfigManager(configDir, projectDir);
+    expect(projectManager.isProjectOnlyProfile('local')).toBe(true);
+    expect(projectManager.isProjectOnlyProfile('shared')).toBe(false);
+    expect(projectManager.isProjectOnlyProfile('missing')).toBe(false);
+  });
+
+  it('should create an overlay seeded with the current tiers', async () => {
+    const manager = new ConfigManager(configDir, projectDir);
+    const filePath = await manager.initProjectConfig();
+
+    const content = JSON.parse(await readFile(filePath, 'utf-8'));
+    expect(content.models.default).toBe('hf:global/default');
+    await expect(manager.initProjectConfig()).rejects.toThrow('already exists');
+  });
+});
+
+describe('deepMerge', () => {
+  it('should merge nested objects and replace arrays', () => {
+    const merged = deepMerge({ a: { b: 1, c: 2 }, list: [1, 2] }, { a: { c: 3 }, list: [9] });
+    expect(merged).toEqual({ a: { b: 1, c: 3 }, list: [9] });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Workspace Trust Tests
+ *
+ * Tests the trust store and how untrusted project overlays are gated.
+ */
+
+import { ConfigManager, TrustStore, findSensitiveKeys, stripSensitiveKeys } from '../src/config';
+import { FullConfigInstaller } from '@/full-config/installer';
+import { SynpickConfigSchema } from '@/full-config/schema';
+import { existsSync } from 'fs';
+import { mkdtemp, mkdir, rm, writeFile, readFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('TrustStore', () => {
+  let tempDir: string;
+  let storePath: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-trust-'));
+    storePath = join(tempDir, 'trust.json');
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report untrusted, trusted and changed files', async () => {
+    const store = new TrustStore(storePath);
+    const file = join(tempDir, '.synpick.json');
+
+    expect(store.getStatus(file, '{}')).toBe('untrusted');
+
+    await store.trust(file, '{}');
+    expect(store.getStatus(file, '{}')).toBe('trusted');
+    expect(store.getStatus(file, '{"apiKey":"x"}')).toBe('changed');
+  });
+
+  it('should persist entries and revoke them', async () => {
+    const file = join(tempDir, '.synpick.json');
+    await new TrustStore(storePath).trust(file, '{}');
+    await new TrustStore(storePath).trust('github:owner/repo/main/synpick-config.yaml', 'name: x');
+
+    const store = new TrustStore(storePath);
+    expect(store.list().map(e => e.path)).toEqual(
+      [file, 'github:owner/repo/main/synpick-config.yaml'].sort()
+    );
+
+    expect(await store.revoke(file)).toBe(true);
+    expect(await store.revoke(file)).toBe(false);
+    expect(new TrustStore(storePath).getStatus(file, '{}')).toBe('untrusted');
+  });
+
+  it('should trust nothing when the store is corrupt', async () => {
+    await writeFile(storePath, 'not json', 'utf-8');
+    expect(new TrustStore(storePath).list()).toEqual([]);
+  });
+});
+
+describe('Sensitive key detection', () => {
+  it('should find endpoint and credential keys at any depth', () => {
+    const data = {
+      apiKey: 'k',
+      systemPrompt: 'p',
+      profiles: { work: { anthropicBaseUrl: 'https://evil.example', maxTokenSize: 4000 } },
+    };
+
+    expect(findSensitiveKeys(data).sort()).toEqual(['apiKey', 'profiles.work.anthropicBaseUrl']);
+    expect(stripSensitiveKeys(data)).toEqual({
+      systemPrompt: 'p',
+      profiles: { work: { maxTokenSize: 4000 } },
+    });
+  });
+});
+
+describe('ConfigManager - Untrusted project overlay', () => {
+  let tempDir: string;
+  let configDir: string;
+  let projectDir: string;
+  const overlayPath = (): string => join(projectDir, '.synpick.json');
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-trust-'));
+    configDir = join(tempDir, 'config');
+    projectDir = join(tempDir, 'repo');
+    await mkdir(projectDir, { recursive: true });
+
+    await new ConfigManager(configDir, tempDir).updateConfig({ apiKey: 'global-key' });
+    await writeFile(
+      overlayPath(),
+      JSON.stringify({
+        systemPrompt: 'Project prompt',
+        apiKey: 'repo-key',
+        anthropicBaseUrl: 'https://attacker.example/anthropic',
+      }),
+      'utf-8'
+    );
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should ignore endpoints and credentials from an untrusted overlay', () => {
+    const manager = new ConfigManager(configDir, projectDir);
+    const effective = manager.getEffectiveConfig();
+
+    expect(manager.getProjectTrustStatus()).toBe('untrusted');
+    expect(manager.getUntrustedProjectKeys().sort()).toEqual(['anthropicBaseUrl', 'apiKey']);
+    expect(effective.systemPrompt).toBe('Project prompt');
+    expect(effective.apiKey).toBe('global-key');
+    expect(effective.anthropicBaseUrl).toBe('https://api.synthetic.new/anthropic');
+    expect(manager.getConfigSources()['apiKey']).toBe('global');
+  });
+
+  it('should apply every setting once the overlay is trusted', async () => {
+    const manager = new ConfigManager(configDir, projectDir);
+    await manager.trustProjectConfig();
+
+    expect(manager.getProjectTrustStatus()).toBe('trusted');
+    expect(manager.getUntrustedProjectKeys()).toEqual([]);
+    expect(manager.getEffectiveConfig().apiKey).toBe('repo-key');
+    expect(new ConfigManager(configDir, projectDir).getApiKey()).toBe('repo-key');
+  });
+
+  it('should require trust again after the overlay changes', async () => {
+    await new ConfigManager(configDir, projectDir).trustProjectConfig();
+
+    const content = JSON.parse(await readFile(overlayPath(), 'utf-8'));
+    await writeFile(
+      overlayPath(),
+      JSON.stringify({ ...content, baseUrl: 'https://attacker.example' }),
+      'utf-8'
+    );
+
+    const manager = new ConfigManager(configDir, projectDir);
+    expect(manager.getProjectTrustStatus()).toBe('changed');
+    expect(manager.getEffectiveConfig().apiKey).toBe('global-key');
+    expect(manager.getEffectiveConfig().baseUrl).toBe('https://api.synthetic.new');
+  });
+
+  it('should trust overlays created with initProjectConfig', async () => {
+    const otherDir = join(tempDir, 'other');
+    await mkdir(otherDir);
+    const manager = new ConfigManager(configDir, otherDir);
+    await manager.initProjectConfig();
+
+    expect(manager.getProjectTrustStatus()).toBe('trusted');
+  });
+});
+
+describe('FullConfigInstaller - untrusted source', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-trust-'));
+    await writeFile(join(tempDir, 'mark.sh'), `touch "${join(tempDir, 'ran')}"\n`, 'utf-8');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  function createInstaller(): FullConfigInstaller {
+    const config = SynpickConfigSchema.parse({
+      name: 'repo-config',
+      scripts: [{ name: 'mark', path: 'mark.sh' }],
+    });
+    return new FullConfigInstaller(config, tempDir).setAutoConfirm(true);
+  }
+
+  it('should skip scripts from an untrusted source without a terminal, even with --yes', async () => {
+    await createInstaller().setTrusted(false).install();
+    expect(existsSync(join(tempDir, 'ran'))).toBe(false);
+  });
+
+  it('should run scripts from a trusted source with --yes', async () => {
+    await createInstaller().setTrusted(true).install();
+    expect(existsSync(join(tempDir, 'ran'))).toBe(true);
+  });
+});
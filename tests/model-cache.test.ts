@@ -0,0 +1,176 @@
+/**
+ * Model Cache Tests
+ *
+ * Tests cache keys, conditional refreshes, corruption checks, the offline fallback,
+ * background refresh and staleness reporting of the model cache.
+ */
+
+import axios from 'axios';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  MODEL_CACHE_FORMAT_VERSION,
+  ModelCache,
+  ModelInfoImpl,
+  ModelManager,
+  ModelManagerOptions,
+  formatCacheAge,
+} from '../src/models';
+
+const HOUR_MS = 60 * 60 * 1000;
+const endpoint = 'https://example.invalid/models';
+
+describe('Model cache', () => {
+  let tempDir: string;
+  let cacheFile: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-cache-'));
+    cacheFile = join(tempDir, 'models_cache.json');
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  const writeCache = async (ids: string[], ageHours: number) => {
+    const cache = new ModelCache({ cacheFile, cacheDurationHours: 24, endpoint, apiKey: 'key' });
+    await cache.save(ids.map(id => new ModelInfoImpl({ id, object: 'model' })));
+
+    // Backdate the entry; the timestamp is not covered by the checksum
+    const data = JSON.parse(await readFile(cacheFile, 'utf-8'));
+    for (const entry of Object.values<{ fetchedAt: string }>(data.entries)) {
+      entry.fetchedAt = new Date(Date.now() - ageHours * HOUR_MS).toISOString();
+    }
+    await writeFile(cacheFile, JSON.stringify(data));
+  };
+
+  const createManager = (options: Partial<ModelManagerOptions> = {}) =>
+    new ModelManager({
+      apiKey: 'key',
+      modelsApiUrl: endpoint,
+      cacheFile,
+      cacheDurationHours: 24,
+      quiet: true,
+      ...options,
+    });
+
+  const respond = (ids: string[]) =>
+    jest.spyOn(axios, 'get').mockResolvedValue({
+      status: 200,
+      data: { data: ids.map(id => ({ id, object: 'model' })) },
+    });
+
+  it('should fall back to an expired cache when the API cannot be reached', async () => {
+    await writeCache(['hf:a/cached'], 48);
+    jest.spyOn(axios, 'get').mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+    const models = await createManager().fetchModels();
+    expect(models.map(model => model.id)).toEqual(['hf:a/cached']);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringMatching(/cached models from 2 days ago/)
+    );
+  });
+
+  it('should still fail without a cache to fall back to', async () => {
+    jest.spyOn(axios, 'get').mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+    await expect(createManager().fetchModels()).rejects.toThrow(/ENOTFOUND/);
+  });
+
+  it('should fall back to an expired cache when no API key is configured', async () => {
+    await writeCache(['hf:a/cached'], 48);
+    const get = jest.spyOn(axios, 'get');
+
+    const models = await createManager({ apiKey: '' }).fetchModels();
+    expect(models.map(model => model.id)).toEqual(['hf:a/cached']);
+    expect(get).not.toHaveBeenCalled();
+    expect(console.warn).toHaveBeenCalledWith(
+      'No API key configured. Using cached models from 2 days ago.'
+    );
+  });
+
+  it('should serve a stale cache and refresh it in the background', async () => {
+    await writeCache(['hf:a/cached'], 30);
+    const get = respond(['hf:a/fresh']);
+    const manager = createManager({ backgroundRefresh: true });
+
+    expect((await manager.fetchModels()).map(model => model.id)).toEqual(['hf:a/cached']);
+    await manager.waitForBackgroundRefresh();
+    expect(get).toHaveBeenCalledTimes(1);
+    expect((await manager.fetchModels()).map(model => model.id)).toEqual(['hf:a/fresh']);
+  });
+
+  it('should wait for the API once the cache is too stale', async () => {
+    await writeCache(['hf:a/cached'], 24 + 10);
+    respond(['hf:a/fresh']);
+    const manager = createManager({ backgroundRefresh: true, maxStaleHours: 5 });
+
+    expect((await manager.fetchModels()).map(model => model.id)).toEqual(['hf:a/fresh']);
+  });
+
+  it('should keep separate lists per endpoint and API key', async () => {
+    await writeCache(['hf:a/cached'], 1);
+    const get = respond(['hf:b/other']);
+
+    const models = await createManager({ apiKey: 'another-key' }).fetchModels();
+    expect(models.map(model => model.id)).toEqual(['hf:b/other']);
+    expect(get).toHaveBeenCalledTimes(1);
+
+    const cached = await createManager().fetchModels();
+    expect(cached.map(model => model.id)).toEqual(['hf:a/cached']);
+    expect((await createManager().getCacheInfo()).entryCount).toBe(2);
+  });
+
+  it('should refresh conditionally and only bump the timestamp on 304', async () => {
+    const get = jest.spyOn(axios, 'get').mockResolvedValueOnce({
+      status: 200,
+      headers: { etag: '"v1"', 'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT' },
+      data: { data: [{ id: 'hf:a/cached', object: 'model' }] },
+    });
+    const manager = createManager();
+    await manager.fetchModels(true);
+
+    get.mockResolvedValueOnce({ status: 304, headers: {}, data: '' });
+    const models = await manager.fetchModels(true);
+
+    expect(models.map(model => model.id)).toEqual(['hf:a/cached']);
+    expect(get.mock.calls[1]![1]!.headers).toMatchObject({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Mon, 01 Jan 2024 00:00:00 GMT',
+    });
+    expect(await manager.getCacheInfo()).toMatchObject({ isValid: true, hasValidators: true });
+  });
+
+  it('should rebuild corrupt and old-format caches', async () => {
+    await writeCache(['hf:a/cached'], 1);
+    const data = JSON.parse(await readFile(cacheFile, 'utf-8'));
+    for (const entry of Object.values<{ models: unknown[] }>(data.entries)) {
+      entry.models.push({ id: 'hf:a/injected', object: 'model' });
+    }
+    await writeFile(cacheFile, JSON.stringify(data));
+    respond(['hf:a/fresh']);
+
+    expect((await createManager().fetchModels()).map(model => model.id)).toEqual(['hf:a/fresh']);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringMatching(/corrupt/));
+
+    await writeFile(cacheFile, JSON.stringify({ models: [{ id: 'hf:a/old' }], count: 1 }));
+    expect((await createManager().fetchModels()).map(model => model.id)).toEqual(['hf:a/fresh']);
+    expect(JSON.parse(await readFile(cacheFile, 'utf-8')).formatVersion).toBe(
+      MODEL_CACHE_FORMAT_VERSION
+    );
+  });
+
+  it('should report the age of an expired cache', async () => {
+    await writeCache(['hf:a/cached'], 30);
+    const info = await createManager().getCacheInfo();
+
+    expect(info).toMatchObject({ exists: true, isValid: false, modelCount: 1 });
+    expect(formatCacheAge(info.ageMs!)).toBe('30 hours');
+    expect(formatCacheAge(60_000)).toBe('1 minute');
+    expect(formatCacheAge(3 * 24 * HOUR_MS)).toBe('3 days');
+  });
+});
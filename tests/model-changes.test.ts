@@ -0,0 +1,95 @@
+/**
+ * Model Change Tests
+ *
+ * Tests catalogue diffs, the change log and change detection in fetchModels.
+ */
+
+import axios from 'axios';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  ModelChangeLog,
+  ModelInfoImpl,
+  ModelManager,
+  diffModelCatalogs,
+  mergeModelChanges,
+} from '../src/models';
+
+const model = (id: string) => new ModelInfoImpl({ id, object: 'model' });
+
+describe('Model catalogue changes', () => {
+  it('should diff catalogues by model id', () => {
+    expect(
+      diffModelCatalogs(
+        [model('hf:a/one'), model('hf:a/two')],
+        [model('hf:a/two'), model('hf:a/new')]
+      )
+    ).toEqual({ added: ['hf:a/new'], removed: ['hf:a/one'] });
+  });
+
+  it('should merge changes into their net effect', () => {
+    const at = '2025-01-01T00:00:00.000Z';
+    expect(
+      mergeModelChanges([
+        { timestamp: at, added: ['hf:a/new'], removed: ['hf:a/old', 'hf:a/flaky'] },
+        { timestamp: at, added: ['hf:a/flaky'], removed: ['hf:a/new'] },
+      ])
+    ).toEqual({ added: [], removed: ['hf:a/old'] });
+  });
+});
+
+describe('Model change log', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-changes-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record changes and track which were reported', async () => {
+    const log = new ModelChangeLog(join(tempDir, 'changes.json'));
+    expect(await log.record([], [])).toBeNull();
+    await log.record(['hf:a/new'], []);
+    await log.markNotified();
+    await log.record([], ['hf:a/old']);
+
+    const reloaded = new ModelChangeLog(join(tempDir, 'changes.json'));
+    expect(reloaded.list()).toHaveLength(2);
+    expect(reloaded.listUnnotified().map(change => change.removed)).toEqual([['hf:a/old']]);
+    expect(reloaded.list(new Date(Date.now() + 60_000))).toEqual([]);
+  });
+
+  it('should record what changed between two refreshes', async () => {
+    const get = jest.spyOn(axios, 'get');
+    const respond = (ids: string[]) =>
+      get.mockResolvedValueOnce({
+        status: 200,
+        data: { object: 'list', data: ids.map(id => ({ id, object: 'model' })) },
+      });
+    const manager = new ModelManager({
+      apiKey: 'key',
+      modelsApiUrl: 'https://example.invalid/models',
+      cacheFile: join(tempDir, 'models_cache.json'),
+      changeLogFile: join(tempDir, 'model_changes.json'),
+      quiet: true,
+    });
+
+    respond(['hf:a/one', 'hf:a/two']);
+    await manager.fetchModels(true);
+    expect(manager.getModelChanges()).toEqual([]);
+
+    respond(['hf:a/two', 'hf:a/three']);
+    await manager.fetchModels(true);
+    expect(manager.getUnnotifiedModelChanges()).toEqual([
+      expect.objectContaining({ added: ['hf:a/three'], removed: ['hf:a/one'] }),
+    ]);
+
+    await manager.markModelChangesNotified();
+    expect(manager.getUnnotifiedModelChanges()).toEqual([]);
+  });
+});
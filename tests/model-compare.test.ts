@@ -0,0 +1,50 @@
+/**
+ * Model Comparison Tests
+ *
+ * Tests the rows and best values behind synpick models compare.
+ */
+
+import { ModelInfoImpl, compareModels } from '../src/models';
+
+const models = [
+  new ModelInfoImpl({
+    id: 'hf:a/long-context',
+    object: 'model',
+    context_length: 262144,
+    supported_features: ['tools'],
+    pricing: { prompt: '$0.000001' },
+  }),
+  new ModelInfoImpl({
+    id: 'hf:b/cheap',
+    object: 'model',
+    context_length: 131072,
+    supported_features: ['tools', 'json_mode'],
+    quantization: 'fp8',
+    pricing: { prompt: '$0.0000002' },
+  }),
+  new ModelInfoImpl({ id: 'hf:c/bare', object: 'model', context_length: 262144 }),
+];
+
+const row = (column: string) => compareModels(models).find(item => item.column === column)!;
+
+describe('Model comparison', () => {
+  it('should mark the highest, lowest and longest values as best', () => {
+    expect(row('context').best).toEqual([0, 2]);
+    expect(row('price').best).toEqual([1]);
+    expect(row('features').best).toEqual([1]);
+  });
+
+  it('should not mark rows without an ordering, or with one known value', () => {
+    expect(row('quantization').best).toEqual([]);
+    expect(row('thinking').best).toEqual([]);
+    expect(row('max_output').best).toEqual([]);
+    expect(row('max_output').text).toEqual(['-', '-', '-']);
+  });
+
+  it('should not mark rows where every model is equal', () => {
+    const [first, second] = models;
+    const equal = compareModels([first!, new ModelInfoImpl({ ...first!.toJSON(), id: 'hf:x/y' })]);
+    expect(equal.every(item => item.best.length === 0)).toBe(true);
+    expect(compareModels([first!, second!])[0]!.text).toEqual(['262144', '131072']);
+  });
+});
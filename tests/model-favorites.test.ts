@@ -0,0 +1,67 @@
+/**
+ * Model Favorites Tests
+ *
+ * Tests pinned models and the Pinned and Recent sections of the model selectors.
+ */
+
+import { ModelInfoImpl, sectionModels } from '../src/models';
+import { ConfigManager } from '../src/config';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const models = ['hf:a/Alpha', 'hf:b/Beta', 'hf:c/Gamma', 'hf:d/Delta'].map(
+  id => new ModelInfoImpl({ id, object: 'model' })
+);
+
+describe('Model sections', () => {
+  it('should list pinned, then recent, then the other models once each', () => {
+    const sectioned = sectionModels(models, {
+      pinned: ['hf:c/Gamma', 'hf:gone/Model'],
+      recent: ['hf:b/Beta', 'hf:c/Gamma'],
+    });
+
+    expect(sectioned.map(entry => [entry.section, entry.model.id])).toEqual([
+      ['pinned', 'hf:c/Gamma'],
+      ['recent', 'hf:b/Beta'],
+      ['all', 'hf:a/Alpha'],
+      ['all', 'hf:d/Delta'],
+    ]);
+  });
+
+  it('should keep the given order without pinned or recent models', () => {
+    expect(sectionModels(models, {}).map(entry => entry.section)).toEqual([
+      'all',
+      'all',
+      'all',
+      'all',
+    ]);
+  });
+});
+
+describe('ConfigManager - Favorite models', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-favorites-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should pin models in order and unpin them', async () => {
+    const manager = new ConfigManager(join(tempDir, 'config'), tempDir, {});
+
+    expect(await manager.addFavoriteModel('hf:c/Gamma')).toBe(true);
+    expect(await manager.addFavoriteModel('hf:a/Alpha')).toBe(true);
+    expect(await manager.addFavoriteModel('hf:c/Gamma')).toBe(false);
+    expect(manager.getFavoriteModels()).toEqual(['hf:c/Gamma', 'hf:a/Alpha']);
+
+    expect(await manager.removeFavoriteModel('hf:c/Gamma')).toBe(true);
+    expect(await manager.removeFavoriteModel('hf:c/Gamma')).toBe(false);
+    expect(new ConfigManager(join(tempDir, 'config'), tempDir, {}).getFavoriteModels()).toEqual([
+      'hf:a/Alpha',
+    ]);
+  });
+});
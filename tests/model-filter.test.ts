@@ -0,0 +1,101 @@
+/**
+ * Model Filter Tests
+ *
+ * Tests the filter expressions used by models --filter, search and the model selector.
+ */
+
+import {
+  ModelFilterError,
+  ModelInfoImpl,
+  ModelManager,
+  filterModels,
+  getPricePerMillion,
+} from '../src/models';
+
+const models = [
+  new ModelInfoImpl({
+    id: 'hf:deepseek-ai/DeepSeek-V3',
+    object: 'model',
+    hugging_face_id: 'deepseek-ai/DeepSeek-V3',
+    context_length: 131072,
+    input_modalities: ['text'],
+    supported_features: ['tools', 'json_mode'],
+    quantization: 'fp8',
+    always_on: true,
+    pricing: { prompt: '$0.00000056', completion: '$0.00000168' },
+  }),
+  new ModelInfoImpl({
+    id: 'hf:Qwen/Qwen2.5-VL-72B-Instruct',
+    object: 'model',
+    hugging_face_id: 'Qwen/Qwen2.5-VL-72B-Instruct',
+    context_length: 32768,
+    input_modalities: ['text', 'image'],
+    supported_features: ['tools'],
+    pricing: { prompt: '$0.0000009' },
+  }),
+  new ModelInfoImpl({
+    id: 'hf:deepseek-ai/DeepSeek-R1',
+    object: 'model',
+    hugging_face_id: 'deepseek-ai/DeepSeek-R1',
+    always_on: false,
+  }),
+];
+
+const ids = (expression: string) => filterModels(models, expression).map(model => model.id);
+
+describe('Model filters', () => {
+  it('should keep plain words as text search', () => {
+    expect(ids('deepseek')).toEqual(['hf:deepseek-ai/DeepSeek-V3', 'hf:deepseek-ai/DeepSeek-R1']);
+    expect(ids('')).toHaveLength(3);
+  });
+
+  it('should compare numbers with k suffixes and prices per million tokens', () => {
+    expect(ids('ctx>=128k')).toEqual(['hf:deepseek-ai/DeepSeek-V3']);
+    expect(ids('ctx<128k')).toEqual(['hf:Qwen/Qwen2.5-VL-72B-Instruct']);
+    expect(
+      filterModels(
+        [new ModelInfoImpl({ id: 'hf:a/Flat', object: 'model', context_length: 128000 })],
+        'ctx>=128k'
+      )
+    ).toHaveLength(1);
+    expect(ids('price.prompt<0.6')).toEqual(['hf:deepseek-ai/DeepSeek-V3']);
+    expect(getPricePerMillion(models[0]!, 'completion')).toBeCloseTo(1.68);
+  });
+
+  it('should match fields and flags, all terms together', () => {
+    expect(ids('modality:image feature:tools')).toEqual(['hf:Qwen/Qwen2.5-VL-72B-Instruct']);
+    expect(ids('provider:deepseek always_on quant:fp8')).toEqual(['hf:deepseek-ai/DeepSeek-V3']);
+    expect(ids('provider:deepseek !always_on')).toEqual(['hf:deepseek-ai/DeepSeek-R1']);
+    expect(ids('thinking')).toEqual(['hf:deepseek-ai/DeepSeek-R1']);
+    expect(ids('id:hf:qwen')).toEqual(['hf:Qwen/Qwen2.5-VL-72B-Instruct']);
+  });
+
+  it('should search for full model IDs as text', () => {
+    expect(ids('hf:deepseek-ai/DeepSeek-V3')).toEqual(['hf:deepseek-ai/DeepSeek-V3']);
+    expect(ids('!hf:deepseek-ai/DeepSeek-V3 deepseek')).toEqual(['hf:deepseek-ai/DeepSeek-R1']);
+    expect(ids('color:red')).toEqual([]);
+  });
+
+  it('should explain invalid expressions', () => {
+    expect(() => ids('ctx>=lots')).toThrow(ModelFilterError);
+    expect(() => ids('ctx>=lots')).toThrow('expected a number such as 128k or 0.5, got "lots"');
+    expect(() => ids('ctx:128k')).toThrow('use a comparison such as ctx>=128k');
+    expect(() => ids('provider>2')).toThrow('"provider" cannot be compared');
+    expect(() => ids('name:"open')).toThrow('unterminated quote');
+  });
+
+  it('should reject an invalid search before fetching models', async () => {
+    const manager = new ModelManager({
+      apiKey: 'test',
+      modelsApiUrl: 'http://localhost:1/models',
+      cacheFile: '/nonexistent/models_cache.json',
+    });
+    const fetchModels = jest.spyOn(manager, 'fetchModels');
+
+    await expect(manager.searchModels('feature:')).rejects.toThrow('missing a value');
+    expect(fetchModels).not.toHaveBeenCalled();
+    expect((await manager.searchModels('ctx>=128k', models)).map(model => model.id)).toEqual([
+      'hf:deepseek-ai/DeepSeek-V3',
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Fuzzy Model Search Tests
+ *
+ * Tests typo-tolerant matching and relevance ranking for search and the model selector.
+ */
+
+import {
+  ModelInfoImpl,
+  ModelManager,
+  filterModels,
+  getMatchRanges,
+  rankModels,
+  scoreModel,
+} from '../src/models';
+
+const models = [
+  new ModelInfoImpl({
+    id: 'hf:deepseek-ai/DeepSeek-V3',
+    object: 'model',
+    hugging_face_id: 'deepseek-ai/DeepSeek-V3',
+  }),
+  new ModelInfoImpl({ id: 'hf:Qwen/Qwen3-Coder-480B', object: 'model' }),
+  new ModelInfoImpl({ id: 'hf:Qwen/Qwen2.5-72B-Instruct', object: 'model' }),
+  new ModelInfoImpl({ id: 'hf:moonshotai/Kimi-K2-Instruct', object: 'model' }),
+];
+
+const ids = (query: string, recentModels?: string[]) =>
+  rankModels(models, query, { recentModels }).map(model => model.id);
+
+describe('Fuzzy model search', () => {
+  it('should match words in any order', () => {
+    expect(ids('coder qwen')).toEqual(['hf:Qwen/Qwen3-Coder-480B']);
+    expect(filterModels(models, 'qwen coder').map(model => model.id)).toEqual([
+      'hf:Qwen/Qwen3-Coder-480B',
+    ]);
+  });
+
+  it('should tolerate typos and dropped letters', () => {
+    expect(ids('dpseek')).toEqual(['hf:deepseek-ai/DeepSeek-V3']);
+    expect(ids('deespeek')).toEqual(['hf:deepseek-ai/DeepSeek-V3']);
+    expect(ids('kmi')).toEqual(['hf:moonshotai/Kimi-K2-Instruct']);
+    expect(ids('llama')).toEqual([]);
+  });
+
+  it('should rank name prefixes above provider matches', () => {
+    const kimi = models[3]!;
+    expect(scoreModel(kimi, ['kimi'])!).toBeGreaterThan(scoreModel(kimi, ['moonshot'])!);
+    // Equal scores fall back to ID order
+    expect(ids('instruct')).toEqual([
+      'hf:moonshotai/Kimi-K2-Instruct',
+      'hf:Qwen/Qwen2.5-72B-Instruct',
+    ]);
+  });
+
+  it('should boost recently used models', () => {
+    expect(ids('instruct', ['hf:Qwen/Qwen2.5-72B-Instruct'])[0]).toBe(
+      'hf:Qwen/Qwen2.5-72B-Instruct'
+    );
+  });
+
+  it('should rank searches by relevance unless a sort key is given', async () => {
+    const manager = new ModelManager({ apiKey: '', modelsApiUrl: '', cacheFile: '' });
+    const recentModels = ['hf:Qwen/Qwen2.5-72B-Instruct'];
+
+    expect((await manager.searchModels('instruct', models, { recentModels }))[0]!.id).toBe(
+      'hf:Qwen/Qwen2.5-72B-Instruct'
+    );
+    expect(
+      (await manager.searchModels('instruct', models, { recentModels, sort: 'id' }))[0]!.id
+    ).toBe('hf:moonshotai/Kimi-K2-Instruct');
+  });
+
+  it('should keep negated words exact', () => {
+    expect(filterModels(models, '!dpseek')).toHaveLength(4);
+    expect(filterModels(models, '!deepseek')).toHaveLength(3);
+  });
+
+  it('should report matched characters for highlighting', () => {
+    expect(getMatchRanges('DeepSeek-V3', 'seek')).toEqual([[4, 8]]);
+    expect(getMatchRanges('DeepSeek-V3', 'dpseek')).toEqual([
+      [0, 1],
+      [3, 8],
+    ]);
+    expect(getMatchRanges('Qwen3-Coder', 'coder qwen')).toEqual([
+      [0, 4],
+      [6, 11],
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Model Listing Tests
+ *
+ * Tests sorting, columns and the machine-readable formats of models and search.
+ */
+
+import {
+  ModelInfoImpl,
+  ModelListingError,
+  ModelManager,
+  formatModelsCsv,
+  formatModelsJson,
+  parseModelColumns,
+  parseModelOutputFormat,
+  parseModelSortKey,
+  sortModels,
+} from '../src/models';
+
+const models = [
+  new ModelInfoImpl({
+    id: 'hf:b/cheap-small',
+    object: 'model',
+    context_length: 32768,
+    created: 1700000000,
+    pricing: { prompt: '$0.0000002' },
+    supported_features: ['tools', 'json_mode'],
+  }),
+  new ModelInfoImpl({
+    id: 'hf:a/pricey-large',
+    object: 'model',
+    name: 'Pricey, "Large"',
+    context_length: 262144,
+    created: 1750000000,
+    pricing: { prompt: '$0.000003' },
+  }),
+  new ModelInfoImpl({ id: 'hf:c/unpriced', object: 'model' }),
+];
+
+const ids = (sorted: ModelInfoImpl[]) => sorted.map(model => model.id);
+
+describe('Model listing', () => {
+  it('should sort by id by default and by other keys on request', () => {
+    expect(ids(sortModels(models))).toEqual([
+      'hf:a/pricey-large',
+      'hf:b/cheap-small',
+      'hf:c/unpriced',
+    ]);
+    expect(ids(sortModels(models, { sort: 'price' }))).toEqual([
+      'hf:b/cheap-small',
+      'hf:a/pricey-large',
+      'hf:c/unpriced',
+    ]);
+  });
+
+  it('should keep models without the sort value last when reversed', () => {
+    expect(ids(sortModels(models, { sort: 'context', reverse: true }))).toEqual([
+      'hf:a/pricey-large',
+      'hf:b/cheap-small',
+      'hf:c/unpriced',
+    ]);
+  });
+
+  it('should let ModelManager.getModels sort', () => {
+    const manager = new ModelManager({ apiKey: '', modelsApiUrl: '', cacheFile: '' });
+    expect(ids(manager.getModels(models, { sort: 'created', reverse: true }))[0]).toBe(
+      'hf:a/pricey-large'
+    );
+  });
+
+  it('should write csv with quoting and json with selected columns', () => {
+    const columns = parseModelColumns('id, name,price,features');
+
+    expect(formatModelsCsv(models.slice(0, 2), columns).split('\n')).toEqual([
+      'id,name,price,features',
+      'hf:b/cheap-small,b/cheap-small,0.2,tools json_mode',
+      'hf:a/pricey-large,"Pricey, ""Large""",3,',
+    ]);
+    expect(JSON.parse(formatModelsJson(models.slice(0, 1), ['id', 'context']))).toEqual([
+      { id: 'hf:b/cheap-small', context: 32768 },
+    ]);
+    expect(JSON.parse(formatModelsJson(models.slice(2)))).toEqual([
+      { id: 'hf:c/unpriced', object: 'model' },
+    ]);
+  });
+
+  it('should reject unknown sort keys, columns and formats', () => {
+    expect(() => parseModelSortKey('size')).toThrow(ModelListingError);
+    expect(() => parseModelColumns('id,colour')).toThrow('Unknown column "colour"');
+    expect(() => parseModelOutputFormat('yaml')).toThrow('Use one of: table, json, csv, ids');
+    expect(parseModelOutputFormat('JSON')).toBe('json');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Model Lookup Tests
+ *
+ * Tests resolving a model by ID, alias or fuzzy match, as used by models show.
+ */
+
+import { ModelInfoImpl, ModelManager, findModelMatches, getModelAliases } from '../src/models';
+
+const models = [
+  new ModelInfoImpl({
+    id: 'hf:deepseek-ai/DeepSeek-V3',
+    object: 'model',
+    name: 'DeepSeek V3',
+    hugging_face_id: 'deepseek-ai/DeepSeek-V3',
+  }),
+  new ModelInfoImpl({ id: 'hf:deepseek-ai/DeepSeek-R1', object: 'model' }),
+  new ModelInfoImpl({
+    id: 'hf:Qwen/Qwen3-Coder-480B',
+    object: 'model',
+    openrouter: { slug: 'qwen/qwen3-coder' },
+  }),
+];
+
+const manager = new ModelManager({ apiKey: '', modelsApiUrl: '', cacheFile: '' });
+
+describe('Model lookup', () => {
+  it('should derive aliases from the id, Hugging Face id, name and slug', () => {
+    expect(getModelAliases(models[0]!)).toEqual([
+      'deepseek-ai/deepseek-v3',
+      'deepseek-ai/deepseek-v3',
+      'deepseek v3',
+    ]);
+    expect(getModelAliases(models[2]!)).toContain('qwen/qwen3-coder');
+  });
+
+  it('should resolve exact ids, aliases and unique fuzzy matches', async () => {
+    expect((await manager.getModelById('hf:deepseek-ai/DeepSeek-R1', models))?.id).toBe(
+      'hf:deepseek-ai/DeepSeek-R1'
+    );
+    expect((await manager.getModelById('DeepSeek V3', models))?.id).toBe(
+      'hf:deepseek-ai/DeepSeek-V3'
+    );
+    expect((await manager.getModelById('qwen/qwen3-coder', models))?.id).toBe(
+      'hf:Qwen/Qwen3-Coder-480B'
+    );
+    expect((await manager.getModelById('coder 480b', models))?.id).toBe('hf:Qwen/Qwen3-Coder-480B');
+  });
+
+  it('should resolve typos the way search does', async () => {
+    expect((await manager.getModelById('dpseek v3', models))?.id).toBe(
+      'hf:deepseek-ai/DeepSeek-V3'
+    );
+    expect((await manager.getModelById('deepsek r1', models))?.id).toBe(
+      'hf:deepseek-ai/DeepSeek-R1'
+    );
+    expect((await manager.getModelById('qwen3 codr', models))?.id).toBe('hf:Qwen/Qwen3-Coder-480B');
+  });
+
+  it('should return null for ambiguous or unknown references', async () => {
+    expect(await manager.getModelById('deepseek', models)).toBeNull();
+    expect(findModelMatches(models, 'deepseek')).toHaveLength(2);
+    expect(await manager.getModelById('llama', models)).toBeNull();
+    expect(findModelMatches(models, '  ')).toEqual([]);
+  });
+});
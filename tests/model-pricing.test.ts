@@ -0,0 +1,93 @@
+/**
+ * Model Pricing Tests
+ *
+ * Tests price parsing and the cost estimates behind synpick cost.
+ */
+
+import {
+  ModelInfoImpl,
+  ModelPricingError,
+  estimateCost,
+  filterModels,
+  formatCost,
+  getModelPricing,
+  parsePrice,
+  parseTokenCount,
+  toPerMillion,
+} from '../src/models';
+
+const model = new ModelInfoImpl({
+  id: 'hf:deepseek-ai/DeepSeek-V3',
+  object: 'model',
+  pricing: {
+    prompt: '$0.00000056',
+    completion: '$0.00000168',
+    input_cache_reads: '$0.00000007',
+    request: '$0.001',
+    image: '$0.01',
+  },
+});
+
+describe('Model pricing', () => {
+  it('should parse API price strings', () => {
+    expect(parsePrice('$0.00000056')).toBe(0.00000056);
+    expect(parsePrice('0')).toBe(0);
+    expect(parsePrice('')).toBeUndefined();
+    expect(parsePrice('free')).toBeUndefined();
+    expect(toPerMillion(parsePrice('$0.00000056'))).toBe(0.56);
+  });
+
+  it('should read every price of a model', () => {
+    expect(getModelPricing(model)).toEqual({
+      prompt: 0.00000056,
+      completion: 0.00000168,
+      cacheRead: 0.00000007,
+      cacheWrite: undefined,
+      perRequest: 0.001,
+      perImage: 0.01,
+    });
+  });
+
+  it('should estimate costs with cache and per-request prices', () => {
+    const estimate = estimateCost(model, {
+      inputTokens: 1_000_000,
+      outputTokens: 100_000,
+      cachedTokens: 2_000_000,
+      cacheWriteTokens: 1_000_000,
+      requests: 10,
+    });
+
+    expect(estimate).toEqual({
+      input: 0.56,
+      output: 0.168,
+      cacheRead: 0.14,
+      // No cache write price, so the prompt price applies
+      cacheWrite: 0.56,
+      requests: 0.01,
+      total: 1.438,
+      missing: [],
+    });
+  });
+
+  it('should report prices a model does not publish', () => {
+    const unpriced = new ModelInfoImpl({ id: 'hf:a/b', object: 'model' });
+
+    expect(estimateCost(unpriced, { inputTokens: 10, outputTokens: 0 }).missing).toEqual([
+      'prompt',
+    ]);
+    expect(estimateCost(unpriced, { inputTokens: 0, outputTokens: 0 }).total).toBe(0);
+  });
+
+  it('should filter on per-request and per-image prices without scaling them', () => {
+    expect(filterModels([model], 'price.request<=0.001 price.image=0.01')).toHaveLength(1);
+  });
+
+  it('should parse token counts and format amounts', () => {
+    expect(parseTokenCount('120k')).toBe(120_000);
+    expect(parseTokenCount('1.5M')).toBe(1_500_000);
+    expect(() => parseTokenCount('-5')).toThrow(ModelPricingError);
+    expect(formatCost(12.345)).toBe('$12.35');
+    expect(formatCost(0.00042)).toBe('$0.0004');
+    expect(formatCost(0)).toBe('$0.00');
+  });
+});
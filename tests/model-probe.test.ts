@@ -0,0 +1,174 @@
+/**
+ * Model Probe Tests
+ *
+ * Probes models against a local stub of the Anthropic messages API and tests the probe cache.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ModelProbeCache, ModelProbeResult, describeProbeProblem, probeModel } from '../src/models';
+
+const STREAM_EVENTS = [
+  { type: 'message_start', message: { id: 'msg_1' } },
+  { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+  { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'OK' } },
+  { type: 'content_block_stop', index: 0 },
+  { type: 'message_stop' },
+];
+
+/**
+ * Answers like the messages API; the model name picks the behaviour
+ */
+function handleMessages(request: IncomingMessage, response: ServerResponse): void {
+  let raw = '';
+  request.on('data', chunk => (raw += chunk));
+  request.on('end', () => {
+    const body = JSON.parse(raw);
+    if (request.headers.authorization !== 'Bearer test-key') {
+      response.writeHead(401, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ error: { message: 'invalid key' } }));
+      return;
+    }
+    if (body.model === 'broken') {
+      response.writeHead(500, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ error: { type: 'api_error', message: 'model offline' } }));
+      return;
+    }
+    if (body.stream) {
+      response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      if (body.model === 'stalled') {
+        response.write(`event: message_start\ndata: ${JSON.stringify(STREAM_EVENTS[0])}\n\n`);
+        return;
+      }
+      for (const event of STREAM_EVENTS) {
+        response.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+      response.end();
+      return;
+    }
+    const content =
+      body.model === 'no-tools'
+        ? [{ type: 'text', text: 'It is noon.' }]
+        : [{ type: 'tool_use', id: 'toolu_1', name: body.tool_choice.name, input: {} }];
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ type: 'message', content }));
+  });
+}
+
+describe('Model probe', () => {
+  let server: Server;
+  let endpoint: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      if (request.method === 'POST' && request.url === '/anthropic/v1/messages') {
+        handleMessages(request, response);
+      } else {
+        response.writeHead(404).end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/anthropic`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const probe = (model: string, timeoutMs = 5000) =>
+    probeModel(model, { endpoint, apiKey: 'test-key', timeoutMs });
+
+  it('should report a working model with its latencies', async () => {
+    const result = await probe('good');
+
+    expect(result).toMatchObject({
+      model: 'good',
+      endpoint,
+      status: 200,
+      streaming: true,
+      toolUse: true,
+    });
+    expect(result.error).toBeUndefined();
+    expect(result.timeToFirstTokenMs).toBeGreaterThanOrEqual(0);
+    expect(result.latencyMs).toBeGreaterThanOrEqual(result.timeToFirstTokenMs!);
+    expect(describeProbeProblem(result)).toBeNull();
+  });
+
+  it('should report HTTP errors with their message', async () => {
+    const result = await probe('broken');
+
+    expect(result).toMatchObject({ status: 500, streaming: false });
+    expect(result.error).toBe('HTTP 500: model offline');
+    expect(result.toolUse).toBeUndefined();
+    expect(describeProbeProblem(result)).toBe('HTTP 500');
+  });
+
+  it('should notice models that ignore tools', async () => {
+    const result = await probe('no-tools');
+
+    expect(result).toMatchObject({ status: 200, streaming: true, toolUse: false });
+    expect(describeProbeProblem(result)).toBe('no tool use');
+  });
+
+  it('should give up on streams that stall', async () => {
+    const result = await probe('stalled', 300);
+
+    expect(result).toMatchObject({ status: 200, streaming: false, error: 'Timed out after 0.3s' });
+    expect(describeProbeProblem(result)).toBe('streaming failed');
+  });
+
+  it('should report unreachable endpoints', async () => {
+    const result = await probeModel('good', {
+      endpoint: 'http://127.0.0.1:9/anthropic',
+      apiKey: 'test-key',
+      timeoutMs: 2000,
+    });
+
+    expect(result.status).toBeUndefined();
+    expect(describeProbeProblem(result)).toBe('unreachable');
+  });
+});
+
+describe('ModelProbeCache', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-probe-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  const result = (model: string, extra: Partial<ModelProbeResult> = {}): ModelProbeResult => ({
+    model,
+    endpoint: 'https://a.example/anthropic',
+    probedAt: '2025-01-01T00:00:00.000Z',
+    status: 200,
+    streaming: true,
+    toolUse: true,
+    ...extra,
+  });
+
+  it('should keep the latest result of each model per endpoint', async () => {
+    const cachePath = join(tempDir, 'model_probes.json');
+    await new ModelProbeCache(cachePath).record([
+      result('hf:a/One', { status: 503, streaming: false }),
+      result('hf:a/Two', { toolUse: false }),
+      result('hf:a/One', { endpoint: 'https://b.example/anthropic' }),
+    ]);
+    await new ModelProbeCache(cachePath).record([result('hf:a/Two')]);
+
+    const cache = new ModelProbeCache(cachePath);
+    expect(cache.list('https://a.example/anthropic').map(entry => entry.model)).toEqual([
+      'hf:a/One',
+      'hf:a/Two',
+    ]);
+    expect(cache.getProblems('https://a.example/anthropic')).toEqual({ 'hf:a/One': 'HTTP 503' });
+    expect(cache.getProblems('https://b.example/anthropic')).toEqual({});
+  });
+});
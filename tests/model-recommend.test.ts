@@ -0,0 +1,95 @@
+/**
+ * Tier Recommendation Tests
+ *
+ * Tests how the recommender scores the catalogue and applies budgets and constraints.
+ */
+
+import {
+  ModelInfo,
+  ModelInfoImpl,
+  TierRecommendationError,
+  parseMinContext,
+  parseTierBudget,
+  recommendTiers,
+} from '../src/models';
+
+const model = (id: string, extra: Partial<ModelInfo> = {}) =>
+  new ModelInfoImpl({ id, object: 'model', hugging_face_id: id.slice(3), ...extra });
+
+const price = (prompt: number, completion: number) => ({
+  prompt: `$${prompt / 1_000_000}`,
+  completion: `$${completion / 1_000_000}`,
+});
+
+const catalogue = [
+  model('hf:big/Large-405B', {
+    context_length: 262144,
+    max_output_length: 65536,
+    pricing: price(3, 9),
+    supported_features: ['tools'],
+  }),
+  model('hf:small/Tiny-8B', {
+    context_length: 131072,
+    max_output_length: 8192,
+    pricing: price(0.1, 0.2),
+    supported_features: ['tools'],
+  }),
+  model('hf:small/Chat-8B', {
+    context_length: 131072,
+    max_output_length: 8192,
+    pricing: price(0.08, 0.16),
+  }),
+  model('hf:deepseek-ai/DeepSeek-R1', {
+    context_length: 131072,
+    max_output_length: 32768,
+    pricing: price(1, 3),
+  }),
+];
+
+const byTier = (models: ModelInfoImpl[], options = {}) =>
+  Object.fromEntries(recommendTiers(models, options).map(({ tier, model }) => [tier, model.id]));
+
+describe('Tier recommendations', () => {
+  it('should propose a model for every tier', () => {
+    expect(byTier(catalogue)).toEqual({
+      default: 'hf:big/Large-405B',
+      opus: 'hf:big/Large-405B',
+      sonnet: 'hf:big/Large-405B',
+      haiku: 'hf:small/Tiny-8B',
+      subagent: 'hf:small/Tiny-8B',
+      thinking: 'hf:deepseek-ai/DeepSeek-R1',
+    });
+  });
+
+  it('should weigh price by budget', () => {
+    expect(byTier(catalogue, { budget: 'low' }).sonnet).toBe('hf:small/Tiny-8B');
+    expect(byTier(catalogue, { budget: 'max' }).haiku).toBe('hf:big/Large-405B');
+  });
+
+  it('should list what a model scored well on', () => {
+    const haiku = recommendTiers(catalogue).find(entry => entry.tier === 'haiku');
+
+    expect(haiku?.strengths).toEqual(['low price', 'tool use']);
+  });
+
+  it('should only consider models meeting the constraints', () => {
+    expect(
+      Object.values(byTier(catalogue, { provider: 'Small' })).every(id =>
+        id.startsWith('hf:small/')
+      )
+    ).toBe(true);
+    expect(byTier(catalogue, { minContext: parseMinContext('256k') }).haiku).toBe(
+      'hf:big/Large-405B'
+    );
+    expect(() => recommendTiers(catalogue, { provider: 'nobody' })).toThrow(
+      'No models match provider "nobody"'
+    );
+  });
+
+  it('should reject unknown budgets and context values', () => {
+    expect(parseTierBudget('LOW')).toBe('low');
+    expect(() => parseTierBudget('cheap')).toThrow(TierRecommendationError);
+    expect(parseMinContext('128k')).toBe(128000);
+    expect(() => parseMinContext('lots')).toThrow(TierRecommendationError);
+  });
+});
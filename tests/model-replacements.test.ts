@@ -0,0 +1,90 @@
+/**
+ * Model Replacement Tests
+ *
+ * Tests the replacements suggested for missing models before a launch, and
+ * how a chosen replacement is written to the config.
+ */
+
+import { ModelInfoImpl, suggestReplacements } from '../src/models';
+import { ConfigManager } from '../src/config';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const catalogue = [
+  'hf:deepseek-ai/DeepSeek-R1',
+  'hf:deepseek-ai/DeepSeek-V3',
+  'hf:deepseek-ai/DeepSeek-V3.1',
+  'hf:Qwen/Qwen3-Coder-480B-A35B-Instruct',
+  'hf:Qwen/Qwen2.5-Coder-32B-Instruct',
+  'hf:moonshotai/Kimi-K2-Instruct',
+].map(id => new ModelInfoImpl({ id, object: 'model' }));
+
+const ids = (models: ModelInfoImpl[]) => models.map(model => model.id);
+
+describe('Model replacements', () => {
+  it('should suggest models of the same family, closest name first', () => {
+    expect(ids(suggestReplacements('hf:deepseek-ai/DeepSeek-V2', catalogue))).toEqual([
+      'hf:deepseek-ai/DeepSeek-V3',
+      'hf:deepseek-ai/DeepSeek-V3.1',
+      'hf:deepseek-ai/DeepSeek-R1',
+    ]);
+    expect(ids(suggestReplacements('hf:Qwen/Qwen3-Coder-30B-Instruct', catalogue, 1))).toEqual([
+      'hf:Qwen/Qwen3-Coder-480B-A35B-Instruct',
+    ]);
+  });
+
+  it('should match the family across organizations and providers', () => {
+    expect(ids(suggestReplacements('synthetic:kimi-k2-0905', catalogue))).toEqual([
+      'hf:moonshotai/Kimi-K2-Instruct',
+    ]);
+  });
+
+  it('should suggest nothing for unrelated models', () => {
+    expect(suggestReplacements('hf:meta-llama/Llama-3.3-70B-Instruct', catalogue)).toEqual([]);
+  });
+});
+
+describe('ConfigManager - Replacing models', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-replace-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should replace a model in the selected, tier and profile models', async () => {
+    const old = 'hf:deepseek-ai/DeepSeek-V2';
+    const manager = new ConfigManager(join(tempDir, 'config'), tempDir, {});
+    await manager.updateConfig({
+      selectedModel: old,
+      models: { default: old, opus: '', sonnet: old, haiku: 'hf:a/b', subagent: '', thinking: '' },
+    });
+    await manager.createProfile('work', { thinkingModel: old });
+
+    const changed = await manager.replaceModel(old, 'hf:deepseek-ai/DeepSeek-V3', 'work');
+
+    expect(changed).toEqual([
+      'selectedModel',
+      'models.default',
+      'models.sonnet',
+      'profiles.work.thinkingModel',
+    ]);
+    const config = manager.config;
+    expect(config.models.haiku).toBe('hf:a/b');
+    expect(config.profiles.work!.thinkingModel).toBe('hf:deepseek-ai/DeepSeek-V3');
+  });
+
+  it('should repoint aliases so settings made through them follow', async () => {
+    const manager = new ConfigManager(join(tempDir, 'config'), tempDir, {});
+    await manager.addModelAlias('fast', 'hf:deepseek-ai/DeepSeek-V2');
+
+    expect(
+      await manager.replaceModel('hf:deepseek-ai/DeepSeek-V2', 'hf:deepseek-ai/DeepSeek-V3')
+    ).toEqual(['modelAliases.fast']);
+    expect(manager.resolveModelAlias('fast')).toBe('hf:deepseek-ai/DeepSeek-V3');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Thinking Model Classification Tests
+ *
+ * Tests how API metadata, user rules and the built-in heuristics classify thinking models.
+ */
+
+import {
+  ModelInfo,
+  ModelInfoImpl,
+  classifyThinkingModel,
+  filterModels,
+  matchesIdPattern,
+  setThinkingRules,
+} from '../src/models';
+import { isThinkingModel } from '../src/utils';
+
+const model = (id: string, extra: Partial<ModelInfo> = {}) =>
+  new ModelInfoImpl({ id, object: 'model', ...extra });
+
+const noRules = { include: [], exclude: [] };
+
+describe('Thinking model classification', () => {
+  afterEach(() => {
+    setThinkingRules(noRules);
+  });
+
+  it('should trust reasoning metadata first', () => {
+    expect(
+      classifyThinkingModel(model('hf:a/Plain', { supported_features: ['tools', 'Reasoning'] }), {
+        include: [],
+        exclude: ['hf:a/*'],
+      })
+    ).toEqual({
+      thinking: true,
+      source: 'metadata',
+      reason: 'supported_features lists "Reasoning"',
+    });
+    expect(
+      classifyThinkingModel(
+        model('hf:a/Plain', { supported_sampling_parameters: ['reasoning_effort'] })
+      ).source
+    ).toBe('metadata');
+  });
+
+  it('should apply exclude rules before include rules and heuristics', () => {
+    const rules = { include: ['hf:acme/*', 'hf:deepseek-ai/*'], exclude: ['*-R1-Distill*'] };
+
+    expect(classifyThinkingModel(model('hf:acme/Fast-1'), rules)).toEqual({
+      thinking: true,
+      source: 'rule',
+      reason: 'matches include rule "hf:acme/*"',
+    });
+    expect(classifyThinkingModel(model('hf:deepseek-ai/DeepSeek-R1-Distill-70B'), rules)).toEqual({
+      thinking: false,
+      source: 'rule',
+      reason: 'matches exclude rule "*-R1-Distill*"',
+    });
+  });
+
+  it('should fall back to the built-in heuristics', () => {
+    expect(classifyThinkingModel(model('hf:moonshotai/Kimi-K2-Thinking'))).toMatchObject({
+      thinking: true,
+      source: 'heuristic',
+    });
+    expect(classifyThinkingModel(model('hf:meta-llama/Llama-3.3-70B')).thinking).toBe(false);
+  });
+
+  it('should only match o1 and o3 as whole name parts', () => {
+    expect(isThinkingModel('openai:o1-mini')).toBe(true);
+    expect(isThinkingModel('openai:o3')).toBe(true);
+    expect(isThinkingModel('hf:acme/Pro1-Instruct')).toBe(false);
+    expect(isThinkingModel('hf:acme/Coder-v0.1')).toBe(false);
+  });
+
+  it('should use the configured rules in filters', () => {
+    const models = [model('hf:acme/Fast-1'), model('hf:acme/Slow-1')];
+    setThinkingRules({ include: ['*fast*'], exclude: [] });
+
+    expect(filterModels(models, 'thinking').map(m => m.id)).toEqual(['hf:acme/Fast-1']);
+  });
+
+  it('should match whole IDs with wildcards, ignoring case', () => {
+    expect(matchesIdPattern('hf:Qwen/QwQ-32B', 'hf:qwen/*')).toBe(true);
+    expect(matchesIdPattern('hf:Qwen/QwQ-32B', 'qwen')).toBe(false);
+    expect(matchesIdPattern('hf:a/b.c', 'hf:a/b?c')).toBe(true);
+    expect(matchesIdPattern('hf:a/bxc', 'hf:a/b.c')).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * File Lock Tests
+ *
+ * Tests advisory locking, stale lock recovery and atomic writes.
+ */
+
+import {
+  FileLockError,
+  acquireFileLock,
+  lockPathFor,
+  withFileLock,
+  writeFileAtomic,
+} from '@/utils/file-lock';
+import { ConfigManager } from '@/config';
+import { mkdtemp, readFile, readdir, rm, utimes, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { hostname, tmpdir } from 'os';
+import { join } from 'path';
+
+describe('file-lock', () => {
+  let tempDir: string;
+  let target: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'synpick-lock-'));
+    target = join(tempDir, 'config.json');
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should create and remove the lock file', async () => {
+    const release = await acquireFileLock(target);
+    expect(existsSync(lockPathFor(target))).toBe(true);
+
+    await release();
+    expect(existsSync(lockPathFor(target))).toBe(false);
+  });
+
+  it('should make a second holder wait for the first', async () => {
+    const order: string[] = [];
+    const release = await acquireFileLock(target);
+
+    const waiting = withFileLock(target, async () => {
+      order.push('second');
+    });
+    await new Promise(resolve => setTimeout(resolve, 100));
+    order.push('first');
+    await release();
+    await waiting;
+
+    expect(order).toEqual(['first', 'second']);
+  });
+
+  it('should give up after the timeout', async () => {
+    const release = await acquireFileLock(target);
+
+    await expect(acquireFileLock(target, { timeoutMs: 100 })).rejects.toThrow(FileLockError);
+    await release();
+  });
+
+  it('should take over a lock left by a dead process', async () => {
+    await writeFile(
+      lockPathFor(target),
+      JSON.stringify({ pid: 2 ** 22 + 1, hostname: hostname(), token: 'x', acquiredAt: '' })
+    );
+
+    const release = await acquireFileLock(target, { timeoutMs: 500 });
+    await release();
+  });
+
+  it('should take over a lock older than the stale limit', async () => {
+    await writeFile(lockPathFor(target), 'garbage');
+    const old = new Date(Date.now() - 60000);
+    await utimes(lockPathFor(target), old, old);
+
+    const release = await acquireFileLock(target, { timeoutMs: 500, staleMs: 30000 });
+    await release();
+  });
+
+  it('should replace files without leaving temporary files behind', async () => {
+    await writeFileAtomic(target, '{"a":1}');
+    await writeFileAtomic(target, '{"a":2}');
+
+    expect(await readFile(target, 'utf-8')).toBe('{"a":2}');
+    expect(await readdir(tempDir)).toEqual(['config.json']);
+  });
+
+  it('should keep concurrent config updates from different managers', async () => {
+    const configDir = join(tempDir, 'synpick');
+    const first = new ConfigManager(configDir, tempDir, {});
+    const second = new ConfigManager(configDir, tempDir, {});
+    void first.config;
+    void second.config;
+
+    await Promise.all([
+      first.updateConfig({ maxTokenSize: 64000 }),
+      second.updateConfig({ cacheDurationHours: 48 }),
+      first.setConfigValue('models.sonnet', 'hf:a/sonnet'),
+    ]);
+
+    const saved = JSON.parse(await readFile(join(configDir, 'config.json'), 'utf-8'));
+    expect(saved.maxTokenSize).toBe(64000);
+    expect(saved.cacheDurationHours).toBe(48);
+    expect(saved.models.sonnet).toBe('hf:a/sonnet');
+  });
+});
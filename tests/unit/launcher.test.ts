@@ -75,6 +75,25 @@ describe('ClaudeLauncher', () => {
       );
     });
 
+    it('should use a custom anthropicBaseUrl when provided', async () => {
+      setupMockSpawnSuccess(1234);
+
+      await launcher.launchClaudeCode({
+        model: 'test-model',
+        anthropicBaseUrl: 'https://example.test/anthropic',
+      });
+
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'claude',
+        [],
+        expect.objectContaining({
+          env: expect.objectContaining({
+            ANTHROPIC_BASE_URL: 'https://example.test/anthropic',
+          }),
+        })
+      );
+    });
+
     it('should set all ANTHROPIC_DEFAULT_*_MODEL variables', async () => {
       setupMockSpawnSuccess(1234);
 